@@ -1,39 +1,174 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Rocket, ShieldCheck, Cpu, ArrowRight, Download, Zap, RefreshCw, Trash2 } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Rocket, ShieldCheck, Cpu, ArrowRight, Download, Zap, RefreshCw, Trash2, Undo2, Pause, Play, Square, Workflow } from 'lucide-react';
+import { isAddress } from 'ethers';
 import LogConsole from './components/LogConsole';
-import { LogEntry, LogType, WalletAccount } from './types';
-import { createWallets, createWalletsFromKeys, fundWallets, executeInteraction, isValidPrivateKey, getWalletInfo, getBalance, getWalletNonce } from './services/celoService';
+import MetricsPanel from './components/MetricsPanel';
+import LoadProfileEditor from './components/LoadProfileEditor';
+import FeeStrategyEditor from './components/FeeStrategyEditor';
+import RetryPolicyEditor from './components/RetryPolicyEditor';
+import FleetVault from './components/FleetVault';
+import PayloadBuilder from './components/PayloadBuilder';
+import DeployBuilder from './components/DeployBuilder';
+import WorkloadMix from './components/WorkloadMix';
+import RunHistory from './components/RunHistory';
+import PipelineEditor from './components/PipelineEditor';
+import PhaseTimeline from './components/PhaseTimeline';
+import RpcPoolEditor, { RpcPoolSettings } from './components/RpcPoolEditor';
+import MockChainEditor from './components/MockChainEditor';
+import BlockSpacePanel from './components/BlockSpacePanel';
+import TokenPanel from './components/TokenPanel';
+import WalletFleetList from './components/WalletFleetList';
+import { AbortTriggers, FeeConfig, FundingMode, LoadProfile, LogEntry, LogType, MetricsSnapshot, MockChainConfig, NetworkProfile, PayloadTemplate, PhaseState, PipelinePhase, RetryPolicies, RunState, SwarmStats, TokenInfo, WalletAccount, WorkloadAction } from './types';
+import { CELO_MAINNET_ID, CUSTOM_NETWORK_ID, DEFAULT_CUSTOM_CHAIN_ID, DEFAULT_CUSTOM_RPC_URL, DEFAULT_HD_BASE_PATH, DEPLOYED_LIST_NAME, DEFAULT_MOCK_CHAIN, DEFAULT_PIPELINE, DEFAULT_RETRY_POLICIES, DEFAULT_SEND_CONCURRENCY, MAX_FLEET_SIZE, MAX_UI_LOG_ENTRIES, NETWORK_PROFILES } from './constants';
+import { createWallets, createWalletsFromKeys, createWalletsFromMnemonic, generateMnemonic, isValidMnemonic, isValidPrivateKey, getMockChain, getTokenInfo, getWalletInfo, prepareMockFunder, verifyNetwork } from './services/celoService';
+import { SwarmOptions, SwarmResult, createLogEntry, emptyStats, refreshBalances, refreshTokenBalances, singleAction, tokenTransferAction } from './services/swarmEngine';
+import { runPreflight } from './services/preflight';
+import { PipelineOptions } from './services/pipeline';
+import { HookBatch, createBatchedHooks } from './services/hookBatcher';
+import { EngineTaskKind, EngineTaskOptions } from './services/engineTasks';
+import { runEngineTask } from './services/engineClient';
+import { hasPlaceholders } from './services/payloadTemplate';
+import { RunControl, createRunControl } from './services/runControl';
+import { buildRunReport } from './services/runReport';
+import { saveRunReport } from './services/runHistory';
 import { generateInteractionData, analyzeContractStrategy } from './services/geminiService';
 
+// Appends to the log console, keeping only the newest entries
+const appendLogs = (prev: LogEntry[], entries: LogEntry[]) => {
+  const next = [...prev, ...entries];
+  return next.length > MAX_UI_LOG_ENTRIES ? next.slice(next.length - MAX_UI_LOG_ENTRIES) : next;
+};
+
 const App: React.FC = () => {
   const [isFunding, setIsFunding] = useState(false);
   const [isSwarming, setIsSwarming] = useState(false);
+  const [isPipelining, setIsPipelining] = useState(false);
+  const [isSweeping, setIsSweeping] = useState(false);
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [wallets, setWallets] = useState<WalletAccount[]>([]);
-  const [stats, setStats] = useState({ totalTx: 0, successfulTx: 0, failedTx: 0 });
+  const [stats, setStats] = useState<SwarmStats>(emptyStats());
+  const [metrics, setMetrics] = useState<MetricsSnapshot | null>(null);
+
+  // Network State
+  const [networkId, setNetworkId] = useState(CELO_MAINNET_ID);
+  const [customRpcUrl, setCustomRpcUrl] = useState(DEFAULT_CUSTOM_RPC_URL);
+  const [customChainId, setCustomChainId] = useState(DEFAULT_CUSTOM_CHAIN_ID);
+  const [networkStatus, setNetworkStatus] = useState<'connecting' | 'connected' | 'error'>('connecting');
+  const [rpcPool, setRpcPool] = useState<RpcPoolSettings>({ primaryWeight: 1, extra: [], balancing: 'roundRobin' });
+  const [mockConfig, setMockConfig] = useState<MockChainConfig>(DEFAULT_MOCK_CHAIN);
   
   // Form State
   const [targetContract, setTargetContract] = useState('');
-  const [walletMode, setWalletMode] = useState<'generate' | 'import'>('generate');
+  const [walletMode, setWalletMode] = useState<'generate' | 'import' | 'mnemonic'>('generate');
   const [walletCount, setWalletCount] = useState(5);
   const [importText, setImportText] = useState('');
+  const [mnemonic, setMnemonic] = useState('');
+  const [hdBasePath, setHdBasePath] = useState(DEFAULT_HD_BASE_PATH);
+  const [hdStartIndex, setHdStartIndex] = useState(0);
   const [interactionsPerWallet, setInteractionsPerWallet] = useState(10);
   const [fundingAmount, setFundingAmount] = useState('0.01');
+  const [fundingMode, setFundingMode] = useState<FundingMode>('sequential');
+  const [disperseAddress, setDisperseAddress] = useState('');
+  const [token, setToken] = useState<TokenInfo | null>(null);
+  const [sweepRecipient, setSweepRecipient] = useState('');
   const [funderKey, setFunderKey] = useState('');
   const [funderBalance, setFunderBalance] = useState<string | null>(null);
   const [customData, setCustomData] = useState('');
+  const [payloadMode, setPayloadMode] = useState<'abi' | 'deploy' | 'ai'>('abi');
+  const [abiText, setAbiText] = useState('');
+  const [abiTemplate, setAbiTemplate] = useState<PayloadTemplate | null>(null);
+  const [deployTemplate, setDeployTemplate] = useState<PayloadTemplate | null>(null);
+  const [templateLists, setTemplateLists] = useState<Record<string, string[]>>({});
+  const [workloadActions, setWorkloadActions] = useState<WorkloadAction[]>([]);
+  const [ignorePreflight, setIgnorePreflight] = useState(false);
   const [aiPrompt, setAiPrompt] = useState('');
   const [isGeneratingAi, setIsGeneratingAi] = useState(false);
   const [aiStrategy, setAiStrategy] = useState('');
   const [gasLimit, setGasLimit] = useState(300000);
+  const [loadProfile, setLoadProfile] = useState<LoadProfile>({ kind: 'burst' });
+  const [maxDurationSec, setMaxDurationSec] = useState(0);
+  const [concurrency, setConcurrency] = useState(DEFAULT_SEND_CONCURRENCY);
+  const [feeConfig, setFeeConfig] = useState<FeeConfig>({ strategy: { kind: 'auto' } });
+  const [retryPolicies, setRetryPolicies] = useState<RetryPolicies>(DEFAULT_RETRY_POLICIES);
+  const [spendBudget, setSpendBudget] = useState('');
+  const [abortFailurePct, setAbortFailurePct] = useState(0);
+  const [pipeline, setPipeline] = useState<PipelinePhase[]>(DEFAULT_PIPELINE);
+  const [phaseStates, setPhaseStates] = useState<PhaseState[]>([]);
+  const [lastPipeline, setLastPipeline] = useState<PipelineOptions | null>(null);
+
+  // Run Control State
+  const [runControl, setRunControl] = useState<RunControl | null>(null);
+  const [runState, setRunState] = useState<RunState | null>(null);
+
+  // Run History State
+  const [runLabel, setRunLabel] = useState('');
+  const [watchBlocks, setWatchBlocks] = useState(false);
+  const [wsUrlOverride, setWsUrlOverride] = useState('');
+  const [historyKey, setHistoryKey] = useState(0);
+
+  const network: NetworkProfile = useMemo(() => {
+    const base: NetworkProfile = networkId === CUSTOM_NETWORK_ID
+        ? {
+            id: CUSTOM_NETWORK_ID,
+            name: 'Custom RPC',
+            rpcUrl: customRpcUrl,
+            chainId: customChainId,
+            explorerUrl: '',
+            // Local nodes (anvil, hardhat, ganache) serve WebSocket on the HTTP port
+            wsUrl: customRpcUrl.replace(/^http/, 'ws')
+        }
+        : NETWORK_PROFILES.find(p => p.id === networkId) || NETWORK_PROFILES[0];
+    if (rpcPool.extra.length === 0) return base;
+    return {
+        ...base,
+        rpcPool: {
+            endpoints: [{ url: base.rpcUrl, weight: rpcPool.primaryWeight }, ...rpcPool.extra],
+            balancing: rpcPool.balancing
+        }
+    };
+  }, [networkId, customRpcUrl, customChainId, rpcPool]);
 
   // Initial greeting
   useEffect(() => {
     if (logs.length === 0) {
-        addLog("System Ready. Waiting for Celo Mainnet command.", LogType.INFO);
+        addLog("System Ready. Select a network and configure the fleet.", LogType.INFO);
     }
   }, []);
 
+  // Verify chain ID whenever the selected profile changes
+  useEffect(() => {
+      let cancelled = false;
+      setNetworkStatus('connecting');
+      const connect = async () => {
+          try {
+              const { blockNumber } = await verifyNetwork(network);
+              if (cancelled) return;
+              setNetworkStatus('connected');
+              addLog(`Connected to ${network.name} (chain ${network.chainId}) at block ${blockNumber}.`, LogType.SUCCESS);
+          } catch (e) {
+              if (cancelled) return;
+              setNetworkStatus('error');
+              addLog(`Network check failed for ${network.name}: ${(e as Error).message}`, LogType.ERROR);
+          }
+      };
+
+      const timer = setTimeout(connect, 500); // Debounce custom RPC typing
+      return () => {
+          cancelled = true;
+          clearTimeout(timer);
+      };
+  }, [network]);
+
+  // Mock settings apply to the live chain so balances and nonces survive edits
+  useEffect(() => {
+      getMockChain(network)?.configure(mockConfig);
+  }, [network, mockConfig]);
+
+  // A token address means nothing on another chain
+  useEffect(() => {
+      setToken(null);
+  }, [network.id, network.chainId]);
+
   // Update wallet count when importing
   useEffect(() => {
     if (walletMode === 'import') {
@@ -46,7 +181,8 @@ const App: React.FC = () => {
   useEffect(() => {
       const checkBalance = async () => {
           if (isValidPrivateKey(funderKey)) {
-              const info = await getWalletInfo(funderKey);
+              prepareMockFunder(network, funderKey);
+              const info = await getWalletInfo(network, funderKey);
               if (info) {
                   setFunderBalance(info.balance);
               }
@@ -57,18 +193,46 @@ const App: React.FC = () => {
       
       const timer = setTimeout(checkBalance, 500); // Debounce
       return () => clearTimeout(timer);
-  }, [funderKey]);
+  }, [funderKey, network]);
+
+  // Bridges one frame of engine events into React state
+  const applyBatch = useCallback((batch: HookBatch) => {
+    if (batch.logs.length > 0 || batch.logPatches.size > 0) {
+        setLogs(prev => {
+            const patched = batch.logPatches.size > 0
+                ? prev.map(l => batch.logPatches.has(l.id) ? { ...l, ...batch.logPatches.get(l.id) } : l)
+                : prev;
+            return appendLogs(patched, batch.logs);
+        });
+    }
+    if (batch.wallets.size > 0) {
+        setWallets(prev => {
+            const updated = [...prev];
+            batch.wallets.forEach((patch, index) => {
+                if (updated[index]) updated[index] = { ...updated[index], ...patch };
+            });
+            return updated;
+        });
+    }
+    if (batch.stats) setStats(batch.stats);
+    if (batch.metrics) setMetrics(batch.metrics);
+    if (batch.phases.size > 0) {
+        setPhaseStates(prev => prev.map((p, i) => batch.phases.get(i) ?? p));
+    }
+  }, []);
+
+  // Hooks for engine work on the page itself (balance reads, pre-flight) and app messages
+  const engineHooks = useMemo(() => createBatchedHooks(applyBatch), [applyBatch]);
 
   const addLog = useCallback((message: string, type: LogType, txHash?: string) => {
-    const entry: LogEntry = {
-      id: Math.random().toString(36).substring(7),
-      timestamp: Date.now(),
-      message,
-      type,
-      txHash
-    };
-    setLogs(prev => [...prev, entry]);
-  }, [logs.length]);
+    engineHooks.log(createLogEntry(message, type, txHash));
+  }, [engineHooks]);
+
+  // Signing and sending run in a worker; page messages queued so far go out first to keep the log in order
+  const runTask = <K extends EngineTaskKind>(kind: K, options: EngineTaskOptions<K>) => {
+      engineHooks.flush();
+      return runEngineTask(kind, options, applyBatch);
+  };
 
   const handleAiGeneration = async (promptOverride?: string) => {
     if (!targetContract) {
@@ -90,6 +254,7 @@ const App: React.FC = () => {
     try {
       addLog(`Gemini Processing: "${promptToUse}"`, LogType.INFO);
       const result = await generateInteractionData(targetContract, promptToUse);
+      setAbiTemplate(null);
       setCustomData(result.hexData);
       addLog(`Payload Generated: ${result.reasoning}`, LogType.SUCCESS);
       
@@ -109,8 +274,8 @@ const App: React.FC = () => {
     }
 
     const csvContent = "data:text/csv;charset=utf-8," 
-        + "Index,Address,PrivateKey,Status,TxCount,Balance\n"
-        + wallets.map((w, i) => `${i+1},${w.address},${w.privateKey},${w.status},${w.txCount},${w.balance}`).join("\n");
+        + "Index,Address,PrivateKey,Status,TxCount,Balance,DerivationPath\n"
+        + wallets.map((w, i) => `${i+1},${w.address},${w.privateKey},${w.status},${w.txCount},${w.balance},${w.derivationPath || ''}`).join("\n");
 
     const encodedUri = encodeURI(csvContent);
     const link = document.createElement("a");
@@ -123,15 +288,8 @@ const App: React.FC = () => {
   };
 
   const updateFleetBalances = async (currentWallets: WalletAccount[]) => {
-      addLog("Refreshing fleet balances...", LogType.INFO);
-      const updatedWallets = [...currentWallets];
-      
-      // Update in chunks or one by one
-      for (let i = 0; i < updatedWallets.length; i++) {
-          const bal = await getBalance(updatedWallets[i].address);
-          updatedWallets[i].balance = bal;
-      }
-      setWallets(updatedWallets);
+      await refreshBalances(network, currentWallets, engineHooks);
+      if (token) await refreshTokenBalances(network, token, currentWallets, engineHooks);
   };
 
   const prepareFleet = (): WalletAccount[] => {
@@ -140,6 +298,19 @@ const App: React.FC = () => {
           addLog(`Generating ${walletCount} fresh wallets...`, LogType.INFO);
           newWallets = createWallets(walletCount);
           addLog(`Wallets generated successfully.`, LogType.SUCCESS);
+      } else if (walletMode === 'mnemonic') {
+          if (!isValidMnemonic(mnemonic)) {
+              addLog("Invalid BIP-39 mnemonic.", LogType.ERROR);
+              return [];
+          }
+          addLog(`Deriving ${walletCount} wallets from ${hdBasePath}/${hdStartIndex}...`, LogType.INFO);
+          try {
+              newWallets = createWalletsFromMnemonic(mnemonic, walletCount, hdBasePath, hdStartIndex);
+          } catch (e) {
+              addLog(`Derivation failed: ${(e as Error).message}`, LogType.ERROR);
+              return [];
+          }
+          addLog(`Derived ${newWallets.length} wallets (${hdBasePath}/${hdStartIndex}..${hdStartIndex + newWallets.length - 1}).`, LogType.SUCCESS);
       } else {
           addLog(`Parsing imported keys...`, LogType.INFO);
           const keys = importText.split('\n');
@@ -156,19 +327,45 @@ const App: React.FC = () => {
 
   const resetFleet = () => {
       setWallets([]);
-      setStats({ totalTx: 0, successfulTx: 0, failedTx: 0 });
+      setStats(emptyStats());
+      setMetrics(null);
       addLog("Fleet reset. Ready for new configuration.", LogType.INFO);
   };
 
+  // Fresh pause/abort switch for the funding or swarm run about to start
+  const beginRun = () => {
+      const control = createRunControl(setRunState);
+      setRunControl(control);
+      setRunState('running');
+      return control;
+  };
+
+  const endRun = () => {
+      setRunControl(null);
+      setRunState(null);
+  };
+
+  const handleAbort = () => {
+      if (!runControl) return;
+      runControl.abort('stopped by user');
+      addLog("Abort requested. Finishing the sends already in progress...", LogType.WARNING);
+  };
+
   const handleFundFleet = async () => {
-      if (isFunding || isSwarming) return;
+      if (isBusy) return;
       
       if (!isValidPrivateKey(funderKey)) {
           addLog("Invalid Funder Private Key", LogType.ERROR);
           return;
       }
 
+      if (networkStatus !== 'connected') {
+          addLog(`Not connected to ${network.name}. Check the RPC and chain ID.`, LogType.ERROR);
+          return;
+      }
+
       setIsFunding(true);
+      const control = beginRun();
       
       try {
           // 1. Ensure Wallets Exist
@@ -179,118 +376,369 @@ const App: React.FC = () => {
           }
 
           // 2. Fund Wallets
-          addLog(`Dispersing ${fundingAmount} CELO to ${currentWallets.length} wallets (Blocking)...`, LogType.INFO);
-          
-          await fundWallets(funderKey, currentWallets, fundingAmount, (index, txHash) => {
-             addLog(`Funded Wallet ${index + 1} - Confirmed`, LogType.SUCCESS, txHash);
-             setWallets(prev => {
-                 const updated = [...prev];
-                 if (updated[index]) updated[index].status = 'funding';
-                 return updated;
-             });
+          const result = await runTask('funding', {
+              network,
+              funderPrivateKey: funderKey,
+              wallets: currentWallets,
+              amountPerWallet: fundingAmount,
+              mode: fundingMode,
+              disperseAddress: disperseAddress.trim() || undefined,
+              control
           });
-          
-          addLog("Funds confirmed. Waiting 3s for network propagation...", LogType.WARNING);
-          await new Promise(resolve => setTimeout(resolve, 3000));
-
-          await updateFleetBalances(currentWallets);
-          addLog("Funding sequence complete. Fleet Ready.", LogType.SUCCESS);
+          if (result.disperseAddress) setDisperseAddress(result.disperseAddress);
 
       } catch (error) {
           addLog(`Funding Error: ${(error as Error).message}`, LogType.ERROR);
       } finally {
           setIsFunding(false);
+          endRun();
       }
   };
 
-  const handleStartSwarm = async () => {
-      if (isFunding || isSwarming) return;
+  const handleSelectToken = async (address: string) => {
+      if (!isAddress(address)) {
+          addLog(`Invalid token address: ${address}`, LogType.ERROR);
+          return;
+      }
+      try {
+          const info = await getTokenInfo(network, address);
+          setToken(info);
+          addLog(`Fleet token set to ${info.symbol} (${info.decimals} decimals).`, LogType.SUCCESS);
+          if (wallets.length > 0) await refreshTokenBalances(network, info, wallets, engineHooks);
+      } catch (e) {
+          addLog(`Could not load token: ${(e as Error).message}`, LogType.ERROR);
+      }
+  };
 
-      if (!targetContract) {
-          addLog("Target Contract address required", LogType.ERROR);
+  const handleDistributeToken = async (amountPerWallet: string) => {
+      if (isBusy || !token) return;
+
+      if (!isValidPrivateKey(funderKey)) {
+          addLog("Invalid Funder Private Key", LogType.ERROR);
+          return;
+      }
+      if (!(Number(amountPerWallet) > 0)) {
+          addLog(`Enter a positive ${token.symbol} amount per wallet.`, LogType.ERROR);
+          return;
+      }
+
+      setIsFunding(true);
+      const control = beginRun();
+      try {
+          let currentWallets = wallets;
+          if (currentWallets.length === 0) {
+              currentWallets = prepareFleet();
+              if (currentWallets.length === 0) throw new Error("Failed to initialize fleet.");
+          }
+          const result = await runTask('tokenFunding', {
+              network,
+              funderPrivateKey: funderKey,
+              wallets: currentWallets,
+              token,
+              amountPerWallet,
+              mode: fundingMode,
+              disperseAddress: disperseAddress.trim() || undefined,
+              control
+          });
+          if (result.disperseAddress) setDisperseAddress(result.disperseAddress);
+      } catch (error) {
+          addLog(`Token Funding Error: ${(error as Error).message}`, LogType.ERROR);
+      } finally {
+          setIsFunding(false);
+          endRun();
+      }
+  };
+
+  const handleApproveToken = async (spender: string, amount?: string) => {
+      if (isBusy || !token) return;
+
+      if (wallets.length === 0) {
+          addLog("No active fleet. Generate or Fund first.", LogType.ERROR);
+          return;
+      }
+      if (!isAddress(spender)) {
+          addLog(`Invalid spender address: ${spender}`, LogType.ERROR);
+          return;
+      }
+      if (amount !== undefined && !(Number(amount) >= 0)) {
+          addLog(`Allowance must be a ${token.symbol} amount, or empty for the maximum.`, LogType.ERROR);
+          return;
+      }
+
+      setIsFunding(true);
+      try {
+          await runTask('approvals', { network, wallets, token, spender, amount, retryPolicies });
+      } catch (error) {
+          addLog(`Approval Error: ${(error as Error).message}`, LogType.ERROR);
+      } finally {
+          setIsFunding(false);
+      }
+  };
+
+  const handleAddTokenStorm = (amountPerTx: string) => {
+      if (!token) return;
+      if (!(Number(amountPerTx) > 0)) {
+          addLog(`Enter a positive ${token.symbol} amount per transfer.`, LogType.ERROR);
           return;
       }
+      const action = tokenTransferAction(token, amountPerTx);
+      setWorkloadActions(prev => [...prev, { ...action, id: Math.random().toString(36).substring(7) }]);
+      addLog(`Added "${action.name}" (${amountPerTx} ${token.symbol} to a random fleet wallet) to the workload mix.`, LogType.INFO);
+  };
+
+  const handleAddAction = () => {
+      const deploying = payloadMode === 'deploy';
+      if (deploying && !deployTemplate) {
+          addLog("Set a deploy payload before adding a deploy action.", LogType.ERROR);
+          return;
+      }
+      if (!deploying && !isAddress(targetContract) && !hasPlaceholders(targetContract)) {
+          addLog("Set a valid target contract before adding an action.", LogType.ERROR);
+          return;
+      }
+      const payload: PayloadTemplate = deploying ? deployTemplate! : abiTemplate ?? { kind: 'hex', data: customData || '0x' };
+      const name = payload.kind === 'abi' ? payload.signature.split('(')[0]
+          : payload.kind === 'deploy' ? `deploy${workloadActions.length + 1}`
+          : `action${workloadActions.length + 1}`;
+      setWorkloadActions(prev => [...prev, {
+          id: Math.random().toString(36).substring(7),
+          name,
+          weight: 1,
+          target: deploying ? '' : targetContract,
+          payload,
+          value: '0',
+          gasLimit
+      }]);
+      addLog(`Added "${name}" to the workload mix.`, LogType.INFO);
+  };
+
+  // Workload settings shared by Start Swarm and the pipeline's swarm phases; null after logging what's missing
+  const prepareSwarmSettings = (): PipelineOptions['swarm'] | null => {
+      if (workloadActions.length === 0 && payloadMode === 'deploy' && !deployTemplate) {
+          addLog("Deploy payload required", LogType.ERROR);
+          return null;
+      }
+
+      if (workloadActions.length === 0 && payloadMode !== 'deploy' && !targetContract) {
+          addLog("Target Contract address required", LogType.ERROR);
+          return null;
+      }
+
+      if (feeConfig.feeCurrency && !isAddress(feeConfig.feeCurrency)) {
+          addLog("Fee currency must be a token address.", LogType.ERROR);
+          return null;
+      }
+
+      const abortOn: AbortTriggers = {};
+      if (spendBudget.trim()) {
+          if (isNaN(Number(spendBudget)) || Number(spendBudget) <= 0) {
+              addLog("Spend budget must be a positive CELO amount.", LogType.ERROR);
+              return null;
+          }
+          abortOn.maxSpend = spendBudget.trim();
+      }
+      if (abortFailurePct > 0) abortOn.maxFailureRate = abortFailurePct / 100;
+
+      const wsUrl = watchBlocks ? (wsUrlOverride.trim() || network.wsUrl) : undefined;
+      if (watchBlocks && !/^wss?:\/\//.test(wsUrl || '')) {
+          addLog("Block watching needs a ws:// or wss:// URL.", LogType.ERROR);
+          return null;
+      }
+
+      const actions = workloadActions.length > 0
+          ? workloadActions
+          : payloadMode === 'deploy'
+              ? [singleAction('', deployTemplate!, gasLimit)]
+              : [singleAction(targetContract, abiTemplate ?? { kind: 'hex', data: customData }, gasLimit)];
+
+      return {
+          actions,
+          interactionsPerWallet,
+          templateLists,
+          fees: feeConfig,
+          retryPolicies,
+          loadProfile,
+          maxDurationSec: maxDurationSec > 0 ? maxDurationSec : undefined,
+          concurrency,
+          abortOn,
+          wsUrl
+      };
+  };
+
+  const handleStartSwarm = async () => {
+      if (isBusy) return;
 
       if (wallets.length === 0) {
           addLog("No active fleet. Generate or Fund first.", LogType.ERROR);
           return;
       }
 
+      if (networkStatus !== 'connected') {
+          addLog(`Not connected to ${network.name}. Check the RPC and chain ID.`, LogType.ERROR);
+          return;
+      }
+
+      const settings = prepareSwarmSettings();
+      if (!settings) return;
+
       setIsSwarming(true);
-      setStats({ totalTx: 0, successfulTx: 0, failedTx: 0 });
-      addLog(`INITIATING SWARM SEQUENCE...`, LogType.INFO);
-      addLog(`TARGET: ${targetContract}`, LogType.INFO);
-      addLog(`INTENSITY: ${interactionsPerWallet} txs per wallet`, LogType.INFO);
-      addLog(`GAS LIMIT: ${gasLimit} (Estimation Skipped)`, LogType.INFO);
+      const control = beginRun();
 
       try {
-          const walletPromises = wallets.map(async (wallet, wIndex) => {
-              // 1. Manual Nonce Management: Fetch start nonce once per wallet
-              let nonce = 0;
-              try {
-                nonce = await getWalletNonce(wallet.address);
-              } catch (e) {
-                addLog(`[W${wIndex + 1}] Failed to fetch initial nonce.`, LogType.ERROR);
-                return;
+          const preflight = await runPreflight({ network, wallets, actions: settings.actions, interactionsPerWallet, templateLists, abiText, fees: feeConfig }, engineHooks);
+          if (!preflight.passed) {
+              if (!ignorePreflight) {
+                  addLog("Swarm not started. Fix the pre-flight failures or enable the override.", LogType.ERROR);
+                  return;
               }
+              addLog("Pre-flight override enabled. Starting anyway.", LogType.WARNING);
+          }
+          if (control.state() === 'aborted') {
+              addLog("Swarm not started: aborted during pre-flight.", LogType.WARNING);
+              return;
+          }
 
-              for (let i = 0; i < interactionsPerWallet; i++) {
-                  setWallets(prev => {
-                    const updated = [...prev];
-                    if (updated[wIndex]) updated[wIndex].status = 'sending';
-                    return updated;
-                  });
-    
-                  try {
-                      // 2. Manual Nonce: Pass current nonce and increment locally
-                      // 3. Skip Gas Estimation: Pass hardcoded gasLimit
-                      const hash = await executeInteraction(wallet, targetContract, customData, nonce++, gasLimit);
-                      
-                      addLog(`[W${wIndex + 1}] Tx ${i + 1}/${interactionsPerWallet} confirmed`, LogType.SUCCESS, hash);
-                      setStats(s => ({ ...s, totalTx: s.totalTx + 1, successfulTx: s.successfulTx + 1 }));
-                      
-                      setWallets(prev => {
-                        const updated = [...prev];
-                        if (updated[wIndex]) updated[wIndex].txCount += 1;
-                        return updated;
-                      });
-                  } catch (error) {
-                      // 3. Improved Error Logging
-                      const reason = (error as any).reason || (error as any).message || "Unknown error";
-                      addLog(`[W${wIndex + 1}] Tx Failed: ${reason}`, LogType.ERROR);
-                      
-                      setStats(s => ({ ...s, totalTx: s.totalTx + 1, failedTx: s.failedTx + 1 }));
-                      setWallets(prev => {
-                        const updated = [...prev];
-                        if (updated[wIndex]) updated[wIndex].status = 'error';
-                        return updated;
-                      });
-                  }
-                  await new Promise(r => setTimeout(r, 200)); 
-              }
-              setWallets(prev => {
-                const updated = [...prev];
-                if (updated[wIndex]) updated[wIndex].status = 'done';
-                return updated;
-              });
-          });
-    
-          await Promise.all(walletPromises);
-          addLog("SWARM COMPLETE.", LogType.SUCCESS);
-          
-          setWallets(prev => {
-              const w = [...prev];
-              updateFleetBalances(w);
-              return w;
-          });
+          const options: SwarmOptions = { ...settings, network, wallets, control, token: token ?? undefined };
+          const result = await runTask('swarm', options);
+          await recordSwarmRun(options, result, runLabel.trim());
       } catch (error) {
           addLog(`Swarm Error: ${(error as Error).message}`, LogType.ERROR);
       } finally {
           setIsSwarming(false);
+          endRun();
+      }
+  };
+
+  // Keeps deployed addresses for follow-up targeting and saves the run to history
+  const recordSwarmRun = async (options: SwarmOptions, result: SwarmResult, label: string) => {
+      if (result.deployedAddresses.length > 0) {
+          setTemplateLists(prev => ({ ...prev, [DEPLOYED_LIST_NAME]: result.deployedAddresses }));
+          addLog(`Saved ${result.deployedAddresses.length} deployed address(es) as list "${DEPLOYED_LIST_NAME}". Target {{listRandom:${DEPLOYED_LIST_NAME}}} to swarm them.`, LogType.INFO);
+      }
+
+      try {
+          const report = buildRunReport(options, result, label);
+          await saveRunReport(report);
+          setHistoryKey(k => k + 1);
+          addLog(`Run saved to history as "${report.label}".`, LogType.INFO);
+      } catch (e) {
+          addLog(`Could not save run report: ${(e as Error).message}`, LogType.WARNING);
+      }
+  };
+
+  // Sweep recipient field, or the funder's address when it's empty
+  const resolveSweepRecipient = async (): Promise<string | null> => {
+      let recipient = sweepRecipient.trim();
+      if (!recipient) {
+          const funder = isValidPrivateKey(funderKey) ? await getWalletInfo(network, funderKey) : null;
+          if (!funder) {
+              addLog("Enter a sweep recipient or a valid Funder Private Key.", LogType.ERROR);
+              return null;
+          }
+          recipient = funder.address;
+      }
+      if (!isAddress(recipient)) {
+          addLog(`Invalid sweep recipient: ${recipient}`, LogType.ERROR);
+          return null;
       }
+      return recipient;
   };
 
-  const isBusy = isFunding || isSwarming;
+  const executePipeline = async (options: PipelineOptions) => {
+      setIsPipelining(true);
+      setLastPipeline(options);
+      setPhaseStates(options.phases.map(phase => ({ kind: phase.kind, status: 'pending' })));
+      const control = beginRun();
+
+      try {
+          const result = await runTask('pipeline', { ...options, wallets, control });
+          if (result.disperseAddress) setDisperseAddress(result.disperseAddress);
+          const load = result.swarms.load;
+          if (load) {
+              const swarmOptions: SwarmOptions = { ...options.swarm, network: options.network, wallets: result.wallets, token: options.token };
+              await recordSwarmRun(swarmOptions, load, runLabel.trim() || 'pipeline');
+          }
+      } catch (error) {
+          addLog(`Pipeline Error: ${(error as Error).message}`, LogType.ERROR);
+      } finally {
+          setIsPipelining(false);
+          endRun();
+      }
+  };
+
+  const handleRunPipeline = async () => {
+      if (isBusy) return;
+
+      if (networkStatus !== 'connected') {
+          addLog(`Not connected to ${network.name}. Check the RPC and chain ID.`, LogType.ERROR);
+          return;
+      }
+
+      const enabled = (kind: PipelinePhase['kind']) => pipeline.some(p => p.kind === kind && p.enabled);
+      if (!enabled('fleet') && wallets.length === 0) {
+          addLog("No active fleet. Enable the fleet phase or generate one first.", LogType.ERROR);
+          return;
+      }
+      if ((enabled('fund') || enabled('tokenSetup')) && !isValidPrivateKey(funderKey)) {
+          addLog("Invalid Funder Private Key", LogType.ERROR);
+          return;
+      }
+      if ((enabled('tokenSetup') || enabled('approvals')) && !token) {
+          addLog("Token phases need a fleet token. Load one in the Fleet Token box.", LogType.ERROR);
+          return;
+      }
+      const approvals = pipeline.find(p => p.kind === 'approvals' && p.enabled);
+      if (approvals && !isAddress(approvals.spender || '')) {
+          addLog("The approvals phase needs a valid spender address.", LogType.ERROR);
+          return;
+      }
+
+      const swarm = prepareSwarmSettings();
+      if (!swarm) return;
+
+      const sweepTo = enabled('sweep') ? await resolveSweepRecipient() : undefined;
+      if (sweepTo === null) return;
+
+      await executePipeline({
+          network,
+          phases: pipeline,
+          wallets,
+          createFleet: async () => prepareFleet(),
+          funderPrivateKey: funderKey || undefined,
+          fundingAmount,
+          fundingMode,
+          disperseAddress: disperseAddress.trim() || undefined,
+          token: token ?? undefined,
+          swarm,
+          preflight: true,
+          abiText,
+          ignorePreflight,
+          sweepTo
+      });
+  };
+
+  const handleSweepFleet = async () => {
+      if (isBusy) return;
+
+      if (wallets.length === 0) {
+          addLog("No fleet to sweep.", LogType.WARNING);
+          return;
+      }
+
+      const recipient = await resolveSweepRecipient();
+      if (!recipient) return;
+
+      setIsSweeping(true);
+      try {
+          await runTask('sweep', { network, wallets, recipient, retryPolicies });
+      } catch (error) {
+          addLog(`Sweep Error: ${(error as Error).message}`, LogType.ERROR);
+      } finally {
+          setIsSweeping(false);
+      }
+  };
+
+  const isBusy = isFunding || isSwarming || isSweeping || isPipelining;
 
   return (
     <div className="min-h-screen p-4 md:p-8 flex flex-col items-center">
@@ -302,15 +750,48 @@ const App: React.FC = () => {
              CeloShip
            </h1>
            <p className="text-xl font-bold font-sans uppercase tracking-widest flex items-center gap-2">
-             <span className="bg-celo-black text-celo-bg px-2 py-1">Mainnet</span>
+             <span className="bg-celo-black text-celo-bg px-2 py-1">{network.name}</span>
              Load Tester
            </p>
         </div>
         <div className="flex flex-col items-end gap-2">
              <div className="flex items-center gap-2 font-mono text-sm font-bold bg-white border-2 border-celo-black px-3 py-1 shadow-brutal-sm">
-                <div className="w-3 h-3 bg-celo-green rounded-full animate-pulse border border-black"></div>
-                Connected to Forno
+                <div className={`w-3 h-3 rounded-full border border-black ${
+                    networkStatus === 'connected' ? 'bg-celo-green animate-pulse' :
+                    networkStatus === 'error' ? 'bg-red-500' : 'bg-celo-orange animate-pulse'
+                }`}></div>
+                <select
+                    className="bg-transparent outline-none font-bold"
+                    value={networkId}
+                    onChange={e => setNetworkId(e.target.value)}
+                    disabled={isBusy}
+                >
+                    {NETWORK_PROFILES.map(p => (
+                        <option key={p.id} value={p.id}>{p.name}</option>
+                    ))}
+                    <option value={CUSTOM_NETWORK_ID}>Custom RPC</option>
+                </select>
              </div>
+             {networkId === CUSTOM_NETWORK_ID && (
+                <div className="flex gap-2">
+                    <input
+                        type="text"
+                        className="w-56 bg-white border-2 border-celo-black px-2 py-1 font-mono text-xs outline-none focus:shadow-brutal-sm"
+                        placeholder="http://127.0.0.1:8545"
+                        value={customRpcUrl}
+                        onChange={e => setCustomRpcUrl(e.target.value)}
+                        disabled={isBusy}
+                    />
+                    <input
+                        type="number"
+                        className="w-24 bg-white border-2 border-celo-black px-2 py-1 font-mono text-xs outline-none focus:shadow-brutal-sm"
+                        placeholder="Chain ID"
+                        value={customChainId}
+                        onChange={e => setCustomChainId(parseInt(e.target.value))}
+                        disabled={isBusy}
+                    />
+                </div>
+             )}
              <div className="text-right text-xs font-mono opacity-60 max-w-[200px]">
                 Ensure you are using a burner wallet for the Funder Key.
              </div>
@@ -334,10 +815,18 @@ const App: React.FC = () => {
                         <input 
                             type="text" 
                             className="w-full bg-celo-gray border-2 border-celo-black p-3 font-mono text-sm focus:bg-white focus:shadow-brutal-sm outline-none transition-all placeholder-gray-400"
-                            placeholder="0x..."
+                            placeholder={payloadMode === 'deploy' ? 'Not needed for deploys' : '0x... or {{listRandom:NAME}}'}
                             value={targetContract}
                             onChange={e => setTargetContract(e.target.value)}
                         />
+                        {templateLists[DEPLOYED_LIST_NAME]?.length > 0 && (
+                            <button
+                                onClick={() => setTargetContract(`{{listRandom:${DEPLOYED_LIST_NAME}}}`)}
+                                className="mt-2 bg-white border-2 border-celo-black px-2 py-0.5 text-[10px] font-mono font-bold uppercase hover:shadow-brutal-sm transition-all"
+                            >
+                                Target deployed ({templateLists[DEPLOYED_LIST_NAME].length})
+                            </button>
+                        )}
                     </div>
 
                     <div className="bg-celo-gray border-2 border-celo-black p-4">
@@ -362,9 +851,19 @@ const App: React.FC = () => {
                             >
                                 Import
                             </button>
+                            <button 
+                                onClick={() => setWalletMode('mnemonic')}
+                                className={`flex-1 py-2 text-xs font-bold uppercase border-2 border-celo-black transition-all ${
+                                    walletMode === 'mnemonic' 
+                                    ? 'bg-celo-black text-white shadow-brutal-sm' 
+                                    : 'bg-white hover:bg-gray-100'
+                                }`}
+                            >
+                                Mnemonic
+                            </button>
                         </div>
 
-                        {walletMode === 'generate' ? (
+                        {walletMode === 'generate' && (
                             <div className="space-y-3">
                                 <div className="grid grid-cols-2 gap-4">
                                     <div>
@@ -374,7 +873,7 @@ const App: React.FC = () => {
                                             className="w-full border-2 border-celo-black p-2 font-mono text-sm outline-none focus:bg-white"
                                             value={walletCount}
                                             onChange={e => setWalletCount(parseInt(e.target.value))}
-                                            min={1} max={50}
+                                            min={1} max={MAX_FLEET_SIZE}
                                         />
                                     </div>
                                     <div>
@@ -411,7 +910,9 @@ const App: React.FC = () => {
                                     </div>
                                 </div>
                             </div>
-                        ) : (
+                        )}
+
+                        {walletMode === 'import' && (
                             <div className="space-y-3">
                                 <textarea 
                                     className="w-full h-24 border-2 border-celo-black p-2 font-mono text-xs outline-none focus:bg-white resize-none"
@@ -452,6 +953,136 @@ const App: React.FC = () => {
                                 </div>
                             </div>
                         )}
+
+                        {walletMode === 'mnemonic' && (
+                            <div className="space-y-3">
+                                <div className="relative">
+                                    <textarea 
+                                        className="w-full h-20 border-2 border-celo-black p-2 pr-16 font-mono text-xs outline-none focus:bg-white resize-none"
+                                        placeholder="BIP-39 mnemonic (12 or 24 words)"
+                                        value={mnemonic}
+                                        onChange={e => setMnemonic(e.target.value)}
+                                    />
+                                    <button
+                                        onClick={() => setMnemonic(generateMnemonic())}
+                                        className="absolute right-2 top-2 bg-white border-2 border-celo-black px-2 py-0.5 text-[10px] font-bold uppercase hover:shadow-brutal-sm transition-all"
+                                        title="Generate a new mnemonic"
+                                    >
+                                        New
+                                    </button>
+                                </div>
+                                <div className="grid grid-cols-3 gap-2">
+                                    <div className="col-span-2">
+                                        <label className="block text-xs font-bold uppercase mb-1">Base Path</label>
+                                        <input 
+                                            type="text" 
+                                            className="w-full border-2 border-celo-black p-2 font-mono text-sm outline-none focus:bg-white"
+                                            value={hdBasePath}
+                                            onChange={e => setHdBasePath(e.target.value)}
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-bold uppercase mb-1">Start Index</label>
+                                        <input 
+                                            type="number" 
+                                            className="w-full border-2 border-celo-black p-2 font-mono text-sm outline-none focus:bg-white"
+                                            value={hdStartIndex}
+                                            onChange={e => setHdStartIndex(parseInt(e.target.value) || 0)}
+                                            min={0}
+                                        />
+                                    </div>
+                                </div>
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <label className="block text-xs font-bold uppercase mb-1">Wallets</label>
+                                        <input 
+                                            type="number" 
+                                            className="w-full border-2 border-celo-black p-2 font-mono text-sm outline-none focus:bg-white"
+                                            value={walletCount}
+                                            onChange={e => setWalletCount(parseInt(e.target.value))}
+                                            min={1} max={MAX_FLEET_SIZE}
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-bold uppercase mb-1">Tx / Wallet</label>
+                                        <input 
+                                            type="number" 
+                                            className="w-full border-2 border-celo-black p-2 font-mono text-sm outline-none focus:bg-white"
+                                            value={interactionsPerWallet}
+                                            onChange={e => setInteractionsPerWallet(parseInt(e.target.value))}
+                                        />
+                                    </div>
+                                </div>
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <label className="block text-xs font-bold uppercase mb-1">Funding (CELO)</label>
+                                        <input 
+                                            type="text" 
+                                            className="w-full border-2 border-celo-black p-2 font-mono text-sm outline-none focus:bg-white"
+                                            value={fundingAmount}
+                                            onChange={e => setFundingAmount(e.target.value)}
+                                            placeholder="0.01"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-bold uppercase mb-1">Gas Limit</label>
+                                        <input 
+                                            type="number" 
+                                            className="w-full border-2 border-celo-black p-2 font-mono text-sm outline-none focus:bg-white"
+                                            value={gasLimit}
+                                            onChange={e => setGasLimit(parseInt(e.target.value))}
+                                            step={10000}
+                                        />
+                                    </div>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="bg-celo-gray border-2 border-celo-black p-4">
+                        <LoadProfileEditor
+                            profile={loadProfile}
+                            maxDurationSec={maxDurationSec}
+                            concurrency={concurrency}
+                            disabled={isBusy}
+                            onChange={setLoadProfile}
+                            onMaxDurationChange={setMaxDurationSec}
+                            onConcurrencyChange={setConcurrency}
+                        />
+                    </div>
+
+                    <div className="bg-celo-gray border-2 border-celo-black p-4">
+                        <FeeStrategyEditor
+                            config={feeConfig}
+                            networkId={networkId}
+                            disabled={isBusy}
+                            onChange={setFeeConfig}
+                        />
+                    </div>
+
+                    <div className="bg-celo-gray border-2 border-celo-black p-4">
+                        {network.mock ? (
+                            <MockChainEditor
+                                config={mockConfig}
+                                disabled={isBusy}
+                                onChange={setMockConfig}
+                            />
+                        ) : (
+                            <RpcPoolEditor
+                                primaryUrl={network.rpcUrl}
+                                settings={rpcPool}
+                                disabled={isBusy}
+                                onChange={setRpcPool}
+                            />
+                        )}
+                    </div>
+
+                    <div className="bg-celo-gray border-2 border-celo-black p-4">
+                        <RetryPolicyEditor
+                            policies={retryPolicies}
+                            disabled={isBusy}
+                            onChange={setRetryPolicies}
+                        />
                     </div>
 
                     <div>
@@ -475,6 +1106,58 @@ const App: React.FC = () => {
                             onChange={e => setFunderKey(e.target.value)}
                         />
                     </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-xs font-bold uppercase mb-1">Funding Mode</label>
+                            <select
+                                className="w-full border-2 border-celo-black p-2 font-mono text-sm outline-none focus:bg-white"
+                                value={fundingMode}
+                                onChange={e => setFundingMode(e.target.value as FundingMode)}
+                                disabled={isBusy}
+                            >
+                                <option value="sequential">Sequential</option>
+                                <option value="pipelined">Pipelined</option>
+                                <option value="disperse">Disperse</option>
+                            </select>
+                        </div>
+                        <div className={fundingMode === 'disperse' ? 'col-span-2 order-last' : ''}>
+                            <label className="block text-xs font-bold uppercase mb-1">Sweep To</label>
+                            <input
+                                type="text"
+                                className="w-full border-2 border-celo-black p-2 font-mono text-sm outline-none focus:bg-white"
+                                placeholder="Default: funder"
+                                value={sweepRecipient}
+                                onChange={e => setSweepRecipient(e.target.value)}
+                                disabled={isBusy}
+                            />
+                        </div>
+                        {fundingMode === 'disperse' && (
+                            <div>
+                                <label className="block text-xs font-bold uppercase mb-1">Disperse Contract</label>
+                                <input
+                                    type="text"
+                                    className="w-full border-2 border-celo-black p-2 font-mono text-sm outline-none focus:bg-white"
+                                    placeholder="Empty = deploy"
+                                    value={disperseAddress}
+                                    onChange={e => setDisperseAddress(e.target.value)}
+                                    disabled={isBusy}
+                                />
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="bg-celo-gray border-2 border-celo-black p-4">
+                        <TokenPanel
+                            networkId={network.id}
+                            token={token}
+                            disabled={isBusy}
+                            onSelect={handleSelectToken}
+                            onDistribute={handleDistributeToken}
+                            onApprove={handleApproveToken}
+                            onAddStorm={handleAddTokenStorm}
+                        />
+                    </div>
                 </div>
             </div>
 
@@ -488,45 +1171,89 @@ const App: React.FC = () => {
                     <h2 className="font-serif italic text-2xl">Payload Architect</h2>
                 </div>
 
-                <div className="space-y-4">
-                    <div className="grid grid-cols-2 gap-3">
-                        {['Transfer', 'Approve', 'Vote', 'Mint'].map((action) => (
+                <div className="flex gap-2 mb-4">
+                    {(['abi', 'deploy', 'ai'] as const).map(mode => (
+                        <button 
+                            key={mode}
+                            onClick={() => setPayloadMode(mode)}
+                            className={`flex-1 py-2 text-xs font-bold uppercase border-2 border-celo-black transition-all ${
+                                payloadMode === mode 
+                                ? 'bg-celo-black text-white shadow-brutal-sm' 
+                                : 'bg-white hover:bg-gray-100'
+                            }`}
+                        >
+                            {mode === 'abi' ? 'ABI Builder' : mode === 'deploy' ? 'Deploy' : 'Gemini'}
+                        </button>
+                    ))}
+                </div>
+
+                {payloadMode === 'abi' ? (
+                    <PayloadBuilder
+                        abiText={abiText}
+                        calldata={customData}
+                        template={abiTemplate}
+                        lists={templateLists}
+                        onAbiTextChange={setAbiText}
+                        onCalldataChange={setCustomData}
+                        onTemplateChange={setAbiTemplate}
+                        onListsChange={setTemplateLists}
+                        log={addLog}
+                    />
+                ) : payloadMode === 'deploy' ? (
+                    <DeployBuilder
+                        template={deployTemplate}
+                        lists={templateLists}
+                        onTemplateChange={setDeployTemplate}
+                        log={addLog}
+                    />
+                ) : (
+                    <div className="space-y-4">
+                        <div className="grid grid-cols-2 gap-3">
+                            {['Transfer', 'Approve', 'Vote', 'Mint'].map((action) => (
+                                <button 
+                                    key={action}
+                                    onClick={() => handleAiGeneration(`${action} action`)}
+                                    disabled={isGeneratingAi}
+                                    className="bg-white border-2 border-celo-black py-2 px-3 font-bold hover:translate-x-[2px] hover:translate-y-[2px] hover:shadow-none shadow-brutal-sm transition-all disabled:opacity-50 text-sm flex items-center justify-center gap-2"
+                                >
+                                    {action}
+                                </button>
+                            ))}
+                        </div>
+
+                        <div className="relative">
+                            <input 
+                                type="text"
+                                className="w-full border-2 border-celo-black p-3 pr-10 font-mono text-xs focus:shadow-brutal-sm outline-none"
+                                placeholder="Or describe custom intent..."
+                                value={aiPrompt}
+                                onChange={e => setAiPrompt(e.target.value)}
+                                onKeyDown={e => e.key === 'Enter' && handleAiGeneration()}
+                            />
                             <button 
-                                key={action}
-                                onClick={() => handleAiGeneration(`${action} action`)}
-                                disabled={isGeneratingAi}
-                                className="bg-white border-2 border-celo-black py-2 px-3 font-bold hover:translate-x-[2px] hover:translate-y-[2px] hover:shadow-none shadow-brutal-sm transition-all disabled:opacity-50 text-sm flex items-center justify-center gap-2"
-                            >
-                                {action}
+                                 onClick={() => handleAiGeneration()}
+                                 disabled={isGeneratingAi}
+                                 className="absolute right-2 top-2 p-1 hover:bg-gray-100 rounded"
+                             >
+                                {isGeneratingAi ? <div className="w-4 h-4 border-2 border-black border-t-transparent animate-spin rounded-full" /> : <ArrowRight className="w-4 h-4" />}
                             </button>
-                        ))}
-                    </div>
+                        </div>
 
-                    <div className="relative">
-                        <input 
-                            type="text"
-                            className="w-full border-2 border-celo-black p-3 pr-10 font-mono text-xs focus:shadow-brutal-sm outline-none"
-                            placeholder="Or describe custom intent..."
-                            value={aiPrompt}
-                            onChange={e => setAiPrompt(e.target.value)}
-                            onKeyDown={e => e.key === 'Enter' && handleAiGeneration()}
-                        />
-                        <button 
-                             onClick={() => handleAiGeneration()}
-                             disabled={isGeneratingAi}
-                             className="absolute right-2 top-2 p-1 hover:bg-gray-100 rounded"
-                         >
-                            {isGeneratingAi ? <div className="w-4 h-4 border-2 border-black border-t-transparent animate-spin rounded-full" /> : <ArrowRight className="w-4 h-4" />}
-                        </button>
+                        {customData && (
+                            <div className="bg-white border-2 border-celo-black p-3 font-mono text-[10px] break-all">
+                                <span className="bg-celo-black text-white px-1 mr-2">HEX</span>
+                                {customData.slice(0, 40)}...
+                            </div>
+                        )}
                     </div>
+                )}
 
-                    {customData && (
-                        <div className="bg-white border-2 border-celo-black p-3 font-mono text-[10px] break-all">
-                            <span className="bg-celo-black text-white px-1 mr-2">HEX</span>
-                            {customData.slice(0, 40)}...
-                        </div>
-                    )}
-                </div>
+                <WorkloadMix
+                    actions={workloadActions}
+                    disabled={isSwarming}
+                    onChange={setWorkloadActions}
+                    onAddCurrent={handleAddAction}
+                />
             </div>
 
             {/* CONTROL PANEL */}
@@ -543,7 +1270,7 @@ const App: React.FC = () => {
                         <Zap className="w-5 h-5" />
                     </div>
                     <span className="text-xs font-sans not-italic font-bold uppercase opacity-80">
-                        {isFunding ? 'Funding...' : 'Deploy & Fund'}
+                        {isFunding ? (runState === 'paused' ? 'Paused' : 'Funding...') : 'Deploy & Fund'}
                     </span>
                 </button>
 
@@ -559,10 +1286,111 @@ const App: React.FC = () => {
                         <Rocket className="w-5 h-5" />
                     </div>
                     <span className="text-xs font-sans not-italic font-bold uppercase opacity-80">
-                        {isSwarming ? 'Attacking...' : 'Execute Txs'}
+                        {isSwarming ? (runState === 'paused' ? 'Paused' : 'Attacking...') : 'Execute Txs'}
                     </span>
                 </button>
             </div>
+            {runControl && (
+                <div className="grid grid-cols-2 gap-4 -mt-4">
+                    <button
+                        onClick={() => runState === 'paused' ? runControl.resume() : runControl.pause()}
+                        disabled={runState === 'aborted'}
+                        className="py-3 font-bold uppercase text-sm border-2 border-celo-black shadow-brutal-sm bg-white flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {runState === 'paused' ? <><Play className="w-4 h-4" /> Resume</> : <><Pause className="w-4 h-4" /> Pause</>}
+                    </button>
+                    <button
+                        onClick={handleAbort}
+                        disabled={runState === 'aborted'}
+                        className="py-3 font-bold uppercase text-sm border-2 border-celo-black shadow-brutal-sm bg-red-500 text-white flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        <Square className="w-4 h-4" /> {runState === 'aborted' ? 'Aborting...' : 'Abort'}
+                    </button>
+                </div>
+            )}
+            <label className="flex items-center gap-2 font-mono text-xs -mt-4">
+                <input
+                    type="checkbox"
+                    className="accent-celo-black"
+                    checked={ignorePreflight}
+                    onChange={e => setIgnorePreflight(e.target.checked)}
+                />
+                Start even if pre-flight checks fail
+            </label>
+            <div className="flex items-center gap-2 font-mono text-xs -mt-4 flex-wrap">
+                <span className="font-bold uppercase">Auto-abort:</span>
+                spend over
+                <input
+                    type="text"
+                    inputMode="decimal"
+                    className="w-20 border-2 border-celo-black px-1 outline-none focus:bg-white disabled:opacity-50"
+                    placeholder="none"
+                    value={spendBudget}
+                    disabled={isBusy}
+                    onChange={e => setSpendBudget(e.target.value)}
+                />
+                CELO or failures over
+                <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    className="w-14 border-2 border-celo-black px-1 outline-none focus:bg-white disabled:opacity-50"
+                    value={abortFailurePct}
+                    disabled={isBusy}
+                    onChange={e => setAbortFailurePct(Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)))}
+                />
+                % (0 = off)
+            </div>
+            <div className="flex items-center gap-2 font-mono text-xs -mt-4">
+                <span className="font-bold uppercase">Run label:</span>
+                <input
+                    type="text"
+                    className="flex-1 border-2 border-celo-black px-1 outline-none focus:bg-white disabled:opacity-50"
+                    placeholder="e.g. token v2, optimized transfer"
+                    value={runLabel}
+                    disabled={isBusy}
+                    onChange={e => setRunLabel(e.target.value)}
+                />
+            </div>
+            <div className="flex items-center gap-2 font-mono text-xs -mt-4">
+                <label className="flex items-center gap-2 font-bold uppercase whitespace-nowrap">
+                    <input
+                        type="checkbox"
+                        className="accent-celo-black"
+                        checked={watchBlocks}
+                        disabled={isBusy}
+                        onChange={e => setWatchBlocks(e.target.checked)}
+                    />
+                    Watch blocks:
+                </label>
+                <input
+                    type="text"
+                    className="flex-1 border-2 border-celo-black px-1 outline-none focus:bg-white disabled:opacity-50"
+                    placeholder={network.wsUrl || 'wss://...'}
+                    value={wsUrlOverride}
+                    disabled={isBusy || !watchBlocks}
+                    onChange={e => setWsUrlOverride(e.target.value)}
+                />
+            </div>
+
+            {/* PIPELINE */}
+            <div className="bg-white border-2 border-celo-black shadow-brutal p-4 space-y-4">
+                <PipelineEditor
+                    phases={pipeline}
+                    disabled={isBusy}
+                    onChange={setPipeline}
+                />
+                <button
+                    onClick={handleRunPipeline}
+                    disabled={isBusy}
+                    className={`w-full py-3 text-lg font-serif italic border-2 border-celo-black shadow-brutal-sm hover:translate-x-[2px] hover:translate-y-[2px] hover:shadow-none transition-all flex items-center justify-center gap-2 ${
+                        isBusy ? 'bg-gray-200 cursor-not-allowed text-gray-400' : 'bg-celo-purple text-celo-black'
+                    }`}
+                >
+                    {isPipelining ? (runState === 'paused' ? 'Paused' : 'Running Pipeline...') : 'Run Pipeline'}
+                    <Workflow className="w-5 h-5" />
+                </button>
+            </div>
 
         </div>
 
@@ -576,9 +1404,9 @@ const App: React.FC = () => {
                     <span className="text-5xl font-serif font-medium">{stats.totalTx}</span>
                 </div>
                 <div className="bg-celo-orange border-2 border-celo-black shadow-brutal p-4 flex flex-col justify-between h-32">
-                    <span className="font-bold text-xs uppercase tracking-wider border-b-2 border-black pb-1 w-fit">Success Rate</span>
+                    <span className="font-bold text-xs uppercase tracking-wider border-b-2 border-black pb-1 w-fit">Mined OK</span>
                     <span className="text-5xl font-serif font-medium">
-                         {stats.totalTx > 0 ? ((stats.successfulTx / stats.totalTx) * 100).toFixed(0) : 0}%
+                         {stats.totalTx > 0 ? ((stats.minedTx / stats.totalTx) * 100).toFixed(0) : 0}%
                     </span>
                 </div>
                 <div className="bg-white border-2 border-celo-black shadow-brutal p-4 flex flex-col justify-between h-32">
@@ -590,10 +1418,38 @@ const App: React.FC = () => {
                 </div>
             </div>
 
+            {/* TX OUTCOMES */}
+            <div className="grid grid-cols-3 md:grid-cols-6 gap-2 font-mono text-xs">
+                {[
+                    { label: 'Pending', value: stats.submittedTx - stats.minedTx - stats.revertedTx - stats.replacedTx - stats.droppedTx, color: 'bg-celo-blue' },
+                    { label: 'Mined', value: stats.minedTx, color: 'bg-celo-green' },
+                    { label: 'Reverted', value: stats.revertedTx, color: 'bg-red-400' },
+                    { label: 'Replaced', value: stats.replacedTx, color: 'bg-celo-orange' },
+                    { label: 'Dropped', value: stats.droppedTx, color: 'bg-celo-purple' },
+                    { label: 'Rejected', value: stats.failedTx, color: 'bg-gray-300' }
+                ].map(bucket => (
+                    <div key={bucket.label} className="bg-white border-2 border-celo-black shadow-brutal-sm px-2 py-1 flex justify-between items-center">
+                        <span className="flex items-center gap-1 font-bold uppercase">
+                            <span className={`w-2 h-2 border border-black ${bucket.color}`}></span>
+                            {bucket.label}
+                        </span>
+                        <span>{bucket.value}</span>
+                    </div>
+                ))}
+            </div>
+
+            {phaseStates.length > 0 && (
+                <PhaseTimeline
+                    phases={phaseStates}
+                    canRerun={!isBusy && lastPipeline !== null}
+                    onRerun={() => lastPipeline && executePipeline(lastPipeline)}
+                />
+            )}
+
             {/* LOG CONSOLE */}
             <div className="flex-1 min-h-[300px] border-2 border-celo-black bg-white shadow-brutal flex flex-col relative">
                 <div className="bg-celo-black text-white px-4 py-2 font-mono text-sm font-bold flex justify-between items-center">
-                    <span>> OPERATION_LOGS</span>
+                    <span>{'>'} OPERATION_LOGS</span>
                     <div className="flex gap-2">
                         <div className="w-3 h-3 rounded-full bg-red-500 border border-white"></div>
                         <div className="w-3 h-3 rounded-full bg-yellow-500 border border-white"></div>
@@ -601,71 +1457,105 @@ const App: React.FC = () => {
                     </div>
                 </div>
                 <div className="flex-1 overflow-hidden p-2">
-                    <LogConsole logs={logs} />
+                    <LogConsole logs={logs} explorerUrl={network.explorerUrl} />
                 </div>
             </div>
 
-            {/* WALLET GRID */}
-            <div className="border-2 border-celo-black bg-celo-blue/20 p-6 shadow-brutal relative">
-                <div className="flex justify-between items-center mb-4">
-                    <div className="flex items-center gap-3">
-                        <h3 className="font-serif italic text-2xl">Wallet Fleet</h3>
-                        {wallets.length > 0 && (
-                            <button 
-                                onClick={resetFleet}
-                                className="bg-white/50 p-1 hover:bg-red-100 hover:text-red-500 rounded border border-transparent hover:border-red-500 transition-all"
-                                title="Reset Fleet"
-                                disabled={isBusy}
-                            >
-                                <Trash2 className="w-4 h-4" />
-                            </button>
-                        )}
-                    </div>
-                    <div className="flex gap-2">
-                        {wallets.length > 0 && (
-                            <button 
-                                onClick={() => updateFleetBalances(wallets)}
-                                className="bg-white border-2 border-celo-black px-3 py-1 text-xs font-bold hover:shadow-brutal-sm transition-all flex items-center gap-2"
-                                disabled={isBusy}
-                            >
-                                <RefreshCw className={`w-3 h-3 ${isBusy ? 'animate-spin' : ''}`} /> Refresh
-                            </button>
-                        )}
-                        {wallets.length > 0 && (
-                            <button 
-                                onClick={handleDownloadWallets}
-                                className="bg-white border-2 border-celo-black px-3 py-1 text-xs font-bold hover:shadow-brutal-sm transition-all flex items-center gap-2"
-                            >
-                                <Download className="w-3 h-3" /> CSV
-                            </button>
-                        )}
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
+                {/* WALLET GRID */}
+                <div className="border-2 border-celo-black bg-celo-blue/20 p-6 shadow-brutal relative">
+                    <div className="flex justify-between items-center mb-4">
+                        <div className="flex items-center gap-3">
+                            <h3 className="font-serif italic text-2xl">Wallet Fleet</h3>
+                            {wallets.length > 0 && (
+                                <button 
+                                    onClick={resetFleet}
+                                    className="bg-white/50 p-1 hover:bg-red-100 hover:text-red-500 rounded border border-transparent hover:border-red-500 transition-all"
+                                    title="Reset Fleet"
+                                    disabled={isBusy}
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            )}
+                        </div>
+                        <div className="flex gap-2">
+                            {wallets.length > 0 && (
+                                <button 
+                                    onClick={() => updateFleetBalances(wallets)}
+                                    className="bg-white border-2 border-celo-black px-3 py-1 text-xs font-bold hover:shadow-brutal-sm transition-all flex items-center gap-2"
+                                    disabled={isBusy}
+                                >
+                                    <RefreshCw className={`w-3 h-3 ${isBusy ? 'animate-spin' : ''}`} /> Refresh
+                                </button>
+                            )}
+                            {wallets.length > 0 && (
+                                <button 
+                                    onClick={handleSweepFleet}
+                                    className="bg-white border-2 border-celo-black px-3 py-1 text-xs font-bold hover:shadow-brutal-sm transition-all flex items-center gap-2"
+                                    disabled={isBusy}
+                                    title="Return leftover CELO to the sweep recipient (default: funder)"
+                                >
+                                    <Undo2 className={`w-3 h-3 ${isSweeping ? 'animate-pulse' : ''}`} /> Sweep
+                                </button>
+                            )}
+                            {wallets.length > 0 && (
+                                <button 
+                                    onClick={handleDownloadWallets}
+                                    className="bg-white border-2 border-celo-black px-3 py-1 text-xs font-bold hover:shadow-brutal-sm transition-all flex items-center gap-2"
+                                >
+                                    <Download className="w-3 h-3" /> CSV
+                                </button>
+                            )}
+                        </div>
                     </div>
-                </div>
                 
-                <div className="grid grid-cols-3 md:grid-cols-5 lg:grid-cols-6 gap-3 max-h-[250px] overflow-y-auto pr-2 custom-scrollbar">
-                    {wallets.map((wallet, idx) => (
-                        <div key={idx} className="bg-white border-2 border-celo-black p-2 relative group hover:-translate-y-1 transition-transform">
-                            <div className={`absolute top-0 right-0 w-3 h-3 border-l-2 border-b-2 border-celo-black ${
-                                wallet.status === 'done' ? 'bg-celo-green' :
-                                wallet.status === 'error' ? 'bg-red-500' :
-                                wallet.status === 'sending' ? 'bg-celo-orange animate-pulse' : 
-                                wallet.status === 'funding' ? 'bg-celo-purple animate-pulse' : 'bg-gray-300'
-                            }`} />
-                            <div className="font-bold text-xs mb-1">W{idx + 1}</div>
-                            <div className="text-[10px] font-mono text-gray-500 truncate">{wallet.address}</div>
-                             <div className="text-[10px] font-mono text-celo-black font-bold truncate mt-1">
-                                {wallet.balance ? parseFloat(wallet.balance).toFixed(3) : '0'} CELO
-                            </div>
-                            <div className="mt-1 text-[10px] font-bold text-right text-gray-400">{wallet.txCount} tx</div>
-                        </div>
-                    ))}
-                    {wallets.length === 0 && (
-                        <div className="col-span-full py-12 text-center text-gray-500 font-mono text-sm border-2 border-dashed border-gray-400 bg-white/50 flex flex-col items-center justify-center gap-2">
+                    <FleetVault
+                        wallets={wallets}
+                        networkId={network.id}
+                        disabled={isBusy}
+                        onRestore={setWallets}
+                        log={addLog}
+                    />
+
+                    {wallets.length > 0 ? (
+                        <WalletFleetList wallets={wallets} token={token} />
+                    ) : (
+                        <div className="py-12 text-center text-gray-500 font-mono text-sm border-2 border-dashed border-gray-400 bg-white/50 flex flex-col items-center justify-center gap-2">
                             <span>Fleet not initialized</span>
                             <span className="text-xs opacity-60">Click "Fund Fleet" to generate</span>
                         </div>
                     )}
                 </div>
+
+                {/* METRICS */}
+                <div className="border-2 border-celo-black bg-celo-green/20 p-6 shadow-brutal relative">
+                    <div className="flex justify-between items-center mb-4">
+                        <h3 className="font-serif italic text-2xl">Throughput &amp; Latency</h3>
+                        {metrics && (
+                            <span className="font-mono text-xs font-bold">{(metrics.elapsedMs / 1000).toFixed(0)}s</span>
+                        )}
+                    </div>
+                    <MetricsPanel metrics={metrics} />
+                </div>
+
+                {/* BLOCK SPACE */}
+                {metrics?.blockSpace && (
+                    <div className="xl:col-span-2 border-2 border-celo-black bg-white p-6 shadow-brutal">
+                        <div className="flex justify-between items-center mb-4">
+                            <h3 className="font-serif italic text-2xl">Block Space</h3>
+                            <span className={`font-mono text-xs font-bold ${metrics.blockSpace.connected ? 'text-green-700' : 'text-gray-500'}`}>
+                                {metrics.blockSpace.connected ? 'LIVE' : 'CLOSED'}
+                            </span>
+                        </div>
+                        <BlockSpacePanel blockSpace={metrics.blockSpace} />
+                    </div>
+                )}
+
+                {/* RUN HISTORY */}
+                <div className="xl:col-span-2 border-2 border-celo-black bg-white p-6 shadow-brutal">
+                    <h3 className="font-serif italic text-2xl mb-4">Run History</h3>
+                    <RunHistory refreshKey={historyKey} log={addLog} />
+                </div>
             </div>
 
         </div>
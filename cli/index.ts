@@ -0,0 +1,281 @@
+import { writeFile } from 'fs/promises';
+import { LogEntry, LogType } from '../types';
+import { prepareMockFunder, verifyNetwork } from '../services/celoService';
+import { EngineHooks, SwarmOptions, SwarmResult, createLogEntry, failureRate, runApprovals, runFunding, runSweep, runSwarm, runTokenFunding } from '../services/swarmEngine';
+import { runPreflight } from '../services/preflight';
+import { runPipeline } from '../services/pipeline';
+import { RunControl, createRunControl } from '../services/runControl';
+import { buildRunReport, reportToHtml, reportToJson } from '../services/runReport';
+import { ERROR_CLASS_LABELS } from '../services/errorClassifier';
+import { DEPLOYED_LIST_NAME } from '../constants';
+import { ResolvedScenario, ScenarioError, loadScenario } from './scenario';
+
+// Headless swarm runner. Streams LogEntry-shaped JSON lines to stdout.
+// Receipt updates re-emit the entry with the same id and its final txStatus.
+//
+//   npm run cli -- <scenario.json|scenario.yaml> [--max-failure-rate 0.05] [--ignore-preflight] [--report run.html]
+//
+// --report writes the run report (same as the app's run history) as HTML, or JSON for any other extension.
+// A scenario `followUp` runs after the main swarm, and both count towards the failure rate.
+// A scenario `pipeline` runs its phases instead; exit code 1 then means a phase missed its criteria.
+//
+// Exit codes: 0 success, 1 failure rate above threshold, 2 configuration or runtime error,
+// 3 pre-flight checks failed (nothing sent), 4 aborted (Ctrl-C or an `abortOn` trigger).
+// The first Ctrl-C stops new sends and reports what was broadcast; a second one exits at once.
+
+const USAGE = 'Usage: npm run cli -- <scenario.json|scenario.yaml> [--max-failure-rate <0..1>] [--ignore-preflight] [--report <file.json|file.html>]';
+
+const emit = (message: string, type: LogType, txHash?: string) => {
+  process.stdout.write(JSON.stringify(createLogEntry(message, type, txHash)) + '\n');
+};
+
+// Latest state of every emitted entry, so in-place updates can be re-emitted whole
+const entries = new Map<string, LogEntry>();
+
+const hooks: EngineHooks = {
+  log: (entry) => {
+    entries.set(entry.id, entry);
+    process.stdout.write(JSON.stringify(entry) + '\n');
+  },
+  updateLog: (id, patch) => {
+    const entry = { ...entries.get(id)!, ...patch };
+    entries.set(id, entry);
+    process.stdout.write(JSON.stringify(entry) + '\n');
+  },
+  updateWallet: () => {},
+  updateStats: () => {},
+  updateMetrics: () => {}
+};
+
+const parseArgs = (argv: string[]) => {
+  let file: string | undefined;
+  let maxFailureRate: number | undefined;
+  let ignorePreflight = false;
+  let reportFile: string | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--ignore-preflight') {
+      ignorePreflight = true;
+    } else if (argv[i] === '--report') {
+      reportFile = argv[++i];
+      if (!reportFile) throw new ScenarioError('--report expects a file path.');
+    } else if (argv[i] === '--max-failure-rate') {
+      maxFailureRate = parseFloat(argv[++i]);
+      if (isNaN(maxFailureRate)) throw new ScenarioError('--max-failure-rate expects a number.');
+    } else if (!file) {
+      file = argv[i];
+    } else {
+      throw new ScenarioError(`Unexpected argument: ${argv[i]}`);
+    }
+  }
+  if (!file) throw new ScenarioError(USAGE);
+  return { file, maxFailureRate, ignorePreflight, reportFile };
+};
+
+const writeReport = async (file: string, options: SwarmOptions, result: SwarmResult, label?: string) => {
+  const report = buildRunReport(options, result, label);
+  await writeFile(file, file.endsWith('.html') ? reportToHtml(report) : reportToJson(report));
+  emit(`Run report written to ${file}`, LogType.INFO);
+};
+
+const runScenarioPipeline = async (scenario: ResolvedScenario, args: ReturnType<typeof parseArgs>, control: RunControl): Promise<number> => {
+  const phases = scenario.pipeline!.map(phase =>
+    phase.kind === 'load' && args.maxFailureRate !== undefined ? { ...phase, minSuccessRate: 1 - args.maxFailureRate } : phase);
+  const swarm = {
+    actions: scenario.actions,
+    interactionsPerWallet: scenario.txPerWallet,
+    templateLists: scenario.templateLists,
+    fees: scenario.fees,
+    txDelayMs: scenario.txDelayMs,
+    receiptTimeoutMs: scenario.receiptTimeoutMs,
+    stuckTxAfterMs: scenario.stuckTxAfterMs,
+    retryPolicies: scenario.retryPolicies,
+    loadProfile: scenario.loadProfile,
+    maxDurationSec: scenario.maxDurationSec,
+    concurrency: scenario.concurrency,
+    abortOn: scenario.abortOn,
+    wsUrl: scenario.wsUrl
+  };
+  const result = await runPipeline({
+    network: scenario.network,
+    phases,
+    wallets: scenario.wallets,
+    createFleet: async () => scenario.wallets, // Loaded or generated with the scenario
+    funderPrivateKey: scenario.funderKey,
+    fundingAmount: scenario.fundingAmount,
+    fundingMode: scenario.fundingMode,
+    disperseAddress: scenario.disperseAddress,
+    fundingBatchSize: scenario.fundingBatchSize,
+    token: scenario.token,
+    swarm,
+    preflight: scenario.preflight,
+    ignorePreflight: args.ignorePreflight || scenario.ignorePreflight,
+    sweepTo: scenario.sweepTo,
+    control
+  }, { ...hooks, updatePhase: () => {} });
+
+  if (args.reportFile && result.swarms.load) {
+    await writeReport(args.reportFile, { ...swarm, network: scenario.network, wallets: result.wallets, token: scenario.token }, result.swarms.load, scenario.label);
+  }
+
+  if (result.abortReason) return 4;
+  if (result.preflightFailed) return 3;
+  return result.passed ? 0 : 1;
+};
+
+const main = async (): Promise<number> => {
+  const args = parseArgs(process.argv.slice(2));
+  const scenario = await loadScenario(args.file);
+  const maxFailureRate = args.maxFailureRate ?? scenario.maxFailureRate;
+
+  const control = createRunControl();
+  const interrupt = () => {
+    if (control.state() === 'aborted') process.exit(130);
+    emit('Interrupted. Stopping new sends; press Ctrl-C again to exit immediately.', LogType.WARNING);
+    control.abort('interrupted');
+  };
+  process.on('SIGINT', interrupt);
+  process.on('SIGTERM', interrupt);
+
+  const { blockNumber } = await verifyNetwork(scenario.network);
+  emit(`Connected to ${scenario.network.name} (chain ${scenario.network.chainId}) at block ${blockNumber}.`, LogType.SUCCESS);
+  if (scenario.funderKey) prepareMockFunder(scenario.network, scenario.funderKey);
+  if (scenario.pipeline) return runScenarioPipeline(scenario, args, control);
+
+  let disperseAddress = scenario.disperseAddress;
+  if (scenario.fundingAmount && scenario.funderKey) {
+    const funding = await runFunding({
+      network: scenario.network,
+      funderPrivateKey: scenario.funderKey,
+      wallets: scenario.wallets,
+      amountPerWallet: scenario.fundingAmount,
+      mode: scenario.fundingMode,
+      disperseAddress: scenario.disperseAddress,
+      batchSize: scenario.fundingBatchSize,
+      control
+    }, hooks);
+    disperseAddress = funding.disperseAddress;
+    if (control.state() === 'aborted') return 4;
+  }
+
+  if (scenario.token && scenario.tokenFundingAmount && scenario.funderKey) {
+    await runTokenFunding({
+      network: scenario.network,
+      funderPrivateKey: scenario.funderKey,
+      wallets: scenario.wallets,
+      token: scenario.token,
+      amountPerWallet: scenario.tokenFundingAmount,
+      mode: scenario.fundingMode,
+      disperseAddress,
+      batchSize: scenario.fundingBatchSize,
+      control
+    }, hooks);
+    if (control.state() === 'aborted') return 4;
+  }
+
+  if (scenario.token && scenario.tokenApproval) {
+    await runApprovals({
+      network: scenario.network, wallets: scenario.wallets, token: scenario.token, ...scenario.tokenApproval, retryPolicies: scenario.retryPolicies
+    }, hooks);
+    if (control.state() === 'aborted') return 4;
+  }
+
+  if (scenario.preflight) {
+    const preflight = await runPreflight({
+      network: scenario.network,
+      wallets: scenario.wallets,
+      actions: scenario.actions,
+      interactionsPerWallet: scenario.txPerWallet,
+      templateLists: scenario.templateLists,
+      fees: scenario.fees
+    }, hooks);
+    if (!preflight.passed) {
+      if (!(args.ignorePreflight || scenario.ignorePreflight)) {
+        emit('Swarm not started. Fix the pre-flight failures or pass --ignore-preflight.', LogType.ERROR);
+        return 3;
+      }
+      emit('Pre-flight override enabled. Starting anyway.', LogType.WARNING);
+    }
+  }
+
+  if (control.state() === 'aborted') return 4;
+
+  const swarmOptions: SwarmOptions = {
+    network: scenario.network,
+    wallets: scenario.wallets,
+    actions: scenario.actions,
+    interactionsPerWallet: scenario.txPerWallet,
+    templateLists: scenario.templateLists,
+    fees: scenario.fees,
+    txDelayMs: scenario.txDelayMs,
+    receiptTimeoutMs: scenario.receiptTimeoutMs,
+    stuckTxAfterMs: scenario.stuckTxAfterMs,
+    retryPolicies: scenario.retryPolicies,
+    loadProfile: scenario.loadProfile,
+    maxDurationSec: scenario.maxDurationSec,
+    concurrency: scenario.concurrency,
+    control,
+    abortOn: scenario.abortOn,
+    wsUrl: scenario.wsUrl,
+    token: scenario.token
+  };
+  const result = await runSwarm(swarmOptions, hooks);
+  const runs = [result];
+
+  // Second swarm against the contracts the first one deployed, via {{list:deployed}} / {{listRandom:deployed}}
+  if (scenario.followUp && !result.abortReason) {
+    if (result.deployedAddresses.length === 0) {
+      emit('Follow-up skipped: the swarm deployed no contracts.', LogType.WARNING);
+    } else {
+      emit(`Follow-up: ${scenario.followUp.txPerWallet} tx/wallet against ${result.deployedAddresses.length} deployed contract(s).`, LogType.INFO);
+      runs.push(await runSwarm({
+        ...swarmOptions,
+        actions: scenario.followUp.actions,
+        interactionsPerWallet: scenario.followUp.txPerWallet,
+        templateLists: { ...scenario.templateLists, [DEPLOYED_LIST_NAME]: result.deployedAddresses }
+      }, hooks));
+    }
+  }
+
+  const abortReason = runs.find(run => run.abortReason)?.abortReason;
+  const stats = runs.map(run => run.stats).reduce((a, b) => ({
+    totalTx: a.totalTx + b.totalTx,
+    submittedTx: a.submittedTx + b.submittedTx,
+    failedTx: a.failedTx + b.failedTx,
+    minedTx: a.minedTx + b.minedTx,
+    revertedTx: a.revertedTx + b.revertedTx,
+    replacedTx: a.replacedTx + b.replacedTx,
+    droppedTx: a.droppedTx + b.droppedTx
+  }));
+
+  if (args.reportFile) await writeReport(args.reportFile, swarmOptions, result, scenario.label);
+
+  if (scenario.sweepTo) {
+    await runSweep({ network: scenario.network, wallets: scenario.wallets, recipient: scenario.sweepTo, retryPolicies: scenario.retryPolicies }, hooks);
+  }
+
+  for (const e of runs.flatMap(run => run.metrics.errors)) {
+    emit(`${ERROR_CLASS_LABELS[e.errorClass]}: ${e.failed} failed, ${e.retried} retried`, e.failed > 0 ? LogType.WARNING : LogType.INFO);
+  }
+
+  if (abortReason) {
+    emit(`Run aborted: ${abortReason}. ${stats.minedTx}/${stats.submittedTx} broadcast txs mined.`, LogType.ERROR);
+    return 4;
+  }
+
+  const rate = stats.totalTx > 0 ? failureRate(stats) : 1;
+  const summary = `Run finished: ${stats.minedTx}/${stats.totalTx} mined, failure rate ${(rate * 100).toFixed(1)}% (threshold ${(maxFailureRate * 100).toFixed(1)}%)`;
+  if (rate > maxFailureRate) {
+    emit(summary, LogType.ERROR);
+    return 1;
+  }
+  emit(summary, LogType.SUCCESS);
+  return 0;
+};
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    const message = error instanceof ScenarioError ? error.message : `Fatal: ${(error as Error).message}`;
+    emit(message, LogType.ERROR);
+    process.exit(2);
+  });
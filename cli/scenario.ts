@@ -0,0 +1,515 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { Wallet, isAddress } from 'ethers';
+import { parse as parseYaml } from 'yaml';
+import { DEFAULT_HD_BASE_PATH, DEFAULT_PIPELINE, DEFAULT_RETRY_POLICIES, FEE_CURRENCIES, NETWORK_PROFILES, TOKEN_TRANSFER_GAS_LIMIT } from '../constants';
+import { AbortTriggers, ErrorClass, FeeConfig, FeeStrategy, FundingMode, LoadProfile, MockChainConfig, MockErrorRates, NetworkProfile, PayloadTemplate, PipelinePhase, PipelinePhaseKind, RetryPolicies, RetryPolicy, RpcBalancing, RpcEndpoint, TokenInfo, WalletAccount, WorkloadAction } from '../types';
+import { parseAbi, parseArtifact } from '../services/abiService';
+import { hasPlaceholders, parseTemplateList } from '../services/payloadTemplate';
+import { ERROR_CLASSES } from '../services/errorClassifier';
+import { createWallets, createWalletsFromKeys, createWalletsFromMnemonic, getTokenInfo, isValidMnemonic, isValidPrivateKey } from '../services/celoService';
+import { tokenTransferAction } from '../services/swarmEngine';
+
+// One weighted entry of a mixed workload; unset fields fall back to the scenario's top level
+export interface ScenarioAction {
+  name: string;
+  weight?: number; // Defaults to 1
+  target?: string;
+  value?: string; // CELO per tx
+  gasLimit?: number;
+  calldata?: string;
+  abiFile?: string;
+  call?: { function: string; args?: string[] };
+  tokenTransfer?: string; // Built-in storm: this much of the scenario token to a random fleet wallet per tx
+  deploy?: ScenarioDeploy; // Each tx creates a contract instead of calling `target`
+}
+
+// Contract creation per tx; args may contain placeholders such as {{walletIndex}}
+export interface ScenarioDeploy {
+  artifact?: string; // Compiler artifact JSON (Hardhat, Foundry, solc) with bytecode and ABI
+  bytecode?: string; // Creation code, when there is no artifact; constructor args then need `abiFile`
+  args?: string[];
+}
+
+// Second swarm once the main one is done, e.g. calls into the contracts it deployed
+export interface ScenarioFollowUp {
+  actions: ScenarioAction[]; // Targets may use {{list:deployed}} / {{listRandom:deployed}}
+  txPerWallet?: number; // Defaults to the scenario's
+}
+
+// One stage of a pipeline run; unset fields keep that phase's defaults
+export interface ScenarioPhase {
+  phase: PipelinePhaseKind;
+  stopOnFailure?: boolean;
+  minSuccessRate?: number; // 0..1 share of wallets or txs that must succeed; load defaults to 1 - maxFailureRate
+  maxInclusionP90Ms?: number; // Swarm phases
+  txPerWallet?: number; // warmup and cooldown
+  loadProfile?: LoadProfile; // warmup and cooldown
+}
+
+// ERC-20 the fleet is prepared with before the swarm
+export interface ScenarioToken {
+  address: string; // Token address, or a known symbol such as cUSD
+  fundingAmount?: string; // Sent from the funder to every wallet, in token units
+  approve?: { spender: string; amount?: string }; // Each wallet approves spender; no amount approves the maximum
+}
+
+// Shape of a scenario file as written by hand (JSON or YAML)
+export interface Scenario {
+  network: string | { name?: string; rpcUrl: string; chainId: number; explorerUrl?: string; wsUrl?: string };
+  rpcEndpoints?: (string | { url: string; weight?: number })[]; // Extra RPCs pooled with the network's own
+  rpcBalancing?: RpcBalancing; // Defaults to roundRobin
+  observeBlocks?: boolean | string; // true uses the network's wsUrl; a string is the WebSocket URL to use
+  mock?: Partial<Omit<MockChainConfig, 'errorRates'>> & { errorRates?: Partial<MockErrorRates> }; // Overrides for network: mock
+  label?: string; // Names the run in reports written with --report
+  target?: string; // Required unless every action sets its own, or the run deploys
+  actions?: ScenarioAction[]; // Mixed workload, picked by weight per tx
+  deploy?: ScenarioDeploy; // Single-action deploy run instead of calling `target`
+  followUp?: ScenarioFollowUp;
+  pipeline?: ScenarioPhase[]; // Run these phases in order instead of fund, swarm, sweep
+  wallets?: number;
+  keyFile?: string;
+  mnemonic?: string; // Prefer CELOSHIP_MNEMONIC; derives `wallets` accounts
+  derivationPath?: string; // Base path, wallet i at `${derivationPath}/${startIndex + i}`
+  startIndex?: number;
+  txPerWallet: number;
+  fundingAmount?: string; // Omit to skip funding (e.g. pre-funded key file)
+  funderKey?: string; // Prefer CELOSHIP_FUNDER_KEY over committing keys to scenario files
+  fundingMode?: FundingMode;
+  disperseAddress?: string; // Deployed from the funder key when missing in disperse mode
+  fundingBatchSize?: number;
+  gasLimit?: number;
+  calldata?: string; // May contain placeholders such as {{sender}}
+  abiFile?: string; // ABI JSON, artifact or fragments, used with `call`
+  call?: { function: string; args?: string[] }; // Encoded instead of raw calldata; args may contain placeholders
+  lists?: Record<string, string>; // Placeholder list name -> file (one value per line)
+  token?: ScenarioToken;
+  fees?: FeeStrategy; // Defaults to { kind: auto }
+  feeCurrency?: string; // Token address, or a known symbol such as cUSD
+  txDelayMs?: number;
+  receiptTimeoutMs?: number; // Unmined txs are counted as dropped after this
+  stuckTxAfterMs?: number; // Resend a wallet's oldest unmined tx with higher fees after this; 0 disables
+  retryPolicies?: Partial<Record<ErrorClass, Partial<RetryPolicy>>>; // Per error class, merged over the defaults
+  loadProfile?: LoadProfile; // Defaults to burst
+  maxDurationSec?: number;
+  concurrency?: number; // Sends in flight across the fleet
+  maxFailureRate?: number; // 0..1, exit non-zero when exceeded
+  abortOn?: AbortTriggers; // Stop sending mid-run on a spend budget or failure rate
+  preflight?: boolean; // Dry-run the actions and check balances first; defaults to true
+  ignorePreflight?: boolean; // Start even when pre-flight checks fail
+  sweep?: boolean; // Return leftover CELO after the run
+  sweepTo?: string; // Defaults to the funder address
+}
+
+export interface ResolvedScenario {
+  network: NetworkProfile;
+  wsUrl?: string; // Set only when block observation is enabled
+  label?: string;
+  wallets: WalletAccount[];
+  actions: WorkloadAction[];
+  txPerWallet: number;
+  fundingAmount?: string;
+  funderKey?: string;
+  fundingMode: FundingMode;
+  disperseAddress?: string;
+  fundingBatchSize?: number;
+  token?: TokenInfo;
+  tokenFundingAmount?: string;
+  tokenApproval?: { spender: string; amount?: string };
+  templateLists: Record<string, string[]>;
+  followUp?: { actions: WorkloadAction[]; txPerWallet: number };
+  pipeline?: PipelinePhase[];
+  fees: FeeConfig;
+  txDelayMs: number;
+  receiptTimeoutMs?: number;
+  stuckTxAfterMs?: number;
+  retryPolicies: RetryPolicies;
+  loadProfile: LoadProfile;
+  maxDurationSec?: number;
+  concurrency?: number;
+  maxFailureRate: number;
+  abortOn?: AbortTriggers;
+  preflight: boolean;
+  ignorePreflight: boolean;
+  sweepTo?: string; // Set only when sweeping is enabled
+}
+
+export class ScenarioError extends Error {}
+
+const resolveNetwork = (network: Scenario['network']): NetworkProfile => {
+  if (typeof network === 'string') {
+    const profile = NETWORK_PROFILES.find(p => p.id === network);
+    if (!profile) {
+      const known = NETWORK_PROFILES.map(p => p.id).join(', ');
+      throw new ScenarioError(`Unknown network "${network}". Use one of: ${known}, or an object with rpcUrl and chainId.`);
+    }
+    return profile;
+  }
+  if (!network || !network.rpcUrl || !Number.isInteger(network.chainId)) {
+    throw new ScenarioError('Custom network requires "rpcUrl" and integer "chainId".');
+  }
+  return {
+    id: 'custom',
+    name: network.name || 'Custom RPC',
+    rpcUrl: network.rpcUrl,
+    chainId: network.chainId,
+    explorerUrl: network.explorerUrl || '',
+    wsUrl: network.wsUrl
+  };
+};
+
+const resolveMock = (network: NetworkProfile, scenario: Scenario): NetworkProfile => {
+  if (!scenario.mock) return network;
+  if (!network.mock) throw new ScenarioError('"mock" settings need network: mock.');
+  const { errorRates, ...rest } = scenario.mock;
+  const mock: MockChainConfig = { ...network.mock, ...rest, errorRates: { ...network.mock.errorRates, ...errorRates } };
+  // 0 (mine on demand) is for tests driving the chain directly; a headless run would never see a block
+  if (!Number.isInteger(mock.blockTimeMs) || mock.blockTimeMs <= 0) throw new ScenarioError('mock.blockTimeMs must be a positive integer.');
+  if (!Number.isInteger(mock.blockGasLimit) || mock.blockGasLimit <= 0) throw new ScenarioError('mock.blockGasLimit must be a positive integer.');
+  if (!(mock.latencyMs?.min >= 0) || !(mock.latencyMs.max >= mock.latencyMs.min)) {
+    throw new ScenarioError('mock.latencyMs needs 0 <= min <= max.');
+  }
+  for (const [kind, rate] of Object.entries(mock.errorRates)) {
+    if (typeof rate !== 'number' || rate < 0 || rate > 1) throw new ScenarioError(`mock.errorRates.${kind} must be between 0 and 1.`);
+  }
+  return { ...network, mock };
+};
+
+const resolvePool = (network: NetworkProfile, scenario: Scenario): NetworkProfile => {
+  if (!scenario.rpcEndpoints || scenario.rpcEndpoints.length === 0) return network;
+  const balancing = scenario.rpcBalancing ?? 'roundRobin';
+  if (balancing !== 'roundRobin' && balancing !== 'leastLatency') {
+    throw new ScenarioError(`Unknown rpcBalancing "${balancing}". Use roundRobin or leastLatency.`);
+  }
+  const extra: RpcEndpoint[] = scenario.rpcEndpoints.map(entry => {
+    const endpoint = typeof entry === 'string' ? { url: entry, weight: 1 } : { url: entry.url, weight: entry.weight ?? 1 };
+    if (!/^https?:\/\//.test(endpoint.url || '')) throw new ScenarioError(`Invalid rpcEndpoints URL: ${endpoint.url}`);
+    if (typeof endpoint.weight !== 'number' || endpoint.weight < 0) {
+      throw new ScenarioError(`rpcEndpoints weight for ${endpoint.url} must be a non-negative number.`);
+    }
+    return endpoint;
+  });
+  // The network's own rpcUrl stays in the pool unless it is listed explicitly (e.g. to reweight it)
+  const endpoints = extra.some(e => e.url === network.rpcUrl) ? extra : [{ url: network.rpcUrl, weight: 1 }, ...extra];
+  return { ...network, rpcPool: { endpoints, balancing } };
+};
+
+const resolveDeploy = async (file: string, deploy: ScenarioDeploy, abiFile?: string): Promise<PayloadTemplate> => {
+  if (!deploy.artifact === !deploy.bytecode) throw new ScenarioError('"deploy" needs either an "artifact" file or "bytecode".');
+  try {
+    const { bytecode, abiText: artifactAbi } = parseArtifact(deploy.artifact
+      ? await readFile(path.resolve(path.dirname(file), deploy.artifact), 'utf8')
+      : deploy.bytecode!);
+    const abiText = artifactAbi ?? (abiFile ? await readFile(path.resolve(path.dirname(file), abiFile), 'utf8') : undefined);
+    const args = deploy.args || [];
+    const inputs = abiText ? parseAbi(abiText).deploy.inputs.length : 0;
+    if (args.length !== inputs) throw new Error(`the constructor takes ${inputs} argument(s), ${args.length} given`);
+    return { kind: 'deploy', bytecode, abiText, args };
+  } catch (e) {
+    throw new ScenarioError(`Could not resolve deploy: ${(e as Error).message}`);
+  }
+};
+
+const resolvePayload = async (file: string, source: Pick<ScenarioAction, 'calldata' | 'abiFile' | 'call' | 'deploy'>): Promise<PayloadTemplate> => {
+  if (source.deploy) return resolveDeploy(file, source.deploy, source.abiFile);
+  if (!source.call) return { kind: 'hex', data: source.calldata || '0x' };
+  if (!source.abiFile) throw new ScenarioError('"call" requires an "abiFile".');
+  const abiPath = path.resolve(path.dirname(file), source.abiFile);
+  const abiText = await readFile(abiPath, 'utf8');
+  try {
+    const fn = parseAbi(abiText).getFunction(source.call.function);
+    if (!fn) throw new Error(`function ${source.call.function} not in ABI`);
+    return { kind: 'abi', abiText, signature: fn.format('sighash'), args: source.call.args || [] };
+  } catch (e) {
+    throw new ScenarioError(`Could not resolve call: ${(e as Error).message}`);
+  }
+};
+
+// Literal addresses, or placeholders resolved per tx such as {{listRandom:deployed}}
+const isTarget = (target?: string): target is string => !!target && (isAddress(target) || hasPlaceholders(target));
+
+const resolveActions = async (
+  file: string, scenario: Scenario, token?: TokenInfo, entries: ScenarioAction[] | undefined = scenario.actions
+): Promise<WorkloadAction[]> => {
+  const gasLimit = scenario.gasLimit ?? 300000;
+  if (!entries || entries.length === 0) {
+    if (!scenario.deploy && !scenario.target) throw new ScenarioError('Scenario requires a "target" contract address, "deploy" or "actions".');
+    return [{
+      id: 'default', name: 'default', weight: 1, target: scenario.deploy ? '' : scenario.target!, value: '0', gasLimit,
+      payload: await resolvePayload(file, scenario)
+    }];
+  }
+
+  const actions: WorkloadAction[] = [];
+  for (const [i, action] of entries.entries()) {
+    const name = action.name || `action${i + 1}`;
+    const weight = action.weight ?? 1;
+    if (typeof weight !== 'number' || weight < 0) throw new ScenarioError(`Action "${name}" has an invalid "weight".`);
+    if (action.tokenTransfer !== undefined) {
+      if (!token) throw new ScenarioError(`Action "${name}" uses "tokenTransfer" but the scenario has no "token".`);
+      if (!(Number(action.tokenTransfer) > 0)) throw new ScenarioError(`Action "${name}" needs a positive "tokenTransfer" amount.`);
+      actions.push({ ...tokenTransferAction(token, String(action.tokenTransfer), weight), id: `a${i}`, name, gasLimit: action.gasLimit ?? TOKEN_TRANSFER_GAS_LIMIT });
+      continue;
+    }
+    // An action without its own payload inherits the top-level one
+    const payloadSource = (action.calldata || action.call || action.deploy) ? { abiFile: scenario.abiFile, ...action } : scenario;
+    if (payloadSource.deploy && action.target) throw new ScenarioError(`Action "${name}" deploys a contract and can't have a "target".`);
+    const target = payloadSource.deploy ? '' : action.target || scenario.target;
+    if (!payloadSource.deploy && !isTarget(target)) throw new ScenarioError(`Action "${name}" needs a valid "target" address.`);
+    actions.push({
+      id: `a${i}`,
+      name,
+      weight,
+      target: target!,
+      value: action.value ?? '0',
+      gasLimit: action.gasLimit ?? gasLimit,
+      payload: await resolvePayload(file, payloadSource)
+    });
+  }
+  if (actions.every(a => a.weight === 0)) {
+    throw new ScenarioError('At least one action needs a "weight" above 0.');
+  }
+  return actions;
+};
+
+const PHASE_ORDER = DEFAULT_PIPELINE.map(p => p.kind);
+
+// Phases take their parameters from the rest of the scenario: fund from fundingAmount, token phases from `token`
+const resolvePipeline = (scenario: Scenario, maxFailureRate: number): PipelinePhase[] => {
+  if (!Array.isArray(scenario.pipeline) || scenario.pipeline.length === 0) throw new ScenarioError('"pipeline" must list at least one phase.');
+  if (scenario.followUp) throw new ScenarioError('"followUp" can\'t be combined with "pipeline".');
+
+  let last = -1;
+  return scenario.pipeline.map(entry => {
+    const order = PHASE_ORDER.indexOf(entry?.phase);
+    if (order < 0) throw new ScenarioError(`Unknown pipeline phase "${entry?.phase}". Use one of: ${PHASE_ORDER.join(', ')}.`);
+    if (order <= last) throw new ScenarioError(`Pipeline phases must be unique and in the order ${PHASE_ORDER.join(', ')}.`);
+    last = order;
+
+    const defaults = DEFAULT_PIPELINE[order];
+    const phase: PipelinePhase = {
+      ...defaults,
+      enabled: true,
+      stopOnFailure: entry.stopOnFailure ?? defaults.stopOnFailure,
+      minSuccessRate: entry.minSuccessRate ?? (entry.phase === 'load' ? 1 - maxFailureRate : defaults.minSuccessRate),
+      maxInclusionP90Ms: entry.maxInclusionP90Ms,
+      txPerWallet: entry.txPerWallet ?? defaults.txPerWallet,
+      loadProfile: entry.loadProfile ?? defaults.loadProfile
+    };
+    const where = `pipeline phase "${entry.phase}"`;
+    if (typeof phase.minSuccessRate !== 'number' || phase.minSuccessRate < 0 || phase.minSuccessRate > 1) {
+      throw new ScenarioError(`"minSuccessRate" of ${where} must be between 0 and 1.`);
+    }
+    if (phase.txPerWallet !== undefined && (!Number.isInteger(phase.txPerWallet) || phase.txPerWallet < 1)) {
+      throw new ScenarioError(`"txPerWallet" of ${where} must be a positive integer.`);
+    }
+    if (entry.phase === 'fund' && !scenario.fundingAmount) throw new ScenarioError(`The ${where} needs "fundingAmount".`);
+    if (entry.phase === 'tokenSetup') {
+      if (!scenario.token?.fundingAmount) throw new ScenarioError(`The ${where} needs "token.fundingAmount".`);
+      phase.amount = String(scenario.token.fundingAmount);
+    }
+    if (entry.phase === 'approvals') {
+      if (!scenario.token?.approve) throw new ScenarioError(`The ${where} needs "token.approve".`);
+      phase.spender = scenario.token.approve.spender;
+      phase.amount = scenario.token.approve.amount === undefined ? undefined : String(scenario.token.approve.amount);
+    }
+    return phase;
+  });
+};
+
+export const loadScenario = async (file: string): Promise<ResolvedScenario> => {
+  const raw = await readFile(file, 'utf8');
+  const ext = path.extname(file).toLowerCase();
+  let scenario: Scenario;
+  try {
+    scenario = (ext === '.yaml' || ext === '.yml') ? parseYaml(raw) : JSON.parse(raw);
+  } catch (e) {
+    throw new ScenarioError(`Could not parse ${file}: ${(e as Error).message}`);
+  }
+
+  if (!scenario || typeof scenario !== 'object') {
+    throw new ScenarioError(`${file} does not contain a scenario object.`);
+  }
+  if (!Number.isInteger(scenario.txPerWallet) || scenario.txPerWallet < 1) {
+    throw new ScenarioError('Scenario requires a positive integer "txPerWallet".');
+  }
+
+  let wallets: WalletAccount[];
+  const mnemonic = process.env.CELOSHIP_MNEMONIC || scenario.mnemonic;
+  if (mnemonic) {
+    if (!isValidMnemonic(mnemonic)) {
+      throw new ScenarioError('Invalid BIP-39 mnemonic.');
+    }
+    if (!Number.isInteger(scenario.wallets) || scenario.wallets! < 1) {
+      throw new ScenarioError('Mnemonic fleets require a positive integer "wallets" count.');
+    }
+    wallets = createWalletsFromMnemonic(mnemonic, scenario.wallets!, scenario.derivationPath || DEFAULT_HD_BASE_PATH, scenario.startIndex ?? 0);
+  } else if (scenario.keyFile) {
+    const keyPath = path.resolve(path.dirname(file), scenario.keyFile);
+    const keys = (await readFile(keyPath, 'utf8')).split('\n');
+    wallets = createWalletsFromKeys(keys);
+    if (wallets.length === 0) {
+      throw new ScenarioError(`No valid keys found in ${keyPath}.`);
+    }
+  } else if (Number.isInteger(scenario.wallets) && scenario.wallets! > 0) {
+    wallets = createWallets(scenario.wallets!);
+  } else {
+    throw new ScenarioError('Scenario requires "wallets" (count), "keyFile" or a mnemonic.');
+  }
+
+  const funderKey = process.env.CELOSHIP_FUNDER_KEY || scenario.funderKey;
+  if (scenario.fundingAmount) {
+    if (!funderKey || !isValidPrivateKey(funderKey)) {
+      throw new ScenarioError('Funding requires a valid funder key (set CELOSHIP_FUNDER_KEY).');
+    }
+  }
+
+  const fundingMode = scenario.fundingMode ?? 'sequential';
+  if (!['sequential', 'pipelined', 'disperse'].includes(fundingMode)) {
+    throw new ScenarioError(`Unknown fundingMode "${fundingMode}". Use sequential, pipelined or disperse.`);
+  }
+
+  const loadProfile = scenario.loadProfile ?? { kind: 'burst' };
+  const kinds: LoadProfile['kind'][] = ['burst', 'constant', 'ramp', 'steps', 'spike'];
+  if (!kinds.includes(loadProfile.kind)) {
+    throw new ScenarioError(`Unknown loadProfile kind "${loadProfile.kind}". Use one of: ${kinds.join(', ')}.`);
+  }
+
+  const network = resolvePool(resolveMock(resolveNetwork(scenario.network), scenario), scenario);
+
+  let wsUrl: string | undefined;
+  if (scenario.observeBlocks) {
+    wsUrl = typeof scenario.observeBlocks === 'string' ? scenario.observeBlocks : network.wsUrl;
+    if (!wsUrl) throw new ScenarioError(`${network.name} has no WebSocket URL; set "observeBlocks" to one (ws:// or wss://).`);
+    if (!/^wss?:\/\//.test(wsUrl)) throw new ScenarioError(`Invalid observeBlocks WebSocket URL: ${wsUrl}`);
+  }
+
+  const strategy: FeeStrategy = scenario.fees ?? { kind: 'auto' };
+  const feeKinds: FeeStrategy['kind'][] = ['auto', 'fixed', 'baseFeeMultiplier', 'capped', 'dynamic'];
+  if (!feeKinds.includes(strategy.kind)) {
+    throw new ScenarioError(`Unknown fees kind "${strategy.kind}". Use one of: ${feeKinds.join(', ')}.`);
+  }
+  let feeCurrency = scenario.feeCurrency;
+  if (feeCurrency && !isAddress(feeCurrency)) {
+    const known = (FEE_CURRENCIES[network.id] || []).find(c => c.symbol.toLowerCase() === feeCurrency!.toLowerCase());
+    if (!known) throw new ScenarioError(`Unknown feeCurrency "${feeCurrency}" on ${network.name}. Use a token address.`);
+    feeCurrency = known.address;
+  }
+
+  const retryPolicies: RetryPolicies = { ...DEFAULT_RETRY_POLICIES };
+  for (const [errorClass, policy] of Object.entries(scenario.retryPolicies || {})) {
+    if (!ERROR_CLASSES.includes(errorClass as ErrorClass)) {
+      throw new ScenarioError(`Unknown retryPolicies class "${errorClass}". Use one of: ${ERROR_CLASSES.join(', ')}.`);
+    }
+    const merged = { ...DEFAULT_RETRY_POLICIES[errorClass as ErrorClass], ...policy };
+    if (Object.values(merged).some(v => typeof v !== 'number' || v < 0)) {
+      throw new ScenarioError(`retryPolicies.${errorClass} values must be non-negative numbers.`);
+    }
+    retryPolicies[errorClass as ErrorClass] = merged;
+  }
+
+  if (scenario.concurrency !== undefined && (!Number.isInteger(scenario.concurrency) || scenario.concurrency <= 0)) {
+    throw new ScenarioError('"concurrency" must be a positive integer.');
+  }
+
+  const maxFailureRate = scenario.maxFailureRate ?? 0;
+  if (maxFailureRate < 0 || maxFailureRate > 1) {
+    throw new ScenarioError('"maxFailureRate" must be between 0 and 1.');
+  }
+  const abortOn = scenario.abortOn;
+  if (abortOn?.maxSpend !== undefined && !(Number(abortOn.maxSpend) > 0)) {
+    throw new ScenarioError('"abortOn.maxSpend" must be a positive CELO amount, e.g. "1.5".');
+  }
+  if (abortOn?.maxFailureRate !== undefined && (abortOn.maxFailureRate < 0 || abortOn.maxFailureRate > 1)) {
+    throw new ScenarioError('"abortOn.maxFailureRate" must be between 0 and 1.');
+  }
+
+  // Read from the chain here so a wrong address fails as a configuration error
+  let token: TokenInfo | undefined;
+  if (scenario.token) {
+    let tokenAddress = scenario.token.address;
+    if (tokenAddress && !isAddress(tokenAddress)) {
+      const known = (FEE_CURRENCIES[network.id] || []).find(c => c.symbol.toLowerCase() === tokenAddress.toLowerCase());
+      if (!known) throw new ScenarioError(`Unknown token "${tokenAddress}" on ${network.name}. Use a token address.`);
+      tokenAddress = known.address;
+    }
+    if (!tokenAddress) throw new ScenarioError('"token" requires an "address".');
+    try {
+      token = await getTokenInfo(network, tokenAddress);
+    } catch (e) {
+      throw new ScenarioError(`Could not read token ${tokenAddress}: ${(e as Error).message}`);
+    }
+    if (scenario.token.fundingAmount !== undefined && !(Number(scenario.token.fundingAmount) > 0)) {
+      throw new ScenarioError('"token.fundingAmount" must be a positive token amount.');
+    }
+    const approve = scenario.token.approve;
+    if (approve && !isAddress(approve.spender)) throw new ScenarioError(`Invalid "token.approve.spender": ${approve.spender}`);
+    if (approve?.amount !== undefined && !(Number(approve.amount) >= 0)) {
+      throw new ScenarioError('"token.approve.amount" must be a token amount; omit it to approve the maximum.');
+    }
+  }
+
+  const actions = await resolveActions(file, scenario, token);
+
+  let followUp: ResolvedScenario['followUp'];
+  if (scenario.followUp) {
+    if (!Array.isArray(scenario.followUp.actions) || scenario.followUp.actions.length === 0) {
+      throw new ScenarioError('"followUp" requires "actions".');
+    }
+    const txPerWallet = scenario.followUp.txPerWallet ?? scenario.txPerWallet;
+    if (!Number.isInteger(txPerWallet) || txPerWallet < 1) throw new ScenarioError('"followUp.txPerWallet" must be a positive integer.');
+    followUp = { actions: await resolveActions(file, scenario, token, scenario.followUp.actions), txPerWallet };
+  }
+
+  const pipeline = scenario.pipeline && resolvePipeline(scenario, maxFailureRate);
+
+  const templateLists: Record<string, string[]> = {};
+  for (const [name, listFile] of Object.entries(scenario.lists || {})) {
+    templateLists[name] = parseTemplateList(await readFile(path.resolve(path.dirname(file), listFile), 'utf8'));
+  }
+
+  let sweepTo: string | undefined;
+  if (scenario.sweep || pipeline?.some(p => p.kind === 'sweep')) {
+    if (scenario.sweepTo) {
+      if (!isAddress(scenario.sweepTo)) throw new ScenarioError(`Invalid "sweepTo" address: ${scenario.sweepTo}`);
+      sweepTo = scenario.sweepTo;
+    } else if (funderKey && isValidPrivateKey(funderKey)) {
+      sweepTo = new Wallet(funderKey).address;
+    } else {
+      throw new ScenarioError('Sweeping requires "sweepTo" or a valid funder key.');
+    }
+  }
+
+  return {
+    network,
+    wsUrl,
+    label: scenario.label,
+    wallets,
+    actions,
+    txPerWallet: scenario.txPerWallet,
+    fundingAmount: scenario.fundingAmount,
+    funderKey,
+    fundingMode,
+    disperseAddress: scenario.disperseAddress,
+    fundingBatchSize: scenario.fundingBatchSize,
+    token,
+    tokenFundingAmount: scenario.token?.fundingAmount === undefined ? undefined : String(scenario.token.fundingAmount),
+    tokenApproval: scenario.token?.approve && { spender: scenario.token.approve.spender, amount: scenario.token.approve.amount === undefined ? undefined : String(scenario.token.approve.amount) },
+    templateLists,
+    followUp,
+    pipeline,
+    fees: { strategy, feeCurrency },
+    txDelayMs: scenario.txDelayMs ?? 200,
+    receiptTimeoutMs: scenario.receiptTimeoutMs,
+    stuckTxAfterMs: scenario.stuckTxAfterMs,
+    retryPolicies,
+    loadProfile,
+    maxDurationSec: scenario.maxDurationSec,
+    concurrency: scenario.concurrency,
+    maxFailureRate,
+    abortOn: abortOn && { ...abortOn, maxSpend: abortOn.maxSpend === undefined ? undefined : String(abortOn.maxSpend) },
+    preflight: scenario.preflight ?? true,
+    ignorePreflight: scenario.ignorePreflight ?? false,
+    sweepTo
+  };
+};
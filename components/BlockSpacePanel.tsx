@@ -0,0 +1,75 @@
+import React from 'react';
+import { BlockSpaceSummary } from '../types';
+
+interface BlockSpacePanelProps {
+  blockSpace: BlockSpaceSummary;
+}
+
+const CHART_HEIGHT = 100;
+const BAR_WIDTH = 10;
+
+const pct = (share: number) => `${(share * 100).toFixed(1)}%`;
+
+// Gas used per observed block, with the fleet's share of the block's txs filled in green
+const BlockSpacePanel: React.FC<BlockSpacePanelProps> = ({ blockSpace }) => {
+  const { blocks } = blockSpace;
+  const chartWidth = Math.max(1, blocks.length) * BAR_WIDTH;
+  const latest = blocks[blocks.length - 1];
+
+  return (
+    <div className="space-y-3 font-mono text-xs">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        <div className="bg-white border-2 border-celo-black px-2 py-1">
+          <div className="font-bold uppercase text-[10px]">Fleet share</div>
+          <div className="text-lg">{pct(blockSpace.fleetShare)}</div>
+          <div className="text-[10px] opacity-60">{blockSpace.fleetTx}/{blockSpace.totalTx} txs</div>
+        </div>
+        <div className="bg-white border-2 border-celo-black px-2 py-1">
+          <div className="font-bold uppercase text-[10px]">Gas used</div>
+          <div className="text-lg">{pct(blockSpace.utilization)}</div>
+          <div className="text-[10px] opacity-60">of block gas limit</div>
+        </div>
+        <div className="bg-white border-2 border-celo-black px-2 py-1">
+          <div className="font-bold uppercase text-[10px]">Block time</div>
+          <div className="text-lg">{blockSpace.avgBlockTimeMs !== null ? `${(blockSpace.avgBlockTimeMs / 1000).toFixed(2)}s` : '-'}</div>
+          <div className="text-[10px] opacity-60">{blockSpace.observedBlocks} blocks seen</div>
+        </div>
+        <div className="bg-white border-2 border-celo-black px-2 py-1">
+          <div className="font-bold uppercase text-[10px]">Mempool</div>
+          <div className="text-lg">{blockSpace.pendingSeen ?? '-'}</div>
+          <div className="text-[10px] opacity-60">{blockSpace.pendingSeen === null ? 'not streamed by node' : 'pending txs seen'}</div>
+        </div>
+      </div>
+
+      {blocks.length > 0 ? (
+        <div className="bg-white border-2 border-celo-black p-2">
+          <svg viewBox={`0 0 ${chartWidth} ${CHART_HEIGHT}`} className="w-full h-28" preserveAspectRatio="none">
+            {blocks.map((b, i) => {
+              const used = b.gasLimit > 0 ? b.gasUsed / b.gasLimit : 0;
+              const height = Math.max(1, used * CHART_HEIGHT);
+              const fleetHeight = b.txCount > 0 ? height * (b.fleetTxCount / b.txCount) : 0;
+              return (
+                <g key={b.number}>
+                  <title>{`Block ${b.number}: ${pct(used)} gas, ${b.fleetTxCount}/${b.txCount} fleet txs`}</title>
+                  <rect x={i * BAR_WIDTH + 1} y={CHART_HEIGHT - height} width={BAR_WIDTH - 2} height={height} fill="#111111" />
+                  <rect x={i * BAR_WIDTH + 1} y={CHART_HEIGHT - fleetHeight} width={BAR_WIDTH - 2} height={fleetHeight} fill="#65D986" />
+                </g>
+              );
+            })}
+          </svg>
+          <div className="flex gap-4 text-[10px] mt-1">
+            <span className="flex items-center gap-1"><span className="w-3 h-2 bg-celo-black"></span>Gas used / limit</span>
+            <span className="flex items-center gap-1"><span className="w-3 h-2 bg-celo-green"></span>Fleet share of txs</span>
+            {latest && <span className="ml-auto">#{latest.number}: {latest.fleetTxCount}/{latest.txCount} txs</span>}
+          </div>
+        </div>
+      ) : (
+        <div className="py-6 text-center text-gray-500 border-2 border-dashed border-gray-400 bg-white/50">
+          {blockSpace.connected ? 'Waiting for the next block...' : 'WebSocket disconnected'}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BlockSpacePanel;
@@ -0,0 +1,141 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { FileJson, Rocket, X } from 'lucide-react';
+import { LogType, PayloadTemplate } from '../types';
+import { DEPLOYED_LIST_NAME } from '../constants';
+import { parseAbi, parseArtifact, validateArg } from '../services/abiService';
+import { compileTemplate, hasPlaceholders } from '../services/payloadTemplate';
+
+interface DeployBuilderProps {
+  template: PayloadTemplate | null;
+  lists: Record<string, string[]>;
+  onTemplateChange: (template: PayloadTemplate | null) => void;
+  log: (message: string, type: LogType) => void;
+}
+
+// Stand-in values for checking a templated constructor before any fleet exists
+const SAMPLE_FLEET = ['0x000000000000000000000000000000000000dEaD', '0x000000000000000000000000000000000000bEEF'];
+const SAMPLE_CONTEXT = { sender: SAMPLE_FLEET[0], walletIndex: 0, txIndex: 0, seq: 0, nonce: 0 };
+
+// Creation payload for deploy swarms: each tx deploys a fresh copy of the contract
+const DeployBuilder: React.FC<DeployBuilderProps> = ({ template, lists, onTemplateChange, log }) => {
+  const [artifactText, setArtifactText] = useState('');
+  const [args, setArgs] = useState<string[]>([]);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const parsed = useMemo(() => {
+    if (!artifactText.trim()) return { artifact: null, iface: null, error: null };
+    try {
+      const artifact = parseArtifact(artifactText);
+      return { artifact, iface: artifact.abiText ? parseAbi(artifact.abiText) : null, error: null };
+    } catch (e) {
+      return { artifact: null, iface: null, error: (e as Error).message };
+    }
+  }, [artifactText]);
+
+  const inputs = parsed.iface?.deploy.inputs ?? [];
+  const argErrors = inputs.map((param, i) => args[i] && !hasPlaceholders(args[i]) ? validateArg(param, args[i]) : null);
+
+  const handleArtifactChange = (text: string) => {
+    setArtifactText(text);
+    setArgs([]);
+  };
+
+  const handleFile = async (file: File) => {
+    handleArtifactChange(await file.text());
+    if (fileRef.current) fileRef.current.value = '';
+  };
+
+  const handleSet = () => {
+    if (!parsed.artifact) return;
+    const next: PayloadTemplate = {
+      kind: 'deploy',
+      bytecode: parsed.artifact.bytecode,
+      abiText: parsed.artifact.abiText,
+      args: inputs.map((_, i) => args[i] ?? '')
+    };
+    try {
+      compileTemplate(next, SAMPLE_FLEET, lists).render(SAMPLE_CONTEXT);
+      onTemplateChange(next);
+      log(`Deploy payload set: ${(next.bytecode.length - 2) / 2} bytes of creation code${inputs.length ? `, ${inputs.length} constructor arg(s)` : ''}.`, LogType.SUCCESS);
+    } catch (e) {
+      log(`Deploy payload failed: ${(e as Error).message}`, LogType.ERROR);
+    }
+  };
+
+  return (
+    <div className="space-y-3 font-mono text-xs">
+      <div className="relative">
+        <textarea
+          className="w-full h-24 border-2 border-celo-black p-2 pr-20 outline-none focus:shadow-brutal-sm resize-none break-all"
+          placeholder="Paste creation bytecode (0x...) or a compiler artifact JSON"
+          value={artifactText}
+          onChange={e => handleArtifactChange(e.target.value)}
+        />
+        <div className="absolute right-2 top-2">
+          <button
+            onClick={() => fileRef.current?.click()}
+            className="bg-white border-2 border-celo-black px-2 py-0.5 text-[10px] font-bold uppercase hover:shadow-brutal-sm transition-all flex items-center gap-1"
+          >
+            <FileJson className="w-3 h-3" /> Load
+          </button>
+        </div>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".json,.bin,.txt,application/json"
+          className="hidden"
+          onChange={e => e.target.files?.[0] && handleFile(e.target.files[0])}
+        />
+      </div>
+      {parsed.error && <div className="text-red-600">Artifact error: {parsed.error}</div>}
+      {parsed.artifact && !parsed.iface && (
+        <div className="text-[10px] opacity-60">No ABI in the artifact: the constructor is called without arguments.</div>
+      )}
+
+      {inputs.map((param, i) => (
+        <div key={i}>
+          <label className="block text-[10px] font-bold uppercase mb-1">
+            {param.name || `arg${i}`} <span className="opacity-60 normal-case">{param.format('sighash')}</span>
+          </label>
+          <input
+            type="text"
+            className={`w-full border-2 border-celo-black p-2 outline-none focus:shadow-brutal-sm ${argErrors[i] ? 'bg-red-50' : 'bg-white'}`}
+            placeholder={param.isArray() || param.isTuple() ? 'JSON' : param.baseType}
+            value={args[i] ?? ''}
+            onChange={e => setArgs(inputs.map((_, k) => k === i ? e.target.value : args[k] ?? ''))}
+          />
+          {argErrors[i] && <div className="text-red-600 text-[10px] mt-0.5">{argErrors[i]}</div>}
+        </div>
+      ))}
+
+      {parsed.artifact && (
+        <button
+          onClick={handleSet}
+          className="w-full bg-white border-2 border-celo-black py-2 font-bold uppercase hover:translate-x-[2px] hover:translate-y-[2px] hover:shadow-none shadow-brutal-sm transition-all flex items-center justify-center gap-2"
+        >
+          <Rocket className="w-4 h-4" /> Set Deploy Payload
+        </button>
+      )}
+
+      {template?.kind === 'deploy' && (
+        <div className="bg-white border-2 border-celo-black p-2 text-[10px] break-all">
+          <div className="flex justify-between items-center mb-1">
+            <span className="bg-celo-black text-white px-1">DEPLOY</span>
+            <button onClick={() => onTemplateChange(null)} title="Clear deploy payload" className="hover:text-red-500">
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+          {template.bytecode.slice(0, 42)}... ({(template.bytecode.length - 2) / 2} bytes)
+          {template.args.length > 0 && <div>constructor({template.args.join(', ')})</div>}
+        </div>
+      )}
+
+      <div className="text-[10px] opacity-60">
+        Deploys need no target. Addresses of mined deploys become the "{DEPLOYED_LIST_NAME}" list, so a follow-up
+        swarm can target {`{{listRandom:${DEPLOYED_LIST_NAME}}}`}.
+      </div>
+    </div>
+  );
+};
+
+export default DeployBuilder;
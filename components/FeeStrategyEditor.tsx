@@ -0,0 +1,144 @@
+import React from 'react';
+import { isAddress } from 'ethers';
+import { FeeConfig, FeeStrategy } from '../types';
+import { FEE_CURRENCIES } from '../constants';
+
+interface FeeStrategyEditorProps {
+  config: FeeConfig;
+  networkId: string;
+  disabled?: boolean;
+  onChange: (config: FeeConfig) => void;
+}
+
+const DEFAULT_STRATEGIES: Record<FeeStrategy['kind'], FeeStrategy> = {
+  auto: { kind: 'auto' },
+  fixed: { kind: 'fixed', gasPriceGwei: '25' },
+  baseFeeMultiplier: { kind: 'baseFeeMultiplier', gasPriceMultiplier: 1.5, priorityFeeGwei: '1' },
+  capped: { kind: 'capped', maxFeeGwei: '50', priorityFeeGwei: '2' },
+  dynamic: { kind: 'dynamic', priorityFeeGwei: '1' }
+};
+
+const inputClass = "w-full border-2 border-celo-black p-2 font-mono text-sm outline-none focus:bg-white disabled:opacity-50";
+
+// Gwei amounts stay strings so decimals like 0.5 survive untouched
+const GweiField: React.FC<{ label: string, value: string, disabled?: boolean, placeholder?: string, onChange: (v: string) => void }> = ({ label, value, disabled, placeholder, onChange }) => (
+  <div>
+    <label className="block text-xs font-bold uppercase mb-1">{label}</label>
+    <input
+      type="text"
+      inputMode="decimal"
+      className={`${inputClass} ${value && isNaN(Number(value)) ? 'bg-red-50' : ''}`}
+      value={value}
+      placeholder={placeholder}
+      disabled={disabled}
+      onChange={e => onChange(e.target.value.trim())}
+    />
+  </div>
+);
+
+const FeeStrategyEditor: React.FC<FeeStrategyEditorProps> = ({ config, networkId, disabled, onChange }) => {
+  const { strategy, feeCurrency } = config;
+  const known = FEE_CURRENCIES[networkId] || [];
+  const isKnown = known.some(c => c.address === feeCurrency);
+  const setStrategy = (next: FeeStrategy) => onChange({ ...config, strategy: next });
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs font-bold uppercase mb-1">Fee Strategy</label>
+          <select
+            className={inputClass}
+            value={strategy.kind}
+            disabled={disabled}
+            onChange={e => setStrategy(DEFAULT_STRATEGIES[e.target.value as FeeStrategy['kind']])}
+          >
+            <option value="auto">Auto (RPC)</option>
+            <option value="fixed">Fixed Gas Price</option>
+            <option value="baseFeeMultiplier">Base Fee Multiplier</option>
+            <option value="capped">Max Fee / Tip Cap</option>
+            <option value="dynamic">Dynamic (per block)</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-bold uppercase mb-1">Pay Gas In</label>
+          <select
+            className={inputClass}
+            value={!feeCurrency ? '' : isKnown ? feeCurrency : 'custom'}
+            disabled={disabled}
+            onChange={e => onChange({ ...config, feeCurrency: e.target.value === 'custom' ? '0x' : e.target.value || undefined })}
+          >
+            <option value="">CELO</option>
+            {known.map(c => <option key={c.address} value={c.address}>{c.symbol}</option>)}
+            <option value="custom">Custom Token</option>
+          </select>
+        </div>
+      </div>
+
+      {feeCurrency !== undefined && !isKnown && (
+        <input
+          type="text"
+          className={`${inputClass} ${isAddress(feeCurrency) ? '' : 'bg-red-50'}`}
+          placeholder="Fee currency (or adapter) address"
+          value={feeCurrency === '0x' ? '' : feeCurrency}
+          disabled={disabled}
+          onChange={e => onChange({ ...config, feeCurrency: e.target.value.trim() || '0x' })}
+        />
+      )}
+
+      {strategy.kind === 'fixed' && (
+        <GweiField label="Gas Price (gwei)" value={strategy.gasPriceGwei} disabled={disabled} onChange={gasPriceGwei => setStrategy({ ...strategy, gasPriceGwei })} />
+      )}
+
+      {strategy.kind === 'baseFeeMultiplier' && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block text-xs font-bold uppercase mb-1">Multiplier</label>
+            <input
+              type="number"
+              step={0.1}
+              min={0}
+              className={inputClass}
+              value={strategy.gasPriceMultiplier}
+              disabled={disabled}
+              onChange={e => setStrategy({ ...strategy, gasPriceMultiplier: parseFloat(e.target.value) || 0 })}
+            />
+          </div>
+          <GweiField label="Tip (gwei)" value={strategy.priorityFeeGwei} disabled={disabled} onChange={priorityFeeGwei => setStrategy({ ...strategy, priorityFeeGwei })} />
+        </div>
+      )}
+
+      {strategy.kind === 'capped' && (
+        <div className="grid grid-cols-2 gap-2">
+          <GweiField label="Max Fee (gwei)" value={strategy.maxFeeGwei} disabled={disabled} onChange={maxFeeGwei => setStrategy({ ...strategy, maxFeeGwei })} />
+          <GweiField label="Tip (gwei)" value={strategy.priorityFeeGwei} disabled={disabled} onChange={priorityFeeGwei => setStrategy({ ...strategy, priorityFeeGwei })} />
+        </div>
+      )}
+
+      {strategy.kind === 'dynamic' && (
+        <div className="grid grid-cols-2 gap-2">
+          <GweiField label="Tip (gwei)" value={strategy.priorityFeeGwei} disabled={disabled} onChange={priorityFeeGwei => setStrategy({ ...strategy, priorityFeeGwei })} />
+          <GweiField
+            label="Max Fee Cap (gwei)"
+            value={strategy.maxFeeCapGwei || ''}
+            placeholder="none"
+            disabled={disabled}
+            onChange={maxFeeCapGwei => setStrategy({ ...strategy, maxFeeCapGwei: maxFeeCapGwei || undefined })}
+          />
+        </div>
+      )}
+
+      <div className="text-[10px] font-mono opacity-60">
+        {feeCurrency
+          ? 'Fees are in the token\'s units and txs are sent as Celo CIP-64. Allow ~50k extra gas per tx.'
+          : strategy.kind === 'baseFeeMultiplier'
+            ? 'Base fee is sampled once at swarm start.'
+            : strategy.kind === 'dynamic'
+              ? 'Max fee follows 2x the latest base fee, refreshed every block.'
+              : 'The fee used is recorded on every tx log entry.'}
+      </div>
+    </div>
+  );
+};
+
+export default FeeStrategyEditor;
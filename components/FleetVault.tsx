@@ -0,0 +1,180 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Lock, Upload, KeyRound } from 'lucide-react';
+import { LogType, StoredFleetMeta, WalletAccount } from '../types';
+import { exportFleetKeystores, importFleetKeystores, listFleets, loadFleet, saveFleet } from '../services/fleetStorage';
+
+interface FleetVaultProps {
+  wallets: WalletAccount[];
+  networkId: string;
+  disabled?: boolean;
+  onRestore: (wallets: WalletAccount[]) => void;
+  log: (message: string, type: LogType) => void;
+}
+
+const AUTOSAVE_DEBOUNCE_MS = 2000;
+
+const FleetVault: React.FC<FleetVaultProps> = ({ wallets, networkId, disabled, onRestore, log }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [savedFleets, setSavedFleets] = useState<StoredFleetMeta[]>([]);
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  // Offer the last fleet on load
+  useEffect(() => {
+    listFleets()
+      .then(setSavedFleets)
+      .catch(e => console.warn("Fleet vault unavailable", e));
+  }, []);
+
+  // Persist the current fleet whenever it changes, once a passphrase is set
+  useEffect(() => {
+    if (!passphrase || wallets.length === 0) return;
+    const timer = setTimeout(async () => {
+      try {
+        await saveFleet(wallets, passphrase, networkId);
+        setLastSavedAt(Date.now());
+      } catch (e) {
+        log(`Fleet autosave failed: ${(e as Error).message}`, LogType.ERROR);
+      }
+    }, AUTOSAVE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [wallets, passphrase, networkId]);
+
+  const latest = savedFleets[0];
+
+  const handleRestore = async () => {
+    if (!latest) return;
+    if (!passphrase) {
+      log("Enter the vault passphrase to restore the saved fleet.", LogType.WARNING);
+      return;
+    }
+    setIsWorking(true);
+    try {
+      const restored = await loadFleet(latest.id, passphrase);
+      onRestore(restored);
+      setSavedFleets([]);
+      log(`Restored ${restored.length} wallets from vault (saved ${new Date(latest.updatedAt).toLocaleString()}).`, LogType.SUCCESS);
+    } catch (e) {
+      log(`Restore failed: ${(e as Error).message}`, LogType.ERROR);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!passphrase) {
+      log("Enter a passphrase to encrypt the keystore export.", LogType.WARNING);
+      return;
+    }
+    setIsWorking(true);
+    try {
+      log(`Encrypting ${wallets.length} keystores...`, LogType.INFO);
+      const json = await exportFleetKeystores(wallets, passphrase);
+      const link = document.createElement("a");
+      link.setAttribute("href", URL.createObjectURL(new Blob([json], { type: 'application/json' })));
+      link.setAttribute("download", `celoship_keystores_${Date.now()}.json`);
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      log("Fleet exported as encrypted keystore JSON.", LogType.SUCCESS);
+    } catch (e) {
+      log(`Keystore export failed: ${(e as Error).message}`, LogType.ERROR);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    if (!passphrase) {
+      log("Enter the keystore password before importing.", LogType.WARNING);
+      return;
+    }
+    setIsWorking(true);
+    try {
+      log(`Decrypting keystores from ${file.name}...`, LogType.INFO);
+      const imported = await importFleetKeystores(await file.text(), passphrase);
+      onRestore(imported);
+      log(`Imported ${imported.length} wallets from keystore.`, LogType.SUCCESS);
+    } catch (e) {
+      log(`Keystore import failed: ${(e as Error).message}`, LogType.ERROR);
+    } finally {
+      setIsWorking(false);
+      if (fileRef.current) fileRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="mb-4 space-y-2">
+      {latest && wallets.length === 0 && (
+        <div className="bg-celo-purple border-2 border-celo-black p-2 font-mono text-xs flex justify-between items-center gap-2">
+          <span>
+            Saved fleet: {latest.walletCount} wallets ({latest.networkId}), {new Date(latest.updatedAt).toLocaleString()}
+          </span>
+          <div className="flex gap-2">
+            <button
+              onClick={handleRestore}
+              disabled={disabled || isWorking}
+              className="bg-white border-2 border-celo-black px-2 py-0.5 font-bold hover:shadow-brutal-sm transition-all"
+            >
+              Restore
+            </button>
+            <button
+              onClick={() => setSavedFleets([])}
+              className="px-2 py-0.5 font-bold opacity-60 hover:opacity-100"
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-2 items-center">
+        <div className="relative flex-1">
+          <Lock className="w-3 h-3 absolute left-2 top-2.5" />
+          <input
+            type="password"
+            className="w-full bg-white border-2 border-celo-black pl-7 pr-2 py-1 font-mono text-xs outline-none focus:shadow-brutal-sm"
+            placeholder="Vault passphrase (encrypts saved fleet & keystores)"
+            value={passphrase}
+            onChange={e => setPassphrase(e.target.value)}
+          />
+        </div>
+        {wallets.length > 0 && (
+          <button
+            onClick={handleExport}
+            disabled={disabled || isWorking}
+            className="bg-white border-2 border-celo-black px-3 py-1 text-xs font-bold hover:shadow-brutal-sm transition-all flex items-center gap-2"
+            title="Export encrypted JSON keystores"
+          >
+            <KeyRound className="w-3 h-3" /> Keystore
+          </button>
+        )}
+        <button
+          onClick={() => fileRef.current?.click()}
+          disabled={disabled || isWorking}
+          className="bg-white border-2 border-celo-black px-3 py-1 text-xs font-bold hover:shadow-brutal-sm transition-all flex items-center gap-2"
+          title="Import encrypted JSON keystores"
+        >
+          <Upload className="w-3 h-3" /> Import
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={e => e.target.files?.[0] && handleImport(e.target.files[0])}
+        />
+      </div>
+
+      <div className="text-[10px] font-mono opacity-60">
+        {wallets.length === 0 ? 'No fleet loaded.'
+          : !passphrase ? 'Fleet is not persisted. Set a passphrase to keep keys across reloads.'
+          : lastSavedAt ? `Encrypted fleet saved at ${new Date(lastSavedAt).toLocaleTimeString()}.`
+          : 'Saving fleet...'}
+      </div>
+    </div>
+  );
+};
+
+export default FleetVault;
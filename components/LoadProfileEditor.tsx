@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { LoadProfile, LoadStep } from '../types';
+
+interface LoadProfileEditorProps {
+  profile: LoadProfile;
+  maxDurationSec: number;
+  concurrency: number;
+  disabled?: boolean;
+  onChange: (profile: LoadProfile) => void;
+  onMaxDurationChange: (seconds: number) => void;
+  onConcurrencyChange: (concurrency: number) => void;
+}
+
+const DEFAULT_STEPS: LoadStep[] = [{ rate: 5, durationSec: 30 }, { rate: 10, durationSec: 30 }, { rate: 20, durationSec: 30 }];
+
+const DEFAULT_PROFILES: Record<LoadProfile['kind'], LoadProfile> = {
+  burst: { kind: 'burst' },
+  constant: { kind: 'constant', rate: 5 },
+  ramp: { kind: 'ramp', fromRate: 1, toRate: 20, durationSec: 60 },
+  steps: { kind: 'steps', steps: DEFAULT_STEPS },
+  spike: { kind: 'spike', baseRate: 2, spikeRate: 30, intervalSec: 60, spikeDurationSec: 5 }
+};
+
+// Steps are edited as "rate:seconds" pairs, e.g. "5:30, 10:30, 20:30"
+const formatSteps = (steps: LoadStep[]) => steps.map(s => `${s.rate}:${s.durationSec}`).join(', ');
+
+const parseSteps = (text: string): LoadStep[] | null => {
+  const steps: LoadStep[] = [];
+  for (const part of text.split(',')) {
+    if (part.trim() === '') continue;
+    const [rate, duration] = part.split(':').map(v => parseFloat(v));
+    if (isNaN(rate) || isNaN(duration) || rate < 0 || duration <= 0) return null;
+    steps.push({ rate, durationSec: duration });
+  }
+  return steps.length > 0 ? steps : null;
+};
+
+const inputClass = "w-full border-2 border-celo-black p-2 font-mono text-sm outline-none focus:bg-white disabled:opacity-50";
+
+const NumberField: React.FC<{ label: string, value: number, disabled?: boolean, onChange: (v: number) => void }> = ({ label, value, disabled, onChange }) => (
+  <div>
+    <label className="block text-xs font-bold uppercase mb-1">{label}</label>
+    <input
+      type="number"
+      className={inputClass}
+      value={value}
+      min={0}
+      disabled={disabled}
+      onChange={e => onChange(parseFloat(e.target.value) || 0)}
+    />
+  </div>
+);
+
+const LoadProfileEditor: React.FC<LoadProfileEditorProps> = ({ profile, maxDurationSec, concurrency, disabled, onChange, onMaxDurationChange, onConcurrencyChange }) => {
+  const [stepsText, setStepsText] = useState(formatSteps(profile.kind === 'steps' ? profile.steps : DEFAULT_STEPS));
+  const [stepsError, setStepsError] = useState(false);
+
+  const handleStepsChange = (text: string) => {
+    setStepsText(text);
+    const steps = parseSteps(text);
+    setStepsError(!steps);
+    if (steps) onChange({ kind: 'steps', steps });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <label className="block text-xs font-bold uppercase mb-1">Load Shape</label>
+          <select
+            className={inputClass}
+            value={profile.kind}
+            disabled={disabled}
+            onChange={e => {
+              const kind = e.target.value as LoadProfile['kind'];
+              onChange(kind === 'steps' ? { kind, steps: parseSteps(stepsText) || [] } : DEFAULT_PROFILES[kind]);
+            }}
+          >
+            <option value="burst">Burst</option>
+            <option value="constant">Constant</option>
+            <option value="ramp">Ramp</option>
+            <option value="steps">Steps</option>
+            <option value="spike">Spike</option>
+          </select>
+        </div>
+        <NumberField label="Max Duration (s)" value={maxDurationSec} disabled={disabled} onChange={onMaxDurationChange} />
+        <NumberField label="Concurrency" value={concurrency} disabled={disabled} onChange={v => onConcurrencyChange(Math.max(1, Math.floor(v)))} />
+      </div>
+
+      {profile.kind === 'constant' && (
+        <NumberField label="Rate (tx/s)" value={profile.rate} disabled={disabled} onChange={rate => onChange({ ...profile, rate })} />
+      )}
+
+      {profile.kind === 'ramp' && (
+        <div className="grid grid-cols-3 gap-2">
+          <NumberField label="From tx/s" value={profile.fromRate} disabled={disabled} onChange={fromRate => onChange({ ...profile, fromRate })} />
+          <NumberField label="To tx/s" value={profile.toRate} disabled={disabled} onChange={toRate => onChange({ ...profile, toRate })} />
+          <NumberField label="Over (s)" value={profile.durationSec} disabled={disabled} onChange={durationSec => onChange({ ...profile, durationSec })} />
+        </div>
+      )}
+
+      {profile.kind === 'steps' && (
+        <div>
+          <label className="block text-xs font-bold uppercase mb-1">Steps (tx/s:seconds)</label>
+          <input
+            type="text"
+            className={`${inputClass} ${stepsError ? 'bg-red-50' : ''}`}
+            value={stepsText}
+            disabled={disabled}
+            placeholder="5:30, 10:30, 20:30"
+            onChange={e => handleStepsChange(e.target.value)}
+          />
+        </div>
+      )}
+
+      {profile.kind === 'spike' && (
+        <div className="grid grid-cols-2 gap-2">
+          <NumberField label="Base tx/s" value={profile.baseRate} disabled={disabled} onChange={baseRate => onChange({ ...profile, baseRate })} />
+          <NumberField label="Spike tx/s" value={profile.spikeRate} disabled={disabled} onChange={spikeRate => onChange({ ...profile, spikeRate })} />
+          <NumberField label="Every (s)" value={profile.intervalSec} disabled={disabled} onChange={intervalSec => onChange({ ...profile, intervalSec })} />
+          <NumberField label="Spike (s)" value={profile.spikeDurationSec} disabled={disabled} onChange={spikeDurationSec => onChange({ ...profile, spikeDurationSec })} />
+        </div>
+      )}
+
+      <div className="text-[10px] font-mono opacity-60">
+        {profile.kind === 'burst'
+          ? 'Every wallet sends its Tx / Wallet quota back to back.'
+          : 'Aggregate fleet rate. Stops at the Tx / Wallet quota, Max Duration (0 = none) or the end of the shape.'}
+        {' '}Concurrency caps sends in flight across the fleet.
+      </div>
+    </div>
+  );
+};
+
+export default LoadProfileEditor;
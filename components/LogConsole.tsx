@@ -1,65 +1,107 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
 import { LogEntry, LogType } from '../types';
+import { LOG_ROW_HEIGHT } from '../constants';
 import { ExternalLink } from 'lucide-react';
-import { EXPLORER_URL } from '../constants';
 
 interface LogConsoleProps {
   logs: LogEntry[];
+  explorerUrl: string;
 }
 
-const LogConsole: React.FC<LogConsoleProps> = ({ logs }) => {
-  const bottomRef = useRef<HTMLDivElement>(null);
+const OVERSCAN_ROWS = 10;
+
+// Windowed like WalletFleetList: only rows in view are rendered, one line each (hover for the full message).
+// The console follows new entries while scrolled to the bottom and stays put once the user scrolls up.
+const LogConsole: React.FC<LogConsoleProps> = ({ logs, explorerUrl }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const followRef = useRef(true);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
 
   useEffect(() => {
-    if (bottomRef.current) {
-      bottomRef.current.scrollIntoView({ behavior: 'smooth' });
-    }
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewportHeight(el.clientHeight));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  useLayoutEffect(() => {
+    const el = containerRef.current;
+    if (el && followRef.current) el.scrollTop = el.scrollHeight;
   }, [logs]);
 
+  const onScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const el = e.currentTarget;
+    followRef.current = el.scrollTop + el.clientHeight >= el.scrollHeight - LOG_ROW_HEIGHT;
+    setScrollTop(el.scrollTop);
+  };
+
   const getTime = (timestamp: number) => {
     return new Date(timestamp).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' });
   };
 
+  const first = Math.max(0, Math.floor(scrollTop / LOG_ROW_HEIGHT) - OVERSCAN_ROWS);
+  const last = Math.min(logs.length, Math.ceil((scrollTop + viewportHeight) / LOG_ROW_HEIGHT) + OVERSCAN_ROWS);
+
   return (
-    <div className="h-full overflow-y-auto font-mono text-xs p-2 custom-scrollbar bg-white">
+    <div ref={containerRef} onScroll={onScroll} className="h-full overflow-y-auto font-mono text-xs p-2 custom-scrollbar bg-white">
         {logs.length === 0 && (
           <div className="text-gray-400 italic p-4 text-center">
-            > System waiting for inputs...
+            {'>'} System waiting for inputs...
           </div>
         )}
-        <table className="w-full text-left border-collapse">
-            <tbody>
-            {logs.map((log) => (
-                <tr key={log.id} className="border-b border-gray-100 hover:bg-gray-50 align-top">
-                    <td className="py-1 px-2 text-gray-400 whitespace-nowrap w-[80px] align-top">{getTime(log.timestamp)}</td>
-                    <td className={`py-1 px-2 font-bold w-[80px] align-top
+        <div className="relative" style={{ height: logs.length * LOG_ROW_HEIGHT }}>
+            {logs.slice(first, last).map((log, offset) => (
+                <div
+                    key={log.id}
+                    className="absolute left-0 right-0 flex items-center border-b border-gray-100 hover:bg-gray-50"
+                    style={{ top: (first + offset) * LOG_ROW_HEIGHT, height: LOG_ROW_HEIGHT }}
+                >
+                    <span className="px-2 text-gray-400 whitespace-nowrap w-[80px] shrink-0">{getTime(log.timestamp)}</span>
+                    <span className={`px-2 font-bold w-[80px] shrink-0
                         ${log.type === LogType.SUCCESS ? 'text-green-600' : ''}
                         ${log.type === LogType.ERROR ? 'text-red-600' : ''}
                         ${log.type === LogType.WARNING ? 'text-orange-500' : ''}
                         ${log.type === LogType.INFO ? 'text-black' : ''}
                     `}>
                         [{log.type}]
-                    </td>
-                    <td className="py-1 px-2 text-black align-top break-all">
-                        {log.message}
-                        {log.txHash && (
-                            <a 
-                            href={`${EXPLORER_URL}/tx/${log.txHash}`} 
-                            target="_blank" 
-                            rel="noreferrer"
-                            className="ml-2 bg-gray-100 hover:bg-gray-200 border border-gray-300 text-black px-1 rounded inline-flex items-center no-underline"
-                            >
-                            HASH <ExternalLink className="w-2 h-2 ml-1" />
-                            </a>
-                        )}
-                    </td>
-                </tr>
+                    </span>
+                    <span className="px-2 text-black truncate min-w-0" title={log.message}>{log.message}</span>
+                    {log.txStatus === 'submitted' && (
+                        <span className="ml-2 shrink-0 inline-block w-2 h-2 rounded-full bg-celo-orange animate-pulse" title="Awaiting receipt"></span>
+                    )}
+                    {log.txHash && explorerUrl && (
+                        <a
+                        href={`${explorerUrl}/tx/${log.txHash}`}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="ml-2 shrink-0 bg-gray-100 hover:bg-gray-200 border border-gray-300 text-black px-1 rounded inline-flex items-center no-underline"
+                        >
+                        HASH <ExternalLink className="w-2 h-2 ml-1" />
+                        </a>
+                    )}
+                    {log.calldata && (
+                        <span className="ml-2 shrink-0 text-gray-400 text-[10px]" title={log.calldata}>
+                        data {log.calldata.slice(0, 10)}..{log.calldata.slice(-8)}
+                        </span>
+                    )}
+                    {log.fee && (
+                        <span className="ml-2 shrink-0 text-gray-400 text-[10px]" title={JSON.stringify(log.fee)}>
+                        {log.fee.type === 'legacy' ? `${log.fee.gasPrice} gwei` : `max ${log.fee.maxFeePerGas}/${log.fee.maxPriorityFeePerGas} gwei`}
+                        {log.fee.feeCurrency && ` in ${log.fee.feeCurrency.slice(0, 8)}..`}
+                        </span>
+                    )}
+                    {log.txHash && !explorerUrl && (
+                        <span className="ml-2 shrink-0 text-gray-400" title={log.txHash}>
+                        {log.txHash.slice(0, 10)}...
+                        </span>
+                    )}
+                </div>
             ))}
-            </tbody>
-        </table>
-        <div ref={bottomRef} />
+        </div>
     </div>
   );
 };
 
-export default LogConsole;
\ No newline at end of file
+export default LogConsole;
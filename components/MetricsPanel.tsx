@@ -0,0 +1,172 @@
+import React from 'react';
+import { LatencySummary, MetricsSnapshot } from '../types';
+import { ERROR_CLASS_LABELS } from '../services/errorClassifier';
+
+interface MetricsPanelProps {
+  metrics: MetricsSnapshot | null;
+}
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 120;
+const MAX_POINTS = 60; // Last minute of per-second buckets
+
+const formatMs = (ms: number) => ms >= 1000 ? `${(ms / 1000).toFixed(2)}s` : `${Math.round(ms)}ms`;
+
+const LatencyRow: React.FC<{ label: string, summary: LatencySummary }> = ({ label, summary }) => (
+  <tr className="border-b border-gray-200">
+    <td className="py-1 pr-2 font-bold uppercase">{label}</td>
+    <td className="py-1 px-1 text-right">{summary.count > 0 ? formatMs(summary.p50) : '-'}</td>
+    <td className="py-1 px-1 text-right">{summary.count > 0 ? formatMs(summary.p90) : '-'}</td>
+    <td className="py-1 px-1 text-right">{summary.count > 0 ? formatMs(summary.p99) : '-'}</td>
+  </tr>
+);
+
+const MetricsPanel: React.FC<MetricsPanelProps> = ({ metrics }) => {
+  if (!metrics) {
+    return (
+      <div className="py-12 text-center text-gray-500 font-mono text-sm border-2 border-dashed border-gray-400 bg-white/50">
+        No swarm metrics yet
+      </div>
+    );
+  }
+
+  const points = metrics.series.slice(-MAX_POINTS);
+  const maxTps = Math.max(1, ...points.map(p => Math.max(p.submitted, p.mined)));
+  const maxLatency = Math.max(1, ...points.map(p => p.avgInclusionMs ?? 0));
+  const step = CHART_WIDTH / Math.max(1, points.length - 1);
+  const toY = (value: number, max: number) => CHART_HEIGHT - (value / max) * (CHART_HEIGHT - 4);
+
+  const line = (values: number[], max: number) =>
+    values.map((v, i) => `${(i * step).toFixed(1)},${toY(v, max).toFixed(1)}`).join(' ');
+
+  // Latency line only spans buckets that had inclusions
+  const latencyPoints = points
+    .map((p, i) => p.avgInclusionMs === null ? null : `${(i * step).toFixed(1)},${toY(p.avgInclusionMs, maxLatency).toFixed(1)}`)
+    .filter(Boolean)
+    .join(' ');
+
+  return (
+    <div className="space-y-3 font-mono text-xs">
+      <div className="grid grid-cols-3 gap-2">
+        <div className="bg-white border-2 border-celo-black px-2 py-1">
+          <div className="font-bold uppercase text-[10px]">Sent TPS</div>
+          <div className="text-lg">{metrics.submittedTps.toFixed(2)}</div>
+        </div>
+        <div className="bg-white border-2 border-celo-black px-2 py-1">
+          <div className="font-bold uppercase text-[10px]">Mined TPS</div>
+          <div className="text-lg">{metrics.minedTps.toFixed(2)}</div>
+        </div>
+        <div className="bg-white border-2 border-celo-black px-2 py-1">
+          <div className="font-bold uppercase text-[10px]">Blocks</div>
+          <div className="text-lg">{metrics.blockCount}</div>
+        </div>
+      </div>
+
+      <div className="bg-white border-2 border-celo-black p-2">
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-32" preserveAspectRatio="none">
+          <polyline fill="none" stroke="#111111" strokeWidth="1.5" points={line(points.map(p => p.submitted), maxTps)} />
+          <polyline fill="none" stroke="#65D986" strokeWidth="2" points={line(points.map(p => p.mined), maxTps)} />
+          {latencyPoints && (
+            <polyline fill="none" stroke="#FFAB7C" strokeWidth="1.5" strokeDasharray="4 2" points={latencyPoints} />
+          )}
+        </svg>
+        <div className="flex gap-4 text-[10px] mt-1">
+          <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-celo-black"></span>Sent/s (max {maxTps})</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-celo-green"></span>Mined/s</span>
+          <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-celo-orange"></span>Inclusion (max {formatMs(maxLatency)})</span>
+        </div>
+      </div>
+
+      <table className="w-full bg-white border-2 border-celo-black">
+        <thead>
+          <tr className="bg-celo-black text-white">
+            <th className="py-1 px-2 text-left">Latency</th>
+            <th className="py-1 px-1 text-right">p50</th>
+            <th className="py-1 px-1 text-right">p90</th>
+            <th className="py-1 px-1 text-right">p99</th>
+          </tr>
+        </thead>
+        <tbody className="[&_td:first-child]:pl-2 [&_td:last-child]:pr-2">
+          <LatencyRow label="Accepted" summary={metrics.acceptLatency} />
+          <LatencyRow label="Included" summary={metrics.inclusionLatency} />
+        </tbody>
+      </table>
+
+      {metrics.actions.length > 1 && (
+        <table className="w-full bg-white border-2 border-celo-black">
+          <thead>
+            <tr className="bg-celo-black text-white">
+              <th className="py-1 px-2 text-left">Action</th>
+              <th className="py-1 px-1 text-right">Sent</th>
+              <th className="py-1 px-1 text-right">Mined</th>
+              <th className="py-1 px-1 text-right">Failed</th>
+              <th className="py-1 px-2 text-right">p50</th>
+            </tr>
+          </thead>
+          <tbody>
+            {metrics.actions.map(a => (
+              <tr key={a.actionId} className="border-b border-gray-200">
+                <td className="py-1 px-2 font-bold truncate max-w-[6rem]">{a.name}</td>
+                <td className="py-1 px-1 text-right">{a.stats.totalTx}</td>
+                <td className="py-1 px-1 text-right">{a.stats.minedTx}</td>
+                <td className="py-1 px-1 text-right">{a.stats.failedTx + a.stats.revertedTx + a.stats.replacedTx + a.stats.droppedTx}</td>
+                <td className="py-1 px-2 text-right">{a.inclusionLatency.count > 0 ? formatMs(a.inclusionLatency.p50) : '-'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {metrics.endpoints && (
+        <table className="w-full bg-white border-2 border-celo-black">
+          <thead>
+            <tr className="bg-celo-black text-white">
+              <th className="py-1 px-2 text-left">RPC</th>
+              <th className="py-1 px-1 text-right">Reqs</th>
+              <th className="py-1 px-1 text-right">Err %</th>
+              <th className="py-1 px-1 text-right">p50</th>
+              <th className="py-1 px-2 text-right">p90</th>
+            </tr>
+          </thead>
+          <tbody>
+            {metrics.endpoints.map(e => (
+              <tr key={e.url} className={`border-b border-gray-200 ${e.healthy ? '' : 'bg-red-50'}`}>
+                <td className="py-1 px-2 font-bold truncate max-w-[8rem]" title={`${e.url} (weight ${e.weight})${e.healthy ? '' : ' - unhealthy'}`}>
+                  {!e.healthy && <span className="text-red-600 mr-1">!</span>}
+                  {e.url.replace(/^https?:\/\//, '')}
+                </td>
+                <td className="py-1 px-1 text-right">{e.requests}</td>
+                <td className="py-1 px-1 text-right">{e.requests > 0 ? ((e.errors / e.requests) * 100).toFixed(1) : '-'}</td>
+                <td className="py-1 px-1 text-right">{e.latency.count > 0 ? formatMs(e.latency.p50) : '-'}</td>
+                <td className="py-1 px-2 text-right">{e.latency.count > 0 ? formatMs(e.latency.p90) : '-'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {metrics.errors.length > 0 && (
+        <table className="w-full bg-white border-2 border-celo-black">
+          <thead>
+            <tr className="bg-celo-black text-white">
+              <th className="py-1 px-2 text-left">Send Errors</th>
+              <th className="py-1 px-1 text-right">Retried</th>
+              <th className="py-1 px-2 text-right">Failed</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...metrics.errors].sort((a, b) => (b.failed + b.retried) - (a.failed + a.retried)).map(e => (
+              <tr key={e.errorClass} className="border-b border-gray-200">
+                <td className="py-1 px-2 font-bold">{ERROR_CLASS_LABELS[e.errorClass]}</td>
+                <td className="py-1 px-1 text-right">{e.retried}</td>
+                <td className={`py-1 px-2 text-right ${e.failed > 0 ? 'text-red-600 font-bold' : ''}`}>{e.failed}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default MetricsPanel;
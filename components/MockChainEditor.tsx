@@ -0,0 +1,86 @@
+import React from 'react';
+import { FlaskConical } from 'lucide-react';
+import { MockChainConfig, MockErrorRates } from '../types';
+import { MOCK_FUNDER_BALANCE } from '../constants';
+
+interface MockChainEditorProps {
+  config: MockChainConfig;
+  disabled?: boolean;
+  onChange: (config: MockChainConfig) => void;
+}
+
+const inputClass = "w-full border-2 border-celo-black p-1 font-mono text-xs outline-none focus:bg-white disabled:opacity-50";
+
+const ERROR_LABELS: Record<keyof MockErrorRates, string> = {
+  rateLimited: 'Rate limited %',
+  nonceConflict: 'Nonce too low %',
+  reverted: 'Reverted %'
+};
+
+const NumberField: React.FC<{ label: string, value: number, min?: number, max?: number, disabled?: boolean, onChange: (v: number) => void }> = ({ label, value, min = 0, max, disabled, onChange }) => (
+  <div>
+    <label className="block text-[10px] font-bold uppercase mb-1">{label}</label>
+    <input
+      type="number"
+      min={min}
+      max={max}
+      className={inputClass}
+      value={value}
+      disabled={disabled}
+      onChange={e => {
+        const v = Math.max(min, parseFloat(e.target.value) || 0);
+        onChange(max !== undefined ? Math.min(max, v) : v);
+      }}
+    />
+  </div>
+);
+
+// Settings of the offline mock chain; applied to the running chain without resetting its state
+const MockChainEditor: React.FC<MockChainEditorProps> = ({ config, disabled, onChange }) => {
+  const update = (patch: Partial<MockChainConfig>) => onChange({ ...config, ...patch });
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-xs font-bold uppercase flex items-center gap-2">
+        Mock Chain <FlaskConical className="w-3 h-3" />
+      </label>
+
+      <div className="grid grid-cols-3 gap-2">
+        <NumberField label="Block time ms" value={config.blockTimeMs} disabled={disabled} onChange={v => update({ blockTimeMs: Math.round(v) })} />
+        <NumberField label="Block gas" min={21000} value={config.blockGasLimit} disabled={disabled} onChange={v => update({ blockGasLimit: Math.round(v) })} />
+        <div>
+          <label className="block text-[10px] font-bold uppercase mb-1">Base fee gwei</label>
+          <input
+            type="text"
+            inputMode="decimal"
+            className={inputClass}
+            value={config.baseFeeGwei}
+            disabled={disabled}
+            onChange={e => /^(\d+\.?\d*|\.\d+)?$/.test(e.target.value) && update({ baseFeeGwei: e.target.value || '0' })}
+          />
+        </div>
+        <NumberField label="Latency min ms" value={config.latencyMs.min} disabled={disabled}
+          onChange={v => update({ latencyMs: { min: v, max: Math.max(v, config.latencyMs.max) } })} />
+        <NumberField label="Latency max ms" value={config.latencyMs.max} disabled={disabled}
+          onChange={v => update({ latencyMs: { min: Math.min(v, config.latencyMs.min), max: v } })} />
+        <NumberField label="Seed" value={config.seed} disabled={disabled} onChange={v => update({ seed: Math.round(v) })} />
+        {(Object.keys(ERROR_LABELS) as (keyof MockErrorRates)[]).map(kind => (
+          <NumberField
+            key={kind}
+            label={ERROR_LABELS[kind]}
+            max={100}
+            value={Math.round(config.errorRates[kind] * 1000) / 10}
+            disabled={disabled}
+            onChange={v => update({ errorRates: { ...config.errorRates, [kind]: v / 100 } })}
+          />
+        ))}
+      </div>
+
+      <div className="text-[10px] font-mono opacity-60">
+        Runs in the browser with no RPC. The funder key starts with {MOCK_FUNDER_BALANCE} CELO; errors are injected per sent tx.
+      </div>
+    </div>
+  );
+};
+
+export default MockChainEditor;
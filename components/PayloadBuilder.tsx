@@ -0,0 +1,237 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { FileJson, Hammer, ListPlus, X } from 'lucide-react';
+import { LogType, PayloadTemplate } from '../types';
+import { MOCK_ABI_ERC20 } from '../constants';
+import { decodeCalldata, encodeCall, listFunctions, parseAbi, validateArg } from '../services/abiService';
+import { TEMPLATE_PLACEHOLDERS, compileTemplate, hasPlaceholders, parseTemplateList } from '../services/payloadTemplate';
+
+interface PayloadBuilderProps {
+  abiText: string;
+  calldata: string;
+  template: PayloadTemplate | null;
+  lists: Record<string, string[]>;
+  onAbiTextChange: (text: string) => void;
+  onCalldataChange: (hex: string) => void;
+  onTemplateChange: (template: PayloadTemplate | null) => void;
+  onListsChange: (lists: Record<string, string[]>) => void;
+  log: (message: string, type: LogType) => void;
+}
+
+// Stand-in values for previewing a template before any fleet exists
+const SAMPLE_FLEET = ['0x000000000000000000000000000000000000dEaD', '0x000000000000000000000000000000000000bEEF'];
+const SAMPLE_CONTEXT = { sender: SAMPLE_FLEET[0], walletIndex: 0, txIndex: 0, seq: 0, nonce: 0 };
+
+const PayloadBuilder: React.FC<PayloadBuilderProps> = ({
+  abiText, calldata, template, lists, onAbiTextChange, onCalldataChange, onTemplateChange, onListsChange, log
+}) => {
+  const [signature, setSignature] = useState('');
+  const [args, setArgs] = useState<string[]>([]);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLInputElement>(null);
+
+  const parsed = useMemo(() => {
+    if (!abiText.trim()) return { iface: null, error: null };
+    try {
+      return { iface: parseAbi(abiText), error: null };
+    } catch (e) {
+      return { iface: null, error: (e as Error).message };
+    }
+  }, [abiText]);
+
+  const functions = useMemo(() => parsed.iface ? listFunctions(parsed.iface) : [], [parsed.iface]);
+  const fragment = parsed.iface && signature ? parsed.iface.getFunction(signature) : null;
+
+  // Keep the selection valid when the ABI changes
+  useEffect(() => {
+    if (!functions.find(f => f.signature === signature)) {
+      setSignature(functions[0]?.signature || '');
+    }
+  }, [functions]);
+
+  useEffect(() => {
+    setArgs(fragment ? fragment.inputs.map(() => '') : []);
+  }, [signature, parsed.iface]);
+
+  // Templated args are checked when rendered, not here
+  const argErrors = fragment ? fragment.inputs.map((param, i) => args[i] && !hasPlaceholders(args[i]) ? validateArg(param, args[i]) : null) : [];
+  const decoded = parsed.iface && calldata ? decodeCalldata(parsed.iface, calldata) : null;
+
+  const handleEncode = () => {
+    if (!parsed.iface || !signature) return;
+    try {
+      if (args.some(hasPlaceholders)) {
+        const next: PayloadTemplate = { kind: 'abi', abiText, signature, args: [...args] };
+        const sample = compileTemplate(next, SAMPLE_FLEET, lists).render(SAMPLE_CONTEXT);
+        onTemplateChange(next);
+        onCalldataChange(sample);
+        log(`Payload template set: ${signature}(${args.join(', ')}). Resolved per transaction.`, LogType.SUCCESS);
+        return;
+      }
+      const hex = encodeCall(parsed.iface, signature, args);
+      onTemplateChange(null);
+      onCalldataChange(hex);
+      log(`Payload encoded: ${signature}`, LogType.SUCCESS);
+    } catch (e) {
+      log(`Encoding failed: ${(e as Error).message}`, LogType.ERROR);
+    }
+  };
+
+  const handleListFile = async (file: File) => {
+    const name = file.name.replace(/\.[^.]+$/, '').replace(/[^a-zA-Z0-9_-]/g, '_');
+    const values = parseTemplateList(await file.text());
+    onListsChange({ ...lists, [name]: values });
+    log(`Loaded list "${name}" with ${values.length} values. Use {{list:${name}}} or {{listRandom:${name}}}.`, LogType.SUCCESS);
+    if (listRef.current) listRef.current.value = '';
+  };
+
+  const handleFile = async (file: File) => {
+    onAbiTextChange(await file.text());
+    if (fileRef.current) fileRef.current.value = '';
+  };
+
+  return (
+    <div className="space-y-3 font-mono text-xs">
+      <div className="relative">
+        <textarea
+          className="w-full h-24 border-2 border-celo-black p-2 pr-20 outline-none focus:shadow-brutal-sm resize-none"
+          placeholder="Paste ABI JSON, artifact, or fragments (one per line)"
+          value={abiText}
+          onChange={e => onAbiTextChange(e.target.value)}
+        />
+        <div className="absolute right-2 top-2 flex flex-col gap-1">
+          <button
+            onClick={() => onAbiTextChange(MOCK_ABI_ERC20.join('\n'))}
+            className="bg-white border-2 border-celo-black px-2 py-0.5 text-[10px] font-bold uppercase hover:shadow-brutal-sm transition-all"
+          >
+            ERC-20
+          </button>
+          <button
+            onClick={() => fileRef.current?.click()}
+            className="bg-white border-2 border-celo-black px-2 py-0.5 text-[10px] font-bold uppercase hover:shadow-brutal-sm transition-all flex items-center gap-1"
+          >
+            <FileJson className="w-3 h-3" /> Load
+          </button>
+        </div>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".json,.txt,application/json"
+          className="hidden"
+          onChange={e => e.target.files?.[0] && handleFile(e.target.files[0])}
+        />
+      </div>
+      {parsed.error && <div className="text-red-600">ABI error: {parsed.error}</div>}
+
+      {functions.length > 0 && (
+        <>
+          <select
+            className="w-full border-2 border-celo-black p-2 bg-white outline-none"
+            value={signature}
+            onChange={e => setSignature(e.target.value)}
+          >
+            {functions.map(f => (
+              <option key={f.signature} value={f.signature}>{f.signature}{f.stateMutability === 'view' || f.stateMutability === 'pure' ? ' [view]' : ''}</option>
+            ))}
+          </select>
+
+          {fragment && fragment.inputs.map((param, i) => (
+            <div key={`${signature}-${i}`}>
+              <label className="block text-[10px] font-bold uppercase mb-1">
+                {param.name || `arg${i}`} <span className="opacity-60 normal-case">{param.format('sighash')}</span>
+              </label>
+              <input
+                type="text"
+                className={`w-full border-2 border-celo-black p-2 outline-none focus:shadow-brutal-sm ${argErrors[i] ? 'bg-red-50' : 'bg-white'}`}
+                placeholder={param.isArray() || param.isTuple() ? 'JSON' : param.baseType}
+                value={args[i] ?? ''}
+                onChange={e => setArgs(prev => prev.map((v, k) => k === i ? e.target.value : v))}
+              />
+              {argErrors[i] && <div className="text-red-600 text-[10px] mt-0.5">{argErrors[i]}</div>}
+            </div>
+          ))}
+
+          <button
+            onClick={handleEncode}
+            className="w-full bg-white border-2 border-celo-black py-2 font-bold uppercase hover:translate-x-[2px] hover:translate-y-[2px] hover:shadow-none shadow-brutal-sm transition-all flex items-center justify-center gap-2"
+          >
+            <Hammer className="w-4 h-4" /> Encode Calldata
+          </button>
+        </>
+      )}
+
+      <div>
+        <label className="block text-[10px] font-bold uppercase mb-1">Calldata (hex)</label>
+        {template ? (
+          <div className="bg-white border-2 border-celo-black p-2 text-[10px] break-all">
+            <div className="flex justify-between items-center mb-1">
+              <span className="bg-celo-black text-white px-1">TEMPLATE</span>
+              <button onClick={() => onTemplateChange(null)} title="Clear template" className="hover:text-red-500">
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+            {template.kind === 'abi' ? `${template.signature}(${template.args.join(', ')})` : template.data}
+            <div className="opacity-60 mt-1">Sample: {calldata}</div>
+          </div>
+        ) : (
+          <textarea
+            className="w-full h-16 border-2 border-celo-black p-2 outline-none focus:shadow-brutal-sm resize-none break-all text-[10px]"
+            placeholder="0x (placeholders such as {{sender}} are spliced in as 32-byte words)"
+            value={calldata}
+            onChange={e => onCalldataChange(e.target.value.trim())}
+          />
+        )}
+        {!template && calldata && calldata !== '0x' && !hasPlaceholders(calldata) && parsed.iface && (
+          decoded ? (
+            <div className="bg-white border-2 border-celo-black p-2 text-[10px] break-all">
+              <span className="bg-celo-black text-white px-1 mr-2">DECODED</span>
+              {decoded.signature}
+              {decoded.args.map(arg => (
+                <div key={arg.name} className="ml-2">{arg.name} ({arg.type}): {arg.value}</div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-orange-600 text-[10px]">Selector {calldata.slice(0, 10)} not found in ABI</div>
+          )
+        )}
+      </div>
+
+      <div className="border-t-2 border-dashed border-celo-black pt-2 space-y-1">
+        <div className="flex justify-between items-center">
+          <span className="text-[10px] font-bold uppercase">Template Lists</span>
+          <button
+            onClick={() => listRef.current?.click()}
+            className="bg-white border-2 border-celo-black px-2 py-0.5 text-[10px] font-bold uppercase hover:shadow-brutal-sm transition-all flex items-center gap-1"
+          >
+            <ListPlus className="w-3 h-3" /> Upload
+          </button>
+          <input
+            ref={listRef}
+            type="file"
+            accept=".txt,.csv"
+            className="hidden"
+            onChange={e => e.target.files?.[0] && handleListFile(e.target.files[0])}
+          />
+        </div>
+        {Object.entries(lists).map(([name, values]: [string, string[]]) => (
+          <div key={name} className="flex justify-between text-[10px]">
+            <span>{name} ({values.length})</span>
+            <button
+              onClick={() => {
+                const { [name]: _, ...rest } = lists;
+                onListsChange(rest);
+              }}
+              className="hover:text-red-500"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+        <div className="text-[10px] opacity-60 break-words">
+          Placeholders: {TEMPLATE_PLACEHOLDERS.join(' ')}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PayloadBuilder;
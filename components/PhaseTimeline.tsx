@@ -0,0 +1,64 @@
+import React from 'react';
+import { Ban, CircleCheck, CircleDashed, CircleMinus, CircleX, LoaderCircle, RotateCcw } from 'lucide-react';
+import { PhaseState, PhaseStatus } from '../types';
+import { PHASE_LABELS } from '../services/pipeline';
+
+interface PhaseTimelineProps {
+  phases: PhaseState[];
+  canRerun: boolean;
+  onRerun: () => void;
+}
+
+const STATUS_STYLE: Record<PhaseStatus, { className: string, icon: React.ReactNode }> = {
+  pending: { className: 'bg-white', icon: <CircleDashed className="w-3 h-3" /> },
+  running: { className: 'bg-celo-blue', icon: <LoaderCircle className="w-3 h-3 animate-spin" /> },
+  passed: { className: 'bg-celo-green', icon: <CircleCheck className="w-3 h-3" /> },
+  failed: { className: 'bg-red-400', icon: <CircleX className="w-3 h-3" /> },
+  skipped: { className: 'bg-gray-200 opacity-60', icon: <CircleMinus className="w-3 h-3" /> },
+  aborted: { className: 'bg-celo-orange', icon: <Ban className="w-3 h-3" /> }
+};
+
+const duration = (phase: PhaseState) => {
+  if (!phase.startedAt) return '';
+  const ms = (phase.endedAt ?? Date.now()) - phase.startedAt;
+  return ms < 60000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+};
+
+// Progress of the last pipeline run, one step per phase
+const PhaseTimeline: React.FC<PhaseTimelineProps> = ({ phases, canRerun, onRerun }) => (
+  <div className="border-2 border-celo-black bg-white shadow-brutal p-3">
+    <div className="flex justify-between items-center mb-2">
+      <span className="font-bold text-xs uppercase tracking-wider">Pipeline</span>
+      <button
+        onClick={onRerun}
+        disabled={!canRerun}
+        className="border-2 border-celo-black bg-white px-2 py-0.5 font-mono text-xs font-bold uppercase hover:shadow-brutal-sm transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+      >
+        <RotateCcw className="w-3 h-3" /> Re-run
+      </button>
+    </div>
+    <div className="flex gap-1 overflow-x-auto">
+      {phases.map((phase, i) => {
+        const style = STATUS_STYLE[phase.status];
+        return (
+          <div
+            key={`${phase.kind}-${i}`}
+            className={`flex-1 min-w-[90px] border-2 border-celo-black px-2 py-1 font-mono text-[10px] ${style.className}`}
+            title={phase.detail}
+          >
+            <div className="flex items-center gap-1 font-bold uppercase">
+              {style.icon} {PHASE_LABELS[phase.kind]}
+            </div>
+            <div className="flex justify-between opacity-80">
+              <span>{phase.status}</span>
+              <span>{duration(phase)}</span>
+            </div>
+            {phase.detail && <div className="truncate">{phase.detail}</div>}
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
+
+export default PhaseTimeline;
@@ -0,0 +1,170 @@
+import React from 'react';
+import { Workflow } from 'lucide-react';
+import { PipelinePhase } from '../types';
+import { PHASE_LABELS } from '../services/pipeline';
+
+interface PipelineEditorProps {
+  phases: PipelinePhase[];
+  disabled?: boolean;
+  onChange: (phases: PipelinePhase[]) => void;
+}
+
+const cellInput = "w-full border-2 border-celo-black p-1 font-mono text-xs outline-none focus:bg-white disabled:opacity-50";
+
+// Which phases run, what counts as passing, and the per-phase knobs (warm-up shape, token amounts)
+const PipelineEditor: React.FC<PipelineEditorProps> = ({ phases, disabled, onChange }) => {
+  const update = (index: number, patch: Partial<PipelinePhase>) =>
+    onChange(phases.map((phase, i) => i === index ? { ...phase, ...patch } : phase));
+
+  const settings = (phase: PipelinePhase, i: number) => {
+    const off = disabled || !phase.enabled;
+    switch (phase.kind) {
+      case 'warmup':
+      case 'cooldown':
+        return (
+          <div className="flex gap-1 items-center">
+            <input
+              type="number"
+              min={1}
+              className={cellInput}
+              title="Tx per wallet"
+              value={phase.txPerWallet ?? 1}
+              disabled={off}
+              onChange={e => update(i, { txPerWallet: Math.max(1, parseInt(e.target.value) || 1) })}
+            />
+            <span className="whitespace-nowrap">tx @</span>
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              className={cellInput}
+              title="Tx per second across the fleet; 0 for a burst"
+              value={phase.loadProfile?.kind === 'constant' ? phase.loadProfile.rate : 0}
+              disabled={off}
+              onChange={e => {
+                const rate = Math.max(0, parseFloat(e.target.value) || 0);
+                update(i, { loadProfile: rate > 0 ? { kind: 'constant', rate } : { kind: 'burst' } });
+              }}
+            />
+            <span>/s</span>
+          </div>
+        );
+      case 'tokenSetup':
+        return (
+          <input
+            type="text"
+            inputMode="decimal"
+            className={cellInput}
+            placeholder="Token per wallet"
+            value={phase.amount ?? ''}
+            disabled={off}
+            onChange={e => update(i, { amount: e.target.value.trim() })}
+          />
+        );
+      case 'approvals':
+        return (
+          <div className="flex gap-1">
+            <input
+              type="text"
+              className={cellInput}
+              placeholder="Spender 0x..."
+              value={phase.spender ?? ''}
+              disabled={off}
+              onChange={e => update(i, { spender: e.target.value.trim() })}
+            />
+            <input
+              type="text"
+              inputMode="decimal"
+              className={`${cellInput} w-16`}
+              placeholder="max"
+              value={phase.amount ?? ''}
+              disabled={off}
+              onChange={e => update(i, { amount: e.target.value.trim() })}
+            />
+          </div>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div>
+      <label className="block text-xs font-bold uppercase mb-2 flex items-center gap-2">
+        Pipeline <Workflow className="w-3 h-3" />
+      </label>
+      <table className="w-full text-left font-mono text-xs">
+        <thead>
+          <tr className="border-b-2 border-celo-black">
+            <th className="py-1 pr-2">Phase</th>
+            <th className="py-1 px-1 w-14" title="Share of wallets or txs that must succeed">Min %</th>
+            <th className="py-1 px-1 w-16" title="Swarm phases: fail when p90 inclusion is slower (0 = off)">p90 ms</th>
+            <th className="py-1 px-1 w-10" title="Stop the pipeline when this phase fails">Stop</th>
+            <th className="py-1 pl-1">Settings</th>
+          </tr>
+        </thead>
+        <tbody>
+          {phases.map((phase, i) => {
+            const swarm = phase.kind === 'warmup' || phase.kind === 'load' || phase.kind === 'cooldown';
+            return (
+              <tr key={phase.kind} className={`border-b border-gray-300 ${phase.enabled ? '' : 'opacity-50'}`}>
+                <td className="py-1 pr-2 font-bold whitespace-nowrap">
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      className="accent-celo-black"
+                      checked={phase.enabled}
+                      disabled={disabled}
+                      onChange={e => update(i, { enabled: e.target.checked })}
+                    />
+                    {PHASE_LABELS[phase.kind]}
+                  </label>
+                </td>
+                <td className="py-1 px-1">
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    className={cellInput}
+                    value={Math.round(phase.minSuccessRate * 1000) / 10}
+                    disabled={disabled || !phase.enabled}
+                    onChange={e => update(i, { minSuccessRate: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) / 100 })}
+                  />
+                </td>
+                <td className="py-1 px-1">
+                  {swarm && (
+                    <input
+                      type="number"
+                      min={0}
+                      step={500}
+                      className={cellInput}
+                      value={phase.maxInclusionP90Ms ?? 0}
+                      disabled={disabled || !phase.enabled}
+                      onChange={e => update(i, { maxInclusionP90Ms: Math.max(0, parseInt(e.target.value) || 0) || undefined })}
+                    />
+                  )}
+                </td>
+                <td className="py-1 px-1 text-center">
+                  <input
+                    type="checkbox"
+                    className="accent-celo-black"
+                    checked={phase.stopOnFailure}
+                    disabled={disabled || !phase.enabled || phase.kind === 'sweep'}
+                    onChange={e => update(i, { stopOnFailure: e.target.checked })}
+                  />
+                </td>
+                <td className="py-1 pl-1">{settings(phase, i)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <div className="text-[10px] font-mono opacity-60 mt-2">
+        Fleet and funding use the settings above; swarm phases run the workload mix, the load phase with the full quota and load shape.
+        Sweep runs even after a stop or abort so funds are not left behind.
+      </div>
+    </div>
+  );
+};
+
+export default PipelineEditor;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { ErrorClass, RetryPolicies, RetryPolicy } from '../types';
+import { ERROR_CLASSES, ERROR_CLASS_LABELS } from '../services/errorClassifier';
+
+interface RetryPolicyEditorProps {
+  policies: RetryPolicies;
+  disabled?: boolean;
+  onChange: (policies: RetryPolicies) => void;
+}
+
+const cellInput = "w-full border-2 border-celo-black p-1 font-mono text-xs outline-none focus:bg-white disabled:opacity-50";
+
+const RetryPolicyEditor: React.FC<RetryPolicyEditorProps> = ({ policies, disabled, onChange }) => {
+  const update = (errorClass: ErrorClass, patch: Partial<RetryPolicy>) =>
+    onChange({ ...policies, [errorClass]: { ...policies[errorClass], ...patch } });
+
+  return (
+    <div>
+      <label className="block text-xs font-bold uppercase mb-2">Retry Policies</label>
+      <table className="w-full text-left font-mono text-xs">
+        <thead>
+          <tr className="border-b-2 border-celo-black">
+            <th className="py-1 pr-2">Error</th>
+            <th className="py-1 px-1 w-16">Retries</th>
+            <th className="py-1 px-1 w-20">Backoff ms</th>
+            <th className="py-1 pl-1 w-14">x</th>
+          </tr>
+        </thead>
+        <tbody>
+          {ERROR_CLASSES.map(errorClass => {
+            const policy = policies[errorClass];
+            return (
+              <tr key={errorClass} className="border-b border-gray-300">
+                <td className="py-1 pr-2 font-bold">{ERROR_CLASS_LABELS[errorClass]}</td>
+                <td className="py-1 px-1">
+                  <input
+                    type="number"
+                    min={0}
+                    max={20}
+                    className={cellInput}
+                    value={policy.maxRetries}
+                    disabled={disabled}
+                    onChange={e => update(errorClass, { maxRetries: Math.max(0, parseInt(e.target.value) || 0) })}
+                  />
+                </td>
+                <td className="py-1 px-1">
+                  <input
+                    type="number"
+                    min={0}
+                    step={100}
+                    className={cellInput}
+                    value={policy.backoffMs}
+                    disabled={disabled || policy.maxRetries === 0}
+                    onChange={e => update(errorClass, { backoffMs: Math.max(0, parseInt(e.target.value) || 0) })}
+                  />
+                </td>
+                <td className="py-1 pl-1">
+                  <input
+                    type="number"
+                    min={1}
+                    step={0.5}
+                    className={cellInput}
+                    value={policy.backoffMultiplier}
+                    disabled={disabled || policy.maxRetries === 0}
+                    onChange={e => update(errorClass, { backoffMultiplier: Math.max(1, parseFloat(e.target.value) || 1) })}
+                  />
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <div className="text-[10px] font-mono opacity-60 mt-2">
+        Backoff grows by the multiplier on each retry. Reverts and insufficient funds fail the same way twice, so they default to no retries.
+      </div>
+    </div>
+  );
+};
+
+export default RetryPolicyEditor;
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { RpcBalancing, RpcEndpoint } from '../types';
+
+// The network's own RPC stays in the pool; these are the endpoints added next to it
+export interface RpcPoolSettings {
+  primaryWeight: number;
+  extra: RpcEndpoint[];
+  balancing: RpcBalancing;
+}
+
+interface RpcPoolEditorProps {
+  primaryUrl: string;
+  settings: RpcPoolSettings;
+  disabled?: boolean;
+  onChange: (settings: RpcPoolSettings) => void;
+}
+
+const inputClass = "border-2 border-celo-black p-1 font-mono text-xs outline-none focus:bg-white disabled:opacity-50";
+
+const WeightInput: React.FC<{ value: number, disabled?: boolean, onChange: (v: number) => void }> = ({ value, disabled, onChange }) => (
+  <input
+    type="number"
+    min={0}
+    className={`${inputClass} w-14`}
+    title="Weight"
+    value={value}
+    disabled={disabled}
+    onChange={e => onChange(Math.max(0, parseFloat(e.target.value) || 0))}
+  />
+);
+
+const RpcPoolEditor: React.FC<RpcPoolEditorProps> = ({ primaryUrl, settings, disabled, onChange }) => {
+  const [newUrl, setNewUrl] = useState('');
+  const { primaryWeight, extra, balancing } = settings;
+
+  const addEndpoint = () => {
+    const url = newUrl.trim();
+    if (!/^https?:\/\//.test(url) || url === primaryUrl || extra.some(e => e.url === url)) return;
+    onChange({ ...settings, extra: [...extra, { url, weight: 1 }] });
+    setNewUrl('');
+  };
+
+  const updateExtra = (index: number, patch: Partial<RpcEndpoint>) =>
+    onChange({ ...settings, extra: extra.map((e, i) => i === index ? { ...e, ...patch } : e) });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <label className="block text-xs font-bold uppercase">RPC Pool</label>
+        {extra.length > 0 && (
+          <select
+            className={inputClass}
+            value={balancing}
+            disabled={disabled}
+            onChange={e => onChange({ ...settings, balancing: e.target.value as RpcBalancing })}
+          >
+            <option value="roundRobin">Weighted round-robin</option>
+            <option value="leastLatency">Least latency</option>
+          </select>
+        )}
+      </div>
+
+      <div className="flex gap-2 items-center">
+        <div className="flex-1 font-mono text-xs truncate opacity-70" title={primaryUrl}>{primaryUrl}</div>
+        {extra.length > 0 && <WeightInput value={primaryWeight} disabled={disabled} onChange={w => onChange({ ...settings, primaryWeight: w })} />}
+        <span className="w-5" />
+      </div>
+      {extra.map((endpoint, i) => (
+        <div key={endpoint.url} className="flex gap-2 items-center">
+          <div className="flex-1 font-mono text-xs truncate" title={endpoint.url}>{endpoint.url}</div>
+          <WeightInput value={endpoint.weight} disabled={disabled} onChange={weight => updateExtra(i, { weight })} />
+          <button
+            className="w-5 hover:text-red-500 disabled:opacity-50"
+            disabled={disabled}
+            title="Remove endpoint"
+            onClick={() => onChange({ ...settings, extra: extra.filter((_, j) => j !== i) })}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          className={`${inputClass} flex-1`}
+          placeholder="https://another-rpc.example"
+          value={newUrl}
+          disabled={disabled}
+          onChange={e => setNewUrl(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && addEndpoint()}
+        />
+        <button className={`${inputClass} bg-white flex items-center gap-1 font-bold`} disabled={disabled} onClick={addEndpoint}>
+          <Plus className="w-3 h-3" /> Add
+        </button>
+      </div>
+
+      <div className="text-[10px] font-mono opacity-60">
+        {extra.length > 0
+          ? 'Endpoints failing 3 requests in a row are benched for 15s; their requests fail over to the rest.'
+          : 'Add endpoints so the swarm isn\'t limited by one provider\'s rate limits.'}
+      </div>
+    </div>
+  );
+};
+
+export default RpcPoolEditor;
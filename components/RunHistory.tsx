@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { FileJson, FileText, Pencil, Trash2 } from 'lucide-react';
+import { LogType, RunReport, RunReportMeta } from '../types';
+import { deleteRunReport, listRunReports, loadRunReport, renameRunReport } from '../services/runHistory';
+import { compareReports, reportToHtml, reportToJson } from '../services/runReport';
+
+interface RunHistoryProps {
+  refreshKey: number; // Bumped by the app after each saved run
+  log: (message: string, type: LogType) => void;
+}
+
+const download = (content: string, type: string, filename: string) => {
+  const link = document.createElement("a");
+  link.setAttribute("href", URL.createObjectURL(new Blob([content], { type })));
+  link.setAttribute("download", filename);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+const TREND_CLASS = { better: 'text-green-600 font-bold', worse: 'text-red-600 font-bold', same: 'text-gray-400', na: 'text-gray-400' };
+
+const RunHistory: React.FC<RunHistoryProps> = ({ refreshKey, log }) => {
+  const [runs, setRuns] = useState<RunReportMeta[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [compared, setCompared] = useState<[RunReport, RunReport] | null>(null);
+
+  useEffect(() => {
+    listRunReports()
+      .then(setRuns)
+      .catch(e => console.warn("Run history unavailable", e));
+  }, [refreshKey]);
+
+  // Older selection first, so the comparison reads "before -> after"
+  useEffect(() => {
+    if (selected.length !== 2) {
+      setCompared(null);
+      return;
+    }
+    Promise.all(selected.map(loadRunReport))
+      .then(([a, b]) => setCompared(a.startedAt <= b.startedAt ? [a, b] : [b, a]))
+      .catch(e => log(`Could not load runs: ${(e as Error).message}`, LogType.ERROR));
+  }, [selected]);
+
+  const toggle = (id: string) => setSelected(prev =>
+    prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id].slice(-2)
+  );
+
+  const handleExport = async (id: string, format: 'json' | 'html') => {
+    try {
+      const report = await loadRunReport(id);
+      const filename = `celoship_run_${report.startedAt}.${format}`;
+      if (format === 'json') download(reportToJson(report), 'application/json', filename);
+      else download(reportToHtml(report), 'text/html', filename);
+      log(`Exported "${report.label}" as ${format.toUpperCase()}.`, LogType.SUCCESS);
+    } catch (e) {
+      log(`Export failed: ${(e as Error).message}`, LogType.ERROR);
+    }
+  };
+
+  const handleRename = async (run: RunReportMeta) => {
+    const label = window.prompt("Run label", run.label)?.trim();
+    if (!label || label === run.label) return;
+    await renameRunReport(run.id, label);
+    setRuns(prev => prev.map(r => r.id === run.id ? { ...r, label } : r));
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteRunReport(id);
+    setRuns(prev => prev.filter(r => r.id !== id));
+    setSelected(prev => prev.filter(x => x !== id));
+  };
+
+  if (runs.length === 0) {
+    return (
+      <div className="py-8 text-center text-gray-500 font-mono text-sm border-2 border-dashed border-gray-400 bg-white/50">
+        Finished swarms are saved here
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 font-mono text-xs">
+      <div className="max-h-[220px] overflow-y-auto custom-scrollbar bg-white border-2 border-celo-black">
+        <table className="w-full">
+          <tbody>
+            {runs.map(run => (
+              <tr key={run.id} className={`border-b border-gray-200 ${selected.includes(run.id) ? 'bg-celo-green/30' : ''}`}>
+                <td className="py-1 px-2 w-6">
+                  <input type="checkbox" className="accent-celo-black" checked={selected.includes(run.id)} onChange={() => toggle(run.id)} />
+                </td>
+                <td className="py-1 px-1">
+                  <div className="font-bold truncate max-w-[16rem]" title={run.label}>{run.label}</div>
+                  <div className="text-[10px] text-gray-500">
+                    {new Date(run.startedAt).toLocaleString()} &middot; {run.networkName} &middot; {((run.endedAt - run.startedAt) / 1000).toFixed(0)}s
+                  </div>
+                </td>
+                <td className="py-1 px-1 text-right whitespace-nowrap">
+                  {run.minedTx}/{run.totalTx} mined
+                  {run.aborted && <span className="ml-1 text-red-600 font-bold">ABORTED</span>}
+                </td>
+                <td className="py-1 px-2 text-right whitespace-nowrap">
+                  <button onClick={() => handleRename(run)} className="p-1 hover:bg-gray-100" title="Rename"><Pencil className="w-3 h-3" /></button>
+                  <button onClick={() => handleExport(run.id, 'json')} className="p-1 hover:bg-gray-100" title="Export JSON"><FileJson className="w-3 h-3" /></button>
+                  <button onClick={() => handleExport(run.id, 'html')} className="p-1 hover:bg-gray-100" title="Export HTML report"><FileText className="w-3 h-3" /></button>
+                  <button onClick={() => handleDelete(run.id)} className="p-1 hover:bg-red-100 hover:text-red-500" title="Delete"><Trash2 className="w-3 h-3" /></button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {compared ? (
+        <table className="w-full bg-white border-2 border-celo-black">
+          <thead>
+            <tr className="bg-celo-black text-white">
+              <th className="py-1 px-2 text-left">Metric</th>
+              <th className="py-1 px-1 text-right truncate max-w-[8rem]" title={compared[0].label}>{compared[0].label}</th>
+              <th className="py-1 px-1 text-right truncate max-w-[8rem]" title={compared[1].label}>{compared[1].label}</th>
+              <th className="py-1 px-2 text-right">Change</th>
+            </tr>
+          </thead>
+          <tbody>
+            {compareReports(compared[0], compared[1]).map(row => (
+              <tr key={row.label} className="border-b border-gray-200">
+                <td className="py-1 px-2 font-bold">{row.label}</td>
+                <td className="py-1 px-1 text-right">{row.a}</td>
+                <td className="py-1 px-1 text-right">{row.b}</td>
+                <td className={`py-1 px-2 text-right ${TREND_CLASS[row.trend]}`}>{row.delta}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <div className="text-[10px] opacity-60">Tick two runs to compare them side by side.</div>
+      )}
+    </div>
+  );
+};
+
+export default RunHistory;
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Coins } from 'lucide-react';
+import { FEE_CURRENCIES } from '../constants';
+import { TokenInfo } from '../types';
+
+interface TokenPanelProps {
+  networkId: string;
+  token: TokenInfo | null;
+  disabled?: boolean;
+  onSelect: (address: string) => void;
+  onDistribute: (amountPerWallet: string) => void;
+  onApprove: (spender: string, amount?: string) => void; // No amount approves the maximum
+  onAddStorm: (amountPerTx: string) => void;
+}
+
+const inputClass = "border-2 border-celo-black p-1 font-mono text-xs outline-none focus:bg-white disabled:opacity-50";
+const buttonClass = "border-2 border-celo-black bg-white px-2 py-1 font-mono text-xs font-bold hover:shadow-brutal-sm transition-all disabled:opacity-50 whitespace-nowrap";
+
+// Fleet preparation for ERC-20 workloads: pick a token, hand it out, set allowances
+const TokenPanel: React.FC<TokenPanelProps> = ({ networkId, token, disabled, onSelect, onDistribute, onApprove, onAddStorm }) => {
+  const [address, setAddress] = useState('');
+  const [amountPerWallet, setAmountPerWallet] = useState('10');
+  const [spender, setSpender] = useState('');
+  const [allowance, setAllowance] = useState('');
+  const [stormAmount, setStormAmount] = useState('0.01');
+  const presets = FEE_CURRENCIES[networkId] || [];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <label className="block text-xs font-bold uppercase flex items-center gap-2">
+          Fleet Token <Coins className="w-3 h-3" />
+        </label>
+        {token && (
+          <span className="text-xs font-mono font-bold bg-celo-black text-white px-2 py-0.5" title={token.address}>
+            {token.symbol} &middot; {token.decimals} dec
+          </span>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        {presets.map(p => (
+          <button key={p.symbol} className={buttonClass} disabled={disabled} onClick={() => { setAddress(p.address); onSelect(p.address); }}>
+            {p.symbol}
+          </button>
+        ))}
+        <input
+          type="text"
+          className={`${inputClass} flex-1 min-w-0`}
+          placeholder="ERC-20 address"
+          value={address}
+          disabled={disabled}
+          onChange={e => setAddress(e.target.value)}
+        />
+        <button className={buttonClass} disabled={disabled || !address.trim()} onClick={() => onSelect(address.trim())}>Load</button>
+      </div>
+
+      {token && (
+        <>
+          <div className="flex gap-2 items-center">
+            <input
+              type="text"
+              inputMode="decimal"
+              className={`${inputClass} w-20`}
+              value={amountPerWallet}
+              disabled={disabled}
+              onChange={e => setAmountPerWallet(e.target.value)}
+            />
+            <span className="font-mono text-xs flex-1">{token.symbol} per wallet from funder</span>
+            <button className={buttonClass} disabled={disabled} onClick={() => onDistribute(amountPerWallet.trim())}>Distribute</button>
+          </div>
+
+          <div className="flex gap-2 items-center">
+            <input
+              type="text"
+              className={`${inputClass} flex-1 min-w-0`}
+              placeholder="Spender contract"
+              value={spender}
+              disabled={disabled}
+              onChange={e => setSpender(e.target.value)}
+            />
+            <input
+              type="text"
+              inputMode="decimal"
+              className={`${inputClass} w-20`}
+              placeholder="Max"
+              title={`Allowance in ${token.symbol}; empty approves the maximum`}
+              value={allowance}
+              disabled={disabled}
+              onChange={e => setAllowance(e.target.value)}
+            />
+            <button className={buttonClass} disabled={disabled} onClick={() => onApprove(spender.trim(), allowance.trim() || undefined)}>Approve</button>
+          </div>
+
+          <div className="flex gap-2 items-center">
+            <input
+              type="text"
+              inputMode="decimal"
+              className={`${inputClass} w-20`}
+              value={stormAmount}
+              disabled={disabled}
+              onChange={e => setStormAmount(e.target.value)}
+            />
+            <span className="font-mono text-xs flex-1">{token.symbol} per transfer between fleet wallets</span>
+            <button className={buttonClass} disabled={disabled} onClick={() => onAddStorm(stormAmount.trim())}>+ Transfer storm</button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TokenPanel;
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { TokenInfo, WalletAccount } from '../types';
+import { WALLET_ROW_HEIGHT } from '../constants';
+
+interface WalletFleetListProps {
+  wallets: WalletAccount[];
+  token: TokenInfo | null;
+}
+
+const VIEWPORT_HEIGHT = 250;
+const OVERSCAN_ROWS = 6;
+
+const statusColor = (status: WalletAccount['status']) =>
+  status === 'done' ? 'bg-celo-green' :
+  status === 'error' ? 'bg-red-500' :
+  status === 'sending' ? 'bg-celo-orange animate-pulse' :
+  status === 'funding' ? 'bg-celo-purple animate-pulse' : 'bg-gray-300';
+
+// Windowed fleet list: only the rows in view (plus a few either side) are rendered,
+// so fleets of thousands of wallets scroll and update smoothly
+const WalletFleetList: React.FC<WalletFleetListProps> = ({ wallets, token }) => {
+  const [scrollTop, setScrollTop] = useState(0);
+  const first = Math.max(0, Math.floor(scrollTop / WALLET_ROW_HEIGHT) - OVERSCAN_ROWS);
+  const last = Math.min(wallets.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / WALLET_ROW_HEIGHT) + OVERSCAN_ROWS);
+
+  return (
+    <div
+      className="overflow-y-auto pr-2 custom-scrollbar"
+      style={{ height: Math.min(VIEWPORT_HEIGHT, wallets.length * WALLET_ROW_HEIGHT) }}
+      onScroll={e => setScrollTop(e.currentTarget.scrollTop)}
+    >
+      <div className="relative" style={{ height: wallets.length * WALLET_ROW_HEIGHT }}>
+        {wallets.slice(first, last).map((wallet, offset) => {
+          const idx = first + offset;
+          const nonce = wallet.nonceState;
+          return (
+            <div
+              key={idx}
+              className="absolute left-0 right-0 bg-white border-2 border-celo-black px-2 flex items-center gap-2 font-mono text-[10px]"
+              style={{ top: idx * WALLET_ROW_HEIGHT, height: WALLET_ROW_HEIGHT - 4 }}
+            >
+              <span className={`w-2.5 h-2.5 shrink-0 border border-celo-black ${statusColor(wallet.status)}`} title={wallet.status} />
+              <span className="font-bold text-xs w-12 shrink-0">W{idx + 1}</span>
+              <span className="text-gray-500 truncate flex-1 min-w-0">{wallet.address}</span>
+              <span className="font-bold shrink-0">{wallet.balance ? parseFloat(wallet.balance).toFixed(3) : '0'} CELO</span>
+              {token && wallet.tokenBalance !== undefined && (
+                <span className="shrink-0">{parseFloat(wallet.tokenBalance).toFixed(3)} {token.symbol}</span>
+              )}
+              <span className="font-bold text-gray-400 w-10 text-right shrink-0">{wallet.txCount} tx</span>
+              {nonce && (
+                <span
+                  className={`shrink-0 ${nonce.gaps > 0 ? 'text-red-500' : 'text-gray-400'}`}
+                  title={`Confirmed ${nonce.confirmed}, next ${nonce.next}, ${nonce.inFlight} in flight, ${nonce.gaps} gaps`}
+                >
+                  n{nonce.confirmed}/{nonce.next}{nonce.gaps > 0 ? ` gap ${nonce.gaps}` : ''}
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default WalletFleetList;
@@ -0,0 +1,107 @@
+import React from 'react';
+import { Layers, Plus, X } from 'lucide-react';
+import { WorkloadAction } from '../types';
+
+interface WorkloadMixProps {
+  actions: WorkloadAction[];
+  disabled?: boolean;
+  onChange: (actions: WorkloadAction[]) => void;
+  onAddCurrent: () => void; // Snapshot the current target, payload and gas limit as a new action
+}
+
+const describePayload = (action: WorkloadAction) => {
+  const { payload } = action;
+  if (payload.kind === 'abi') return `${payload.signature}(${payload.args.join(', ')})`;
+  if (payload.kind === 'deploy') return `deploy ${(payload.bytecode.length - 2) / 2} bytes(${payload.args.join(', ')})`;
+  return payload.data.length > 42 ? `${payload.data.slice(0, 42)}...` : payload.data;
+};
+
+const WorkloadMix: React.FC<WorkloadMixProps> = ({ actions, disabled, onChange, onAddCurrent }) => {
+  const totalWeight = actions.reduce((sum, a) => sum + a.weight, 0);
+
+  const update = (id: string, patch: Partial<WorkloadAction>) =>
+    onChange(actions.map(a => a.id === id ? { ...a, ...patch } : a));
+
+  return (
+    <div className="border-t-2 border-dashed border-celo-black pt-3 mt-4 space-y-2 font-mono text-xs">
+      <div className="flex justify-between items-center">
+        <span className="text-[10px] font-bold uppercase flex items-center gap-1">
+          <Layers className="w-3 h-3" /> Workload Mix
+        </span>
+        <button
+          onClick={onAddCurrent}
+          disabled={disabled}
+          className="bg-white border-2 border-celo-black px-2 py-0.5 text-[10px] font-bold uppercase hover:shadow-brutal-sm transition-all flex items-center gap-1 disabled:opacity-50"
+        >
+          <Plus className="w-3 h-3" /> Add Current Payload
+        </button>
+      </div>
+
+      {actions.length === 0 ? (
+        <div className="text-[10px] opacity-60">
+          Empty: every tx sends the payload above to the target. Add actions to mix several calls by weight.
+        </div>
+      ) : actions.map(action => (
+        <div key={action.id} className="bg-white border-2 border-celo-black p-2 space-y-1">
+          <div className="flex gap-2 items-center">
+            <input
+              type="text"
+              className="flex-1 border-b-2 border-celo-black outline-none font-bold"
+              value={action.name}
+              disabled={disabled}
+              onChange={e => update(action.id, { name: e.target.value })}
+            />
+            <span className="text-[10px] opacity-60 w-10 text-right">
+              {totalWeight > 0 ? `${((action.weight / totalWeight) * 100).toFixed(0)}%` : '-'}
+            </span>
+            <button
+              onClick={() => onChange(actions.filter(a => a.id !== action.id))}
+              disabled={disabled}
+              title="Remove action"
+              className="hover:text-red-500"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+          <div className="text-[10px] break-all opacity-70">{action.target || 'new contract per tx'}</div>
+          <div className="text-[10px] break-all opacity-70">{describePayload(action)}</div>
+          <div className="grid grid-cols-3 gap-2">
+            <label className="text-[10px] font-bold uppercase">
+              Weight
+              <input
+                type="number"
+                min={0}
+                className="w-full border-2 border-celo-black p-1 outline-none font-normal"
+                value={action.weight}
+                disabled={disabled}
+                onChange={e => update(action.id, { weight: Math.max(0, Number(e.target.value) || 0) })}
+              />
+            </label>
+            <label className="text-[10px] font-bold uppercase">
+              Value (CELO)
+              <input
+                type="text"
+                className="w-full border-2 border-celo-black p-1 outline-none font-normal"
+                value={action.value}
+                disabled={disabled}
+                onChange={e => update(action.id, { value: e.target.value.trim() })}
+              />
+            </label>
+            <label className="text-[10px] font-bold uppercase">
+              Gas Limit
+              <input
+                type="number"
+                className="w-full border-2 border-celo-black p-1 outline-none font-normal"
+                value={action.gasLimit}
+                disabled={disabled}
+                onChange={e => update(action.id, { gasLimit: Number(e.target.value) })}
+              />
+            </label>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default WorkloadMix;
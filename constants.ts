@@ -1,10 +1,173 @@
-export const CELO_RPC_URL = 'https://forno.celo.org';
-export const CELO_CHAIN_ID = 42220;
-export const EXPLORER_URL = 'https://celoscan.io';
+import { MockChainConfig, NetworkProfile, PipelinePhase, RetryPolicies } from './types';
+
+export const CELO_MAINNET_ID = 'celo-mainnet';
+export const CUSTOM_NETWORK_ID = 'custom';
+export const MOCK_NETWORK_ID = 'mock';
+
+export const DEFAULT_MOCK_CHAIN: MockChainConfig = {
+  blockTimeMs: 1000,
+  blockGasLimit: 30000000,
+  baseFeeGwei: '25',
+  latencyMs: { min: 20, max: 80 },
+  errorRates: { rateLimited: 0, nonceConflict: 0, reverted: 0 },
+  seed: 1
+};
+
+// An empty funder on the mock chain is topped up to this many CELO
+export const MOCK_FUNDER_BALANCE = '1000';
+export const MOCK_PRIORITY_FEE_GWEI = '1';
+export const MOCK_CONTRACT_CALL_GAS = 30000; // Execution gas charged on top of intrinsic gas for contract calls and deploys
+export const MOCK_DISPERSE_GAS_PER_RECIPIENT = 9000;
+
+export const NETWORK_PROFILES: NetworkProfile[] = [
+  {
+    id: CELO_MAINNET_ID,
+    name: 'Celo Mainnet',
+    rpcUrl: 'https://forno.celo.org',
+    wsUrl: 'wss://forno.celo.org/ws',
+    chainId: 42220,
+    explorerUrl: 'https://celoscan.io'
+  },
+  {
+    id: 'alfajores',
+    name: 'Alfajores',
+    rpcUrl: 'https://alfajores-forno.celo-testnet.org',
+    wsUrl: 'wss://alfajores-forno.celo-testnet.org/ws',
+    chainId: 44787,
+    explorerUrl: 'https://alfajores.celoscan.io'
+  },
+  {
+    id: 'baklava',
+    name: 'Baklava',
+    rpcUrl: 'https://baklava-forno.celo-testnet.org',
+    wsUrl: 'wss://baklava-forno.celo-testnet.org/ws',
+    chainId: 62320,
+    explorerUrl: 'https://explorer.celo.org/baklava'
+  },
+  {
+    id: MOCK_NETWORK_ID,
+    name: 'Mock Chain (offline)',
+    rpcUrl: 'mock://local',
+    chainId: 1337,
+    explorerUrl: '',
+    mock: DEFAULT_MOCK_CHAIN
+  }
+];
+
+// Defaults for the custom profile point at a local anvil / hardhat node
+export const DEFAULT_CUSTOM_RPC_URL = 'http://127.0.0.1:8545';
+export const DEFAULT_CUSTOM_CHAIN_ID = 31337;
+
+// BIP-44 base path for Celo (coin type 52752); wallet i lives at `${base}/${i}`
+export const DEFAULT_HD_BASE_PATH = "m/44'/52752'/0'/0";
 
 export const INITIAL_LOG: string = "System initialized. Waiting for configuration...";
 
 export const MOCK_ABI_ERC20 = [
   "function transfer(address to, uint amount) returns (bool)",
-  "function approve(address spender, uint amount) returns (bool)"
+  "function approve(address spender, uint amount) returns (bool)",
+  "function transferFrom(address from, address to, uint amount) returns (bool)",
+  "function balanceOf(address owner) view returns (uint)",
+  "function allowance(address owner, address spender) view returns (uint)",
+  "function decimals() view returns (uint8)",
+  "function symbol() view returns (string)"
 ];
+
+// Template list that a deploy run's contract addresses are saved under
+export const DEPLOYED_LIST_NAME = 'deployed';
+
+// Token transfer storm: covers a first-time recipient balance slot on cUSD-style proxies
+export const TOKEN_TRANSFER_GAS_LIMIT = 100000;
+
+// Fleet funding helper, see contracts/Disperse.sol
+export const DISPERSE_ABI = [
+  "function disperseEther(address[] recipients, uint256[] values) payable",
+  "function disperseToken(address token, address[] recipients, uint256[] values)"
+];
+
+export const DISPERSE_BYTECODE = "0x6080604052348015600f57600080fd5b506105798061001f6000396000f3fe6080604052600436106100295760003560e01c8063c73a2d601461002e578063e63d38ed14610050575b600080fd5b34801561003a57600080fd5b5061004e6100493660046103ee565b610063565b005b61004e61005e366004610476565b6101cb565b8281146100a95760405162461bcd60e51b815260206004820152600f60248201526e0d8cadccee8d040dad2e6dac2e8c6d608b1b60448201526064015b60405180910390fd5b60005b838110156101c357856001600160a01b03166323b872dd338787858181106100d6576100d66104e7565b90506020020160208101906100eb91906104fd565b8686868181106100fd576100fd6104e7565b6040516001600160e01b031960e088901b1681526001600160a01b039586166004820152949093166024850152506020909102013560448201526064016020604051808303816000875af1158015610159573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061017d9190610521565b6101bb5760405162461bcd60e51b815260206004820152600f60248201526e1d1c985b9cd9995c8819985a5b1959608a1b60448201526064016100a0565b6001016100ac565b505050505050565b82811461020c5760405162461bcd60e51b815260206004820152600f60248201526e0d8cadccee8d040dad2e6dac2e8c6d608b1b60448201526064016100a0565b60005b838110156102f357600085858381811061022b5761022b6104e7565b905060200201602081019061024091906104fd565b6001600160a01b031684848481811061025b5761025b6104e7565b9050602002013560405160006040518083038185875af1925050503d80600081146102a2576040519150601f19603f3d011682016040523d82523d6000602084013e6102a7565b606091505b50509050806102ea5760405162461bcd60e51b815260206004820152600f60248201526e1d1c985b9cd9995c8819985a5b1959608a1b60448201526064016100a0565b5060010161020f565b5047801561038357604051600090339083908381818185875af1925050503d806000811461033d576040519150601f19603f3d011682016040523d82523d6000602084013e610342565b606091505b50509050806101c35760405162461bcd60e51b815260206004820152600d60248201526c1c99599d5b990819985a5b1959609a1b60448201526064016100a0565b5050505050565b6001600160a01b038116811461039f57600080fd5b50565b60008083601f8401126103b457600080fd5b50813567ffffffffffffffff8111156103cc57600080fd5b6020830191508360208260051b85010111156103e757600080fd5b9250929050565b60008060008060006060868803121561040657600080fd5b85356104118161038a565b9450602086013567ffffffffffffffff81111561042d57600080fd5b610439888289016103a2565b909550935050604086013567ffffffffffffffff81111561045957600080fd5b610465888289016103a2565b969995985093965092949392505050565b6000806000806040858703121561048c57600080fd5b843567ffffffffffffffff8111156104a357600080fd5b6104af878288016103a2565b909550935050602085013567ffffffffffffffff8111156104cf57600080fd5b6104db878288016103a2565b95989497509550505050565b634e487b7160e01b600052603260045260246000fd5b60006020828403121561050f57600080fd5b813561051a8161038a565b9392505050565b60006020828403121561053357600080fd5b8151801515811461051a57600080fdfea26469706673582212204b7e0723d67e703b5a53d6cddaf82091e964eafacab07d9e7614fbc77591a86364736f6c634300081a0033";
+
+// Recipients per disperse transaction; ~35k gas each when funding fresh accounts
+export const DEFAULT_DISPERSE_BATCH_SIZE = 100;
+
+// Whitelisted stable tokens gas can be paid in, per network profile id
+export const FEE_CURRENCIES: Record<string, { symbol: string, address: string }[]> = {
+  'celo-mainnet': [
+    { symbol: 'cUSD', address: '0x765DE816845861e75A25fCA122bb6898B8B1282a' },
+    { symbol: 'cEUR', address: '0xD8763CBa276a3738E6DE85b4b3bF5FDed6D6cA73' },
+    { symbol: 'cREAL', address: '0xe8537a3d056DA446677B9E9d6c5dB704EaAb4787' }
+  ],
+  'alfajores': [
+    { symbol: 'cUSD', address: '0x874069Fa1Eb16D44d622F2e0Ca25eeA172369bC1' },
+    { symbol: 'cEUR', address: '0x10c892A6EC43a53E45D0B916B4b7D383B1b78C0F' }
+  ]
+};
+
+// How long the 'dynamic' fee strategy reuses a base fee reading (about one Celo block)
+export const DYNAMIC_FEE_REFRESH_MS = 1000;
+
+// Nonce manager: unmined txs blocking a wallet's queue this long are resent with higher fees
+export const STUCK_TX_AFTER_MS = 30000;
+export const MAX_TX_REPLACEMENTS = 3;
+export const REPLACEMENT_FEE_BUMP_PERCENT = 25; // Nodes require at least +10%
+export const GAP_FILL_GAS_LIMIT = 21000;
+export const FEE_CURRENCY_GAS_OVERHEAD = 50000; // Extra intrinsic gas for CIP-64 txs
+
+// Per error class; reverts and missing funds won't change on a retry
+export const DEFAULT_RETRY_POLICIES: RetryPolicies = {
+  rate_limited: { maxRetries: 5, backoffMs: 1000, backoffMultiplier: 2, maxBackoffMs: 15000 },
+  network_timeout: { maxRetries: 3, backoffMs: 500, backoffMultiplier: 2, maxBackoffMs: 5000 },
+  nonce_conflict: { maxRetries: 2, backoffMs: 100, backoffMultiplier: 1, maxBackoffMs: 100 },
+  underpriced: { maxRetries: 2, backoffMs: 1000, backoffMultiplier: 1, maxBackoffMs: 1000 },
+  insufficient_funds: { maxRetries: 0, backoffMs: 0, backoffMultiplier: 1, maxBackoffMs: 0 },
+  execution_reverted: { maxRetries: 0, backoffMs: 0, backoffMultiplier: 1, maxBackoffMs: 0 },
+  unknown: { maxRetries: 1, backoffMs: 1000, backoffMultiplier: 1, maxBackoffMs: 1000 }
+};
+
+// Setup, a gentle warm-up and cool-down around the main load, then teardown.
+// Token phases start disabled since they need a token (and a spender) first.
+export const DEFAULT_PIPELINE: PipelinePhase[] = [
+  { kind: 'fleet', enabled: true, stopOnFailure: true, minSuccessRate: 1 },
+  { kind: 'fund', enabled: true, stopOnFailure: true, minSuccessRate: 1 },
+  { kind: 'tokenSetup', enabled: false, stopOnFailure: true, minSuccessRate: 1, amount: '10' },
+  { kind: 'approvals', enabled: false, stopOnFailure: true, minSuccessRate: 1, spender: '' },
+  { kind: 'warmup', enabled: true, stopOnFailure: true, minSuccessRate: 0.9, txPerWallet: 2, loadProfile: { kind: 'constant', rate: 2 } },
+  { kind: 'load', enabled: true, stopOnFailure: false, minSuccessRate: 0.95 },
+  { kind: 'cooldown', enabled: true, stopOnFailure: false, minSuccessRate: 0.9, txPerWallet: 2, loadProfile: { kind: 'constant', rate: 1 } },
+  { kind: 'sweep', enabled: true, stopOnFailure: false, minSuccessRate: 0.9 }
+];
+
+// Sends in flight across the fleet; per-wallet nonce order holds regardless
+export const DEFAULT_SEND_CONCURRENCY = 50;
+
+// Engine events reach React at most this many times per second
+export const UI_FRAME_RATE = 30;
+// Log console keeps only the newest entries; reports are built from run results, not the log
+export const MAX_UI_LOG_ENTRIES = 5000;
+// Fleet list and log console row heights (px) for windowed rendering
+export const WALLET_ROW_HEIGHT = 28;
+export const LOG_ROW_HEIGHT = 22;
+export const MAX_FLEET_SIZE = 5000; // Generated or derived wallets per fleet
+
+// Failure-rate auto-abort waits for this many txs with a final state
+export const ABORT_MIN_SETTLED_TX = 20;
+
+// Wallets dry-running each action before a swarm, spread across the fleet
+export const PREFLIGHT_SAMPLE_SIZE = 3;
+
+// Fleet vault (IndexedDB) encryption and keystore export cost parameters
+export const VAULT_PBKDF2_ITERATIONS = 250000;
+// Lighter than ethers' default (2^17) so exporting a whole fleet doesn't take minutes; burner keys only
+export const FLEET_KEYSTORE_SCRYPT_N = 1 << 14;
+
+// Run history (IndexedDB); older reports are pruned
+export const MAX_SAVED_RUNS = 50;
+
+// RPC pool health: an endpoint is benched after this many errors in a row, then probed again
+export const RPC_UNHEALTHY_AFTER_ERRORS = 3;
+export const RPC_UNHEALTHY_COOLDOWN_MS = 15000;
+export const RPC_LATENCY_WINDOW = 200; // Recent requests kept per endpoint for latency stats
+
+// Block observation over WebSocket
+export const BLOCK_SAMPLE_LIMIT = 60; // Recent blocks kept for the block space panel
+export const WS_CONNECT_TIMEOUT_MS = 10000;
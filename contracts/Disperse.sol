@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+interface IERC20 {
+    function transferFrom(address from, address to, uint256 value) external returns (bool);
+}
+
+// Fleet funding helper: tops up many wallets in a single transaction.
+// Compiled bytecode lives in constants.ts (DISPERSE_BYTECODE, solc 0.8.26, evm paris, optimizer 200).
+contract Disperse {
+    function disperseEther(address[] calldata recipients, uint256[] calldata values) external payable {
+        require(recipients.length == values.length, "length mismatch");
+        for (uint256 i = 0; i < recipients.length; i++) {
+            (bool ok, ) = payable(recipients[i]).call{value: values[i]}("");
+            require(ok, "transfer failed");
+        }
+        uint256 remaining = address(this).balance;
+        if (remaining > 0) {
+            (bool ok, ) = payable(msg.sender).call{value: remaining}("");
+            require(ok, "refund failed");
+        }
+    }
+
+    function disperseToken(IERC20 token, address[] calldata recipients, uint256[] calldata values) external {
+        require(recipients.length == values.length, "length mismatch");
+        for (uint256 i = 0; i < recipients.length; i++) {
+            require(token.transferFrom(msg.sender, recipients[i], values[i]), "transfer failed");
+        }
+    }
+}
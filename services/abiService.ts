@@ -0,0 +1,168 @@
+import { AbiCoder, Interface, ParamType, Result, concat, isAddress, isHexString } from 'ethers';
+import { AbiFunctionInfo, DecodedCall } from '../types';
+
+// Accepts a JSON ABI array, a compiler artifact with an `abi` field,
+// or human-readable fragments (one per line, "function " prefix optional)
+export const parseAbi = (text: string): Interface => {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error('ABI is empty');
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const json = JSON.parse(trimmed);
+    const abi = Array.isArray(json) ? json : json.abi;
+    if (!Array.isArray(abi)) throw new Error('JSON has no ABI array');
+    return new Interface(abi);
+  }
+
+  const fragments = trimmed
+    .split('\n')
+    .map(line => line.trim().replace(/[;,]$/, ''))
+    .filter(line => line && !line.startsWith('//'))
+    .map(line => /^(function|event|error|constructor|fallback|receive)\b/.test(line) ? line : `function ${line}`);
+  return new Interface(fragments);
+};
+
+export const listFunctions = (iface: Interface): AbiFunctionInfo[] => {
+  const functions: AbiFunctionInfo[] = [];
+  iface.forEachFunction(fn => {
+    functions.push({
+      signature: fn.format('sighash'),
+      name: fn.name,
+      inputs: fn.inputs.map((input, i) => ({ name: input.name || `arg${i}`, type: input.format('sighash') })),
+      stateMutability: fn.stateMutability
+    });
+  });
+  return functions.sort((a, b) => a.signature.localeCompare(b.signature));
+};
+
+// Converts a form string into the value ethers expects for `param`.
+// Scalars are typed directly; arrays and tuples are entered as JSON.
+const coerceArg = (param: ParamType, raw: string): unknown => {
+  const value = raw.trim();
+  if (param.isArray() || param.isTuple()) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      throw new Error('expects JSON, e.g. ["0x...", "0x..."]');
+    }
+  }
+  if (param.baseType === 'address') {
+    if (!isAddress(value)) throw new Error('is not a valid address');
+    return value;
+  }
+  if (param.baseType === 'bool') {
+    if (value !== 'true' && value !== 'false') throw new Error('expects true or false');
+    return value === 'true';
+  }
+  if (param.baseType.startsWith('uint') || param.baseType.startsWith('int')) {
+    if (!/^-?(0x[0-9a-fA-F]+|\d+)$/.test(value)) throw new Error('expects an integer');
+    return BigInt(value);
+  }
+  if (param.baseType.startsWith('bytes')) {
+    if (!isHexString(value)) throw new Error('expects 0x-prefixed hex');
+    return value;
+  }
+  return raw;
+};
+
+// Returns an error message for the argument, or null when it encodes cleanly
+export const validateArg = (param: ParamType, raw: string): string | null => {
+  try {
+    AbiCoder.defaultAbiCoder().encode([param], [coerceArg(param, raw)]);
+    return null;
+  } catch (e) {
+    const message = (e as any).shortMessage || (e as Error).message;
+    return `${param.name || param.type} ${message}`;
+  }
+};
+
+export const encodeCall = (iface: Interface, signature: string, rawArgs: string[]): string => {
+  const fn = iface.getFunction(signature);
+  if (!fn) throw new Error(`Function ${signature} not in ABI`);
+  const args = fn.inputs.map((param, i) => {
+    const error = validateArg(param, rawArgs[i] ?? '');
+    if (error) throw new Error(error);
+    return coerceArg(param, rawArgs[i] ?? '');
+  });
+  return iface.encodeFunctionData(fn, args);
+};
+
+// Creation code plus ABI from a compiler artifact (Hardhat, Foundry or solc standard JSON
+// output for one contract), or bare 0x-prefixed creation code
+export const parseArtifact = (text: string): { bytecode: string, abiText?: string } => {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error('Bytecode is empty');
+  if (!trimmed.startsWith('{')) {
+    const hex = trimmed.startsWith('0x') ? trimmed : `0x${trimmed}`;
+    if (!isHexString(hex) || hex.length <= 2) throw new Error('Bytecode must be hex');
+    return { bytecode: hex };
+  }
+
+  const json = JSON.parse(trimmed);
+  const candidate = json.bytecode?.object ?? json.bytecode ?? json.evm?.bytecode?.object ?? json.data?.bytecode?.object;
+  if (typeof candidate !== 'string' || !candidate) throw new Error('Artifact has no creation bytecode');
+  const bytecode = candidate.startsWith('0x') ? candidate : `0x${candidate}`;
+  // Unlinked libraries leave __$...$__ markers in the hex
+  if (!isHexString(bytecode)) throw new Error('Artifact bytecode is not plain hex (unlinked libraries?)');
+  if (bytecode.length <= 2) throw new Error('Artifact bytecode is empty (abstract contract or interface?)');
+  return { bytecode, abiText: Array.isArray(json.abi) ? JSON.stringify(json.abi) : undefined };
+};
+
+// Creation code with the ABI-encoded constructor args appended
+export const encodeDeploy = (iface: Interface | null, bytecode: string, rawArgs: string[]): string => {
+  const inputs = iface?.deploy.inputs ?? [];
+  if (inputs.length === 0) return bytecode;
+  const args = inputs.map((param, i) => {
+    const error = validateArg(param, rawArgs[i] ?? '');
+    if (error) throw new Error(error);
+    return coerceArg(param, rawArgs[i] ?? '');
+  });
+  return concat([bytecode, iface!.encodeDeploy(args)]);
+};
+
+const formatValue = (value: unknown): string => {
+  if (value instanceof Result) return JSON.stringify(value.toArray(true), (_, v) => typeof v === 'bigint' ? v.toString() : v);
+  if (typeof value === 'bigint') return value.toString();
+  return String(value);
+};
+
+// Returns null when the selector is not in the ABI
+export const decodeCalldata = (iface: Interface, data: string): DecodedCall | null => {
+  if (!isHexString(data) || data.length < 10) return null;
+  const tx = iface.parseTransaction({ data });
+  if (!tx) return null;
+  return {
+    signature: tx.fragment.format('sighash'),
+    args: tx.fragment.inputs.map((input, i) => ({
+      name: input.name || `arg${i}`,
+      type: input.format('sighash'),
+      value: formatValue(tx.args[i])
+    }))
+  };
+};
+
+const ERROR_SELECTOR = '0x08c379a0'; // Error(string)
+const PANIC_SELECTOR = '0x4e487b71'; // Panic(uint256)
+
+// Human-readable revert reason: Error(string), Panic codes, or a custom error from `iface`
+export const decodeRevert = (data: string, iface?: Interface | null): string => {
+  if (!isHexString(data) || data === '0x') return 'reverted without reason';
+  const selector = data.slice(0, 10).toLowerCase();
+  const coder = AbiCoder.defaultAbiCoder();
+  try {
+    if (selector === ERROR_SELECTOR) {
+      return coder.decode(['string'], '0x' + data.slice(10))[0];
+    }
+    if (selector === PANIC_SELECTOR) {
+      return `panic 0x${coder.decode(['uint256'], '0x' + data.slice(10))[0].toString(16)}`;
+    }
+    const error = iface?.parseError(data);
+    if (error) {
+      const args = error.fragment.inputs.map((input, i) => `${input.name || `arg${i}`}=${formatValue(error.args[i])}`);
+      return `${error.name}(${args.join(', ')})`;
+    }
+  } catch {
+    // Malformed payload, fall through to the raw selector
+  }
+  return `unknown error ${selector}`;
+};
@@ -0,0 +1,126 @@
+import { Network, WebSocketProvider } from 'ethers';
+import { BlockSample, BlockSpaceSummary, NetworkProfile } from '../types';
+import { BLOCK_SAMPLE_LIMIT, WS_CONNECT_TIMEOUT_MS } from '../constants';
+
+export interface BlockObserverOptions {
+  isFleetTx: (hash: string) => boolean;
+  onFleetTx?: (hash: string, seenAt: number, blockNumber: number) => void; // A fleet tx landed in a new block
+  onDisconnect?: () => void;
+}
+
+export interface BlockObserver {
+  summary: () => BlockSpaceSummary;
+  close: () => Promise<void>;
+}
+
+// Watches newHeads, and pending txs where the node streams them, over its own
+// socket so observation never competes with the swarm's RPC requests. Rejects
+// when the socket can't be opened; after that, failures only stop the sampling.
+export const createBlockObserver = async (
+  network: NetworkProfile,
+  wsUrl: string,
+  options: BlockObserverOptions
+): Promise<BlockObserver> => {
+  const chain = Network.from(network.chainId);
+  const provider = new WebSocketProvider(wsUrl, chain, { staticNetwork: chain });
+  const socket = provider.websocket as unknown as { onerror: ((event: any) => void) | null, onclose: (() => void) | null };
+  let connected = false;
+  let closed = false;
+
+  // ethers leaves socket errors unhandled, which takes down Node on a bad URL
+  const failed = new Promise<never>((_, reject) => {
+    socket.onerror = (event) => reject(new Error(`WebSocket error on ${wsUrl}${event?.message ? `: ${event.message}` : ''}`));
+  });
+  let connectTimer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    await Promise.race([
+      provider.getBlockNumber(),
+      failed,
+      new Promise<never>((_, reject) => {
+        connectTimer = setTimeout(() => reject(new Error(`No answer from ${wsUrl} after ${WS_CONNECT_TIMEOUT_MS / 1000}s`)), WS_CONNECT_TIMEOUT_MS);
+      })
+    ]);
+  } catch (e) {
+    closed = true;
+    await provider.destroy();
+    throw e;
+  } finally {
+    clearTimeout(connectTimer);
+  }
+  connected = true;
+  socket.onclose = () => {
+    if (closed || !connected) return;
+    connected = false;
+    options.onDisconnect?.();
+  };
+
+  // Probe first: ethers' own pending subscriber leaves a refused eth_subscribe unhandled
+  let pendingSeen: number | null = null;
+  try {
+    const probeId = await provider.send('eth_subscribe', ['newPendingTransactions']);
+    await provider.send('eth_unsubscribe', [probeId]);
+    pendingSeen = 0;
+    await provider.on('pending', () => { pendingSeen!++; });
+  } catch {
+    // Not offered (public forno nodes, for one); blocks are still observed
+  }
+
+  const blocks: BlockSample[] = [];
+  const totals = { observedBlocks: 0, gasUsed: 0, gasLimit: 0, totalTx: 0, fleetTx: 0 };
+  let firstSeenAt = 0;
+  let lastSeenAt = 0;
+
+  await provider.on('block', async (blockNumber: number) => {
+    const seenAt = Date.now();
+    try {
+      const block = await provider.getBlock(blockNumber);
+      if (!block || closed) return;
+      let fleetTxCount = 0;
+      for (const hash of block.transactions) {
+        if (!options.isFleetTx(hash)) continue;
+        fleetTxCount++;
+        options.onFleetTx?.(hash, seenAt, block.number);
+      }
+      const sample: BlockSample = {
+        number: block.number,
+        seenAt,
+        timestamp: block.timestamp,
+        gasUsed: Number(block.gasUsed),
+        gasLimit: Number(block.gasLimit),
+        txCount: block.transactions.length,
+        fleetTxCount
+      };
+      blocks.push(sample);
+      if (blocks.length > BLOCK_SAMPLE_LIMIT) blocks.shift();
+      totals.observedBlocks++;
+      totals.gasUsed += sample.gasUsed;
+      totals.gasLimit += sample.gasLimit;
+      totals.totalTx += sample.txCount;
+      totals.fleetTx += fleetTxCount;
+      if (firstSeenAt === 0) firstSeenAt = seenAt;
+      lastSeenAt = seenAt;
+    } catch {
+      // A failed block fetch only loses that sample
+    }
+  });
+
+  return {
+    summary: () => ({
+      connected,
+      blocks: blocks.map(b => ({ ...b })),
+      observedBlocks: totals.observedBlocks,
+      totalTx: totals.totalTx,
+      fleetTx: totals.fleetTx,
+      utilization: totals.gasLimit > 0 ? totals.gasUsed / totals.gasLimit : 0,
+      fleetShare: totals.totalTx > 0 ? totals.fleetTx / totals.totalTx : 0,
+      avgBlockTimeMs: totals.observedBlocks > 1 ? (lastSeenAt - firstSeenAt) / (totals.observedBlocks - 1) : null,
+      pendingSeen
+    }),
+    close: async () => {
+      if (closed) return;
+      closed = true;
+      connected = false;
+      await provider.destroy();
+    }
+  };
+};
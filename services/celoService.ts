@@ -1,9 +1,67 @@
-import { JsonRpcProvider, Wallet, parseEther, formatEther } from 'ethers';
-import { CELO_RPC_URL } from '../constants';
-import { WalletAccount } from '../types';
+import { Contract, ContractFactory, HDNodeWallet, JsonRpcProvider, Mnemonic, Transaction, TransactionReceipt, TransactionRequest, TransactionResponse, Wallet, concat, encodeRlp, formatUnits, keccak256, parseEther, parseUnits, formatEther, toBeArray, toQuantity } from 'ethers';
+import { DEFAULT_RETRY_POLICIES, DISPERSE_ABI, DISPERSE_BYTECODE, MOCK_ABI_ERC20, MOCK_FUNDER_BALANCE } from '../constants';
+import { MockChain, MockProvider, createMockProvider } from './mockChain';
+import { PooledProvider, createPooledProvider } from './rpcPool';
+import { errorMessage, isAlreadyKnown, retryTransient } from './errorClassifier';
+import { ApprovalResult, EndpointStats, FeeParams, NetworkProfile, RetryPolicies, SweepResult, TokenInfo, TxFeeData, TxReceiptInfo, WalletAccount } from '../types';
 
-// We rely on standard ethers provider
-const provider = new JsonRpcProvider(CELO_RPC_URL);
+// One provider per RPC endpoint (or pool), reused across calls for the same profile
+const providers = new Map<string, JsonRpcProvider>();
+
+const usesPool = (network: NetworkProfile) => !network.mock && (network.rpcPool?.endpoints.length ?? 0) > 0;
+
+// The chain backend behind a profile: the in-process mock, an RPC pool, or a single RPC
+const providerKey = (network: NetworkProfile) => {
+  if (network.mock) return `${network.chainId}:mock:${network.id}`;
+  if (usesPool(network)) {
+    return `${network.chainId}:pool:${network.rpcPool!.balancing}:${network.rpcPool!.endpoints.map(e => `${e.url}*${e.weight}`).join(',')}`;
+  }
+  return `${network.chainId}:${network.rpcUrl}`;
+};
+
+const getProvider = (network: NetworkProfile): JsonRpcProvider => {
+  const key = providerKey(network);
+  let provider = providers.get(key);
+  if (!provider) {
+    provider = network.mock ? createMockProvider(network)
+      : usesPool(network) ? createPooledProvider(network)
+      : new JsonRpcProvider(network.rpcUrl);
+    providers.set(key, provider);
+  }
+  return provider;
+};
+
+// State and fault controls of a mock profile's chain; undefined for real networks
+export const getMockChain = (network: NetworkProfile): MockChain | undefined =>
+  network.mock ? (getProvider(network) as MockProvider).chain : undefined;
+
+// Dry runs need no faucet: an empty funder on the mock chain starts with MOCK_FUNDER_BALANCE
+export const prepareMockFunder = (network: NetworkProfile, funderPrivateKey: string) => {
+  const chain = getMockChain(network);
+  if (!chain) return;
+  const address = new Wallet(funderPrivateKey).address;
+  if (chain.balanceOf(address) === 0n) chain.setBalance(address, parseEther(MOCK_FUNDER_BALANCE));
+};
+
+// Per-endpoint request counts, error rates and latency; undefined without a pool
+export const getEndpointStats = (network: NetworkProfile): EndpointStats[] | undefined =>
+  usesPool(network) ? (getProvider(network) as PooledProvider).endpointStats() : undefined;
+
+export const resetEndpointStats = (network: NetworkProfile) => {
+  if (usesPool(network)) (getProvider(network) as PooledProvider).resetStats();
+};
+
+// Connects to the profile's RPC and checks it serves the expected chain
+export const verifyNetwork = async (network: NetworkProfile): Promise<{ chainId: number, blockNumber: number }> => {
+  const provider = getProvider(network);
+  const chainIdHex: string = await provider.send('eth_chainId', []);
+  const chainId = Number(chainIdHex);
+  if (chainId !== network.chainId) {
+    throw new Error(`Chain ID mismatch: ${network.name} expects ${network.chainId}, RPC reports ${chainId}`);
+  }
+  const blockNumber = await provider.getBlockNumber();
+  return { chainId, blockNumber };
+};
 
 export const createWallets = (count: number): WalletAccount[] => {
   const wallets: WalletAccount[] = [];
@@ -41,8 +99,37 @@ export const createWalletsFromKeys = (keys: string[]): WalletAccount[] => {
   return wallets;
 };
 
-export const getBalance = async (address: string): Promise<string> => {
+export const generateMnemonic = (): string => Wallet.createRandom().mnemonic!.phrase;
+
+export const isValidMnemonic = (phrase: string): boolean => Mnemonic.isValidMnemonic(phrase.trim().toLowerCase());
+
+// Derives `count` wallets at `${basePath}/${startIndex + i}` so the same phrase reproduces the same fleet
+export const createWalletsFromMnemonic = (
+  phrase: string,
+  count: number,
+  basePath: string,
+  startIndex: number = 0
+): WalletAccount[] => {
+  const mnemonic = Mnemonic.fromPhrase(phrase.trim().toLowerCase());
+  const base = HDNodeWallet.fromMnemonic(mnemonic, basePath);
+  const wallets: WalletAccount[] = [];
+  for (let i = startIndex; i < startIndex + count; i++) {
+    const child = base.deriveChild(i);
+    wallets.push({
+      address: child.address,
+      privateKey: child.privateKey,
+      balance: '0',
+      txCount: 0,
+      status: 'idle',
+      derivationPath: child.path || `${basePath}/${i}`
+    });
+  }
+  return wallets;
+};
+
+export const getBalance = async (network: NetworkProfile, address: string): Promise<string> => {
   try {
+    const provider = getProvider(network);
     const balance = await provider.getBalance(address);
     return formatEther(balance);
   } catch (error) {
@@ -51,12 +138,30 @@ export const getBalance = async (address: string): Promise<string> => {
   }
 };
 
-export const getWalletNonce = async (address: string): Promise<number> => {
-    return await provider.getTransactionCount(address);
+export const getWalletNonce = async (network: NetworkProfile, address: string): Promise<number> => {
+    return await getProvider(network).getTransactionCount(address);
 };
 
-export const getWalletInfo = async (privateKey: string): Promise<{ address: string, balance: string } | null> => {
+// Next nonce including txs still in the node's mempool
+export const getPendingNonce = async (network: NetworkProfile, address: string): Promise<number> => {
+    return await getProvider(network).getTransactionCount(address, 'pending');
+};
+
+export const getTransactionReceipt = async (network: NetworkProfile, hash: string): Promise<TxReceiptInfo | null> => {
+    const receipt = await getProvider(network).getTransactionReceipt(hash);
+    if (!receipt) return null;
+    return {
+        success: receipt.status === 1,
+        blockNumber: receipt.blockNumber,
+        gasUsed: receipt.gasUsed.toString(),
+        effectiveGasPrice: receipt.gasPrice.toString(),
+        contractAddress: receipt.contractAddress ?? undefined
+    };
+};
+
+export const getWalletInfo = async (network: NetworkProfile, privateKey: string): Promise<{ address: string, balance: string } | null> => {
     try {
+        const provider = getProvider(network);
         const wallet = new Wallet(privateKey, provider);
         const balanceWei = await provider.getBalance(wallet.address);
         return {
@@ -69,18 +174,21 @@ export const getWalletInfo = async (privateKey: string): Promise<{ address: stri
 };
 
 export const fundWallets = async (
+  network: NetworkProfile,
   funderPrivateKey: string, 
   targets: WalletAccount[], 
   amountPerWallet: string,
-  onProgress: (index: number, txHash: string) => void
+  onProgress: (index: number, txHash: string) => void,
+  proceed?: () => Promise<boolean> // Checked before each transfer; false stops funding
 ) => {
-  const funder = new Wallet(funderPrivateKey, provider);
+  const funder = new Wallet(funderPrivateKey, getProvider(network));
   const amountWei = parseEther(amountPerWallet);
 
   // In a real load test, we might batch this or use a dispenser contract.
   // For this simplified app, we send 1-by-1 linearly for safety and clarity.
   
   for (let i = 0; i < targets.length; i++) {
+    if (proceed && !(await proceed())) break;
     try {
         const tx = await funder.sendTransaction({
           to: targets[i].address,
@@ -99,18 +207,344 @@ export const fundWallets = async (
   }
 };
 
+// Sends every transfer with consecutive nonces without waiting, then awaits all receipts together
+export const fundWalletsPipelined = async (
+  network: NetworkProfile,
+  funderPrivateKey: string,
+  targets: WalletAccount[],
+  amountPerWallet: string,
+  onProgress: (index: number, txHash: string) => void,
+  proceed?: () => Promise<boolean> // Checked before each transfer; false stops funding
+) => {
+  const funder = new Wallet(funderPrivateKey, getProvider(network));
+  const amountWei = parseEther(amountPerWallet);
+  let nonce = await getProvider(network).getTransactionCount(funder.address, 'pending');
+
+  const sent: { index: number, tx: TransactionResponse }[] = [];
+  for (let i = 0; i < targets.length; i++) {
+    if (proceed && !(await proceed())) break;
+    try {
+        const tx = await funder.sendTransaction({
+          to: targets[i].address,
+          value: amountWei,
+          nonce
+        });
+        nonce++;
+        sent.push({ index: i, tx });
+    } catch (e) {
+        console.error("Funding failed for wallet " + i, e);
+        // Nonce was not consumed, so the next wallet reuses it
+    }
+  }
+
+  await Promise.all(sent.map(async ({ index, tx }) => {
+    try {
+        await tx.wait(1);
+        onProgress(index, tx.hash);
+    } catch (e) {
+        console.error("Funding receipt failed for wallet " + index, e);
+    }
+  }));
+};
+
+export const deployDisperse = async (network: NetworkProfile, funderPrivateKey: string): Promise<string> => {
+  const funder = new Wallet(funderPrivateKey, getProvider(network));
+  const factory = new ContractFactory(DISPERSE_ABI, DISPERSE_BYTECODE, funder);
+  const contract = await factory.deploy();
+  await contract.waitForDeployment();
+  return await contract.getAddress();
+};
+
+// Tops up the fleet in batches of `batchSize` recipients, one disperseEther call per batch
+export const fundWalletsDisperse = async (
+  network: NetworkProfile,
+  funderPrivateKey: string,
+  disperseAddress: string,
+  targets: WalletAccount[],
+  amountPerWallet: string,
+  batchSize: number,
+  onProgress: (index: number, txHash: string) => void,
+  proceed?: () => Promise<boolean> // Checked before each batch; false stops funding
+) => {
+  const provider = getProvider(network);
+  const code = await provider.getCode(disperseAddress);
+  if (code === '0x') {
+    throw new Error(`No disperse contract deployed at ${disperseAddress} on ${network.name}`);
+  }
+
+  const funder = new Wallet(funderPrivateKey, provider);
+  const disperse = new Contract(disperseAddress, DISPERSE_ABI, funder);
+  const amountWei = parseEther(amountPerWallet);
+
+  for (let start = 0; start < targets.length; start += batchSize) {
+    if (proceed && !(await proceed())) break;
+    const batch = targets.slice(start, start + batchSize);
+    try {
+        const tx: TransactionResponse = await disperse.disperseEther(
+          batch.map(w => w.address),
+          batch.map(() => amountWei),
+          { value: amountWei * BigInt(batch.length) }
+        );
+        await tx.wait(1);
+        batch.forEach((_, offset) => onProgress(start + offset, tx.hash));
+    } catch (e) {
+        console.error(`Disperse batch failed for wallets ${start + 1}-${start + batch.length}`, e);
+    }
+  }
+};
+
+export const getTokenInfo = async (network: NetworkProfile, address: string): Promise<TokenInfo> => {
+  const provider = getProvider(network);
+  if (await provider.getCode(address) === '0x') {
+    throw new Error(`No contract at ${address} on ${network.name}`);
+  }
+  const token = new Contract(address, MOCK_ABI_ERC20, provider);
+  const [symbol, decimals] = await Promise.all([token.symbol(), token.decimals()]);
+  return { address, symbol, decimals: Number(decimals) };
+};
+
+export const getTokenBalance = async (network: NetworkProfile, token: TokenInfo, address: string): Promise<string> => {
+  try {
+    const contract = new Contract(token.address, MOCK_ABI_ERC20, getProvider(network));
+    return formatUnits(await contract.balanceOf(address), token.decimals);
+  } catch (e) {
+    console.error("Failed to fetch token balance", e);
+    return "0";
+  }
+};
+
+// Token counterpart of fundWalletsPipelined: one transfer() per wallet with consecutive nonces
+export const fundWalletsToken = async (
+  network: NetworkProfile,
+  funderPrivateKey: string,
+  token: TokenInfo,
+  targets: WalletAccount[],
+  amountPerWallet: string, // Token units
+  onProgress: (index: number, txHash: string) => void,
+  proceed?: () => Promise<boolean> // Checked before each transfer; false stops funding
+) => {
+  const funder = new Wallet(funderPrivateKey, getProvider(network));
+  const contract = new Contract(token.address, MOCK_ABI_ERC20, funder);
+  const amount = parseUnits(amountPerWallet, token.decimals);
+  let nonce = await getProvider(network).getTransactionCount(funder.address, 'pending');
+
+  const sent: { index: number, tx: TransactionResponse }[] = [];
+  for (let i = 0; i < targets.length; i++) {
+    if (proceed && !(await proceed())) break;
+    try {
+        const tx: TransactionResponse = await contract.transfer(targets[i].address, amount, { nonce });
+        nonce++;
+        sent.push({ index: i, tx });
+    } catch (e) {
+        console.error(`${token.symbol} funding failed for wallet ${i}`, e);
+    }
+  }
+
+  await Promise.all(sent.map(async ({ index, tx }) => {
+    try {
+        await tx.wait(1);
+        onProgress(index, tx.hash);
+    } catch (e) {
+        console.error(`${token.symbol} funding receipt failed for wallet ${index}`, e);
+    }
+  }));
+};
+
+// Approves the disperse helper for the whole amount once, then one disperseToken call per batch
+export const fundWalletsTokenDisperse = async (
+  network: NetworkProfile,
+  funderPrivateKey: string,
+  disperseAddress: string,
+  token: TokenInfo,
+  targets: WalletAccount[],
+  amountPerWallet: string, // Token units
+  batchSize: number,
+  onProgress: (index: number, txHash: string) => void,
+  proceed?: () => Promise<boolean> // Checked before each batch; false stops funding
+) => {
+  const provider = getProvider(network);
+  if (await provider.getCode(disperseAddress) === '0x') {
+    throw new Error(`No disperse contract deployed at ${disperseAddress} on ${network.name}`);
+  }
+
+  const funder = new Wallet(funderPrivateKey, provider);
+  const contract = new Contract(token.address, MOCK_ABI_ERC20, funder);
+  const disperse = new Contract(disperseAddress, DISPERSE_ABI, funder);
+  const amount = parseUnits(amountPerWallet, token.decimals);
+  const total = amount * BigInt(targets.length);
+
+  if (await contract.allowance(funder.address, disperseAddress) < total) {
+    const approval: TransactionResponse = await contract.approve(disperseAddress, total);
+    await approval.wait(1);
+  }
+
+  for (let start = 0; start < targets.length; start += batchSize) {
+    if (proceed && !(await proceed())) break;
+    const batch = targets.slice(start, start + batchSize);
+    try {
+        const tx: TransactionResponse = await disperse.disperseToken(
+          token.address,
+          batch.map(w => w.address),
+          batch.map(() => amount)
+        );
+        await tx.wait(1);
+        batch.forEach((_, offset) => onProgress(start + offset, tx.hash));
+    } catch (e) {
+        console.error(`${token.symbol} disperse batch failed for wallets ${start + 1}-${start + batch.length}`, e);
+    }
+  }
+};
+
+// Sets a fleet wallet's allowance for `spender`; gas is paid in CELO from the wallet itself
+export const approveToken = async (
+  network: NetworkProfile,
+  walletData: WalletAccount,
+  index: number,
+  token: TokenInfo,
+  spender: string,
+  amount: bigint,
+  policies: RetryPolicies = DEFAULT_RETRY_POLICIES // Rate limit and timeout retries
+): Promise<ApprovalResult> => {
+  const wallet = new Wallet(walletData.privateKey, getProvider(network));
+  const base = { index, address: wallet.address };
+  try {
+    const contract = new Contract(token.address, MOCK_ABI_ERC20, wallet);
+    const txRequest = await contract.approve.populateTransaction(spender, amount);
+    const { hash, receipt } = await sendAndWait(network, wallet, txRequest, policies);
+    if (receipt?.status === 0) return { ...base, status: 'failed', reason: 'Approval reverted', txHash: hash };
+    return { ...base, status: 'approved', txHash: hash };
+  } catch (e) {
+    return { ...base, status: 'failed', reason: errorMessage(e) };
+  }
+};
+
+// Dry-runs an interaction with eth_call and returns the gas estimate. Nothing is signed;
+// a revert surfaces as the provider's CALL_EXCEPTION carrying the revert data.
+export const simulateInteraction = async (
+  network: NetworkProfile,
+  from: string,
+  targetContract: string,
+  data: string,
+  value: string = '0', // CELO
+  feeCurrency?: string
+): Promise<bigint> => {
+  const provider = getProvider(network);
+  // An empty target simulates a contract creation
+  const tx = { from, to: targetContract || undefined, data: data || '0x', value: parseEther(value || '0') };
+  await provider.call(tx);
+  if (!feeCurrency) return provider.estimateGas(tx);
+  // Fee-currency txs cost extra intrinsic gas; ethers drops the field, so ask the node directly
+  return BigInt(await provider.send('eth_estimateGas', [{ ...tx, value: toQuantity(tx.value), feeCurrency }]));
+};
+
+export const getGasPrice = async (network: NetworkProfile): Promise<bigint> => {
+  const feeData = await getProvider(network).getFeeData();
+  return feeData.gasPrice ?? feeData.maxFeePerGas ?? 0n;
+};
+
+// Latest base fee, or the gas price quoted in `feeCurrency` units (Celo's eth_gasPrice extension)
+export const getBaseFee = async (network: NetworkProfile, feeCurrency?: string): Promise<bigint> => {
+  const provider = getProvider(network);
+  if (feeCurrency) return BigInt(await provider.send('eth_gasPrice', [feeCurrency]));
+  const block = await provider.getBlock('latest');
+  if (block?.baseFeePerGas != null) return block.baseFeePerGas;
+  return (await provider.getFeeData()).gasPrice ?? 0n;
+};
+
+export const getPriorityFee = async (network: NetworkProfile, feeCurrency?: string): Promise<bigint> => {
+  const provider = getProvider(network);
+  return BigInt(await provider.send('eth_maxPriorityFeePerGas', feeCurrency ? [feeCurrency] : []));
+};
+
+const CIP64_TX_TYPE = '0x7b';
+
+// Celo CIP-64: an EIP-1559 tx with a trailing feeCurrency field. ethers can't
+// serialize it, so it is RLP-encoded and signed here and sent raw.
+const sendCip64Transaction = async (
+  network: NetworkProfile,
+  wallet: Wallet,
+  tx: { nonce: number, to: string, value: bigint, data: string, gasLimit: number, maxFeePerGas: bigint, maxPriorityFeePerGas: bigint, feeCurrency: string }
+): Promise<string> => {
+  const fields = [
+    toBeArray(network.chainId),
+    toBeArray(tx.nonce),
+    toBeArray(tx.maxPriorityFeePerGas),
+    toBeArray(tx.maxFeePerGas),
+    toBeArray(tx.gasLimit),
+    tx.to || '0x', // Empty for contract creation
+    toBeArray(tx.value),
+    tx.data,
+    [], // Access list
+    tx.feeCurrency
+  ];
+  const signature = wallet.signingKey.sign(keccak256(concat([CIP64_TX_TYPE, encodeRlp(fields)])));
+  const signed = concat([
+    CIP64_TX_TYPE,
+    encodeRlp([...fields, toBeArray(signature.yParity), toBeArray(signature.r), toBeArray(signature.s)])
+  ]);
+  return broadcastSigned(network, signed);
+};
+
+// "already known" means the node holds exactly this tx (an earlier attempt's reply was lost),
+// so the send is accepted under the signed tx's own hash
+const broadcastSigned = async (network: NetworkProfile, signed: string): Promise<string> => {
+  try {
+    return await getProvider(network).send('eth_sendRawTransaction', [signed]);
+  } catch (e) {
+    if (isAlreadyKnown(e)) return keccak256(signed);
+    throw e;
+  }
+};
+
+// Signs a wallet tx once and waits for it to be mined, retrying rate limits and timeouts at each
+// RPC step. A retried broadcast resends the same signed tx, so it can only land once.
+const sendAndWait = async (
+  network: NetworkProfile, wallet: Wallet, txRequest: TransactionRequest, policies: RetryPolicies
+): Promise<{ hash: string, receipt: TransactionReceipt | null }> => {
+  const populated = await retryTransient(() => wallet.populateTransaction(txRequest), policies);
+  const signed = await wallet.signTransaction(populated);
+  const hash = await retryTransient(() => broadcastSigned(network, signed), policies);
+  const receipt = await retryTransient(() => getProvider(network).waitForTransaction(hash, 1), policies);
+  return { hash, receipt };
+};
+
+const gweiOrUndefined = (value?: bigint | null) => value == null ? undefined : formatUnits(value, 'gwei');
+
 export const executeInteraction = async (
+  network: NetworkProfile,
   walletData: WalletAccount,
   targetContract: string,
   data: string,
   nonce?: number,
-  gasLimit: number = 300000
-): Promise<string> => {
-  const wallet = new Wallet(walletData.privateKey, provider);
+  gasLimit: number = 300000,
+  value: string = '0', // CELO
+  fee?: FeeParams // Omit to let the RPC price the tx
+): Promise<{ hash: string, fee: TxFeeData }> => {
+  const wallet = new Wallet(walletData.privateKey, getProvider(network));
+
+  if (fee?.feeCurrency) {
+    const maxFeePerGas = fee.maxFeePerGas ?? fee.gasPrice ?? 0n;
+    // No tip unless one is given, as for EIP-1559 txs below; a tip equal to the cap would always pay the maximum
+    const maxPriorityFeePerGas = fee.maxPriorityFeePerGas ?? 0n;
+    const hash = await sendCip64Transaction(network, wallet, {
+      nonce: nonce ?? await wallet.getNonce('pending'),
+      to: targetContract,
+      value: parseEther(value || '0'),
+      data: data || '0x',
+      gasLimit,
+      maxFeePerGas,
+      maxPriorityFeePerGas,
+      feeCurrency: fee.feeCurrency
+    });
+    return {
+      hash,
+      fee: { type: 'cip64', maxFeePerGas: gweiOrUndefined(maxFeePerGas), maxPriorityFeePerGas: gweiOrUndefined(maxPriorityFeePerGas), feeCurrency: fee.feeCurrency }
+    };
+  }
   
   const txRequest: any = {
-    to: targetContract,
-    value: 0, // Assuming simple interaction, not sending value to contract
+    to: targetContract || undefined, // No target deploys `data` as creation code
+    value: parseEther(value || '0'),
     data: data || '0x', // Default to empty data if null
     gasLimit: gasLimit // Force gas limit to skip estimateGas
   };
@@ -118,10 +552,70 @@ export const executeInteraction = async (
   if (nonce !== undefined) {
       txRequest.nonce = nonce;
   }
+
+  if (fee?.gasPrice !== undefined) {
+      txRequest.type = 0;
+      txRequest.gasPrice = fee.gasPrice;
+  } else if (fee?.maxFeePerGas !== undefined) {
+      txRequest.type = 2;
+      txRequest.maxFeePerGas = fee.maxFeePerGas;
+      txRequest.maxPriorityFeePerGas = fee.maxPriorityFeePerGas ?? 0n;
+  }
   
-  const tx = await wallet.sendTransaction(txRequest);
+  // Signed here and broadcast raw so the hash is known even when the node answers "already known"
+  const signed = await wallet.signTransaction(await wallet.populateTransaction(txRequest));
+  const tx = Transaction.from(signed);
+  const hash = await broadcastSigned(network, signed);
+
+  return {
+    hash,
+    fee: tx.type === 0
+      ? { type: 'legacy', gasPrice: gweiOrUndefined(tx.gasPrice) }
+      : { type: 'eip1559', maxFeePerGas: gweiOrUndefined(tx.maxFeePerGas), maxPriorityFeePerGas: gweiOrUndefined(tx.maxPriorityFeePerGas) }
+  };
+};
 
-  return tx.hash;
+// Sends the whole balance minus the exact transfer cost. A legacy gasPrice is used
+// so the fee is exactly gasLimit * gasPrice and nothing is left behind.
+export const sweepWallet = async (
+  network: NetworkProfile,
+  walletData: WalletAccount,
+  index: number,
+  recipient: string,
+  policies: RetryPolicies = DEFAULT_RETRY_POLICIES // Rate limit and timeout retries
+): Promise<SweepResult> => {
+  const provider = getProvider(network);
+  const wallet = new Wallet(walletData.privateKey, provider);
+  const base = { index, address: wallet.address, amount: '0' };
+
+  try {
+    const [balance, feeData, gasLimit] = await retryTransient(() => Promise.all([
+      provider.getBalance(wallet.address),
+      provider.getFeeData(),
+      provider.estimateGas({ from: wallet.address, to: recipient, value: 1 })
+    ]), policies);
+    if (!feeData.gasPrice) {
+      return { ...base, status: 'failed', reason: 'RPC returned no gas price' };
+    }
+
+    const fee = gasLimit * feeData.gasPrice;
+    if (balance <= fee) {
+      return { ...base, status: 'skipped', reason: `Balance ${formatEther(balance)} does not cover fee ${formatEther(fee)}` };
+    }
+
+    const value = balance - fee;
+    const { hash, receipt } = await sendAndWait(network, wallet, {
+      to: recipient,
+      value,
+      gasLimit,
+      gasPrice: feeData.gasPrice,
+      type: 0
+    }, policies);
+    if (receipt?.status === 0) return { ...base, status: 'failed', reason: 'Sweep tx reverted', txHash: hash };
+    return { ...base, status: 'swept', amount: formatEther(value), txHash: hash };
+  } catch (e) {
+    return { ...base, status: 'failed', reason: errorMessage(e) };
+  }
 };
 
 export const isValidPrivateKey = (key: string): boolean => {
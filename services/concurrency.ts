@@ -0,0 +1,50 @@
+export interface Limiter {
+  run: <T>(job: () => Promise<T>) => Promise<T>;
+  active: () => number;
+}
+
+// Caps how many async jobs run at once; queued jobs start in FIFO order as slots free up
+export const createLimiter = (limit: number): Limiter => {
+  const max = Math.max(1, Math.floor(limit));
+  const queue: (() => void)[] = [];
+  let running = 0;
+
+  const release = () => {
+    running--;
+    const next = queue.shift();
+    if (next) {
+      running++;
+      next();
+    }
+  };
+
+  return {
+    run: async (job) => {
+      if (running < max) {
+        running++;
+      } else {
+        await new Promise<void>(resolve => queue.push(resolve));
+      }
+      try {
+        return await job();
+      } finally {
+        release();
+      }
+    },
+    active: () => running
+  };
+};
+
+// Like Promise.all over items, but with at most `limit` calls in flight; results keep the input order
+export const mapLimit = async <T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, Math.floor(limit)), items.length) }, worker));
+  return results;
+};
@@ -0,0 +1,68 @@
+import { RunState, WalletAccount } from '../types';
+import { EngineTaskKind, EngineTaskOptions, EngineTaskResult, EngineWorkerEvent, EngineWorkerMessage, executeTask } from './engineTasks';
+import { HookBatch, createBatchedHooks } from './hookBatcher';
+import { RunControl } from './runControl';
+import { errorMessage } from './errorClassifier';
+
+// Runs an engine task in a dedicated Web Worker so signing and sending thousands of txs
+// never blocks rendering. Hook events arrive as per-frame batches through `onBatch`.
+// The mock chain lives in this page's memory, so mock runs (and environments without
+// workers) execute in-process instead, batched the same way.
+export const runEngineTask = async <K extends EngineTaskKind>(
+  kind: K, options: EngineTaskOptions<K>, onBatch: (batch: HookBatch) => void
+): Promise<EngineTaskResult<K>> => {
+  if (options.network.mock || typeof Worker === 'undefined') {
+    const hooks = createBatchedHooks(onBatch);
+    try {
+      return await executeTask(kind, options, hooks);
+    } finally {
+      hooks.flush();
+    }
+  }
+
+  // Functions can't be posted: control is relayed as messages, the fleet source on request
+  const { control, createFleet, ...payload } = options as EngineTaskOptions<K> & {
+    control?: RunControl, createFleet?: () => Promise<WalletAccount[]>
+  };
+  const worker = new Worker(new URL('./engineWorker.ts', import.meta.url), { type: 'module' });
+  const send = (message: EngineWorkerMessage) => worker.postMessage(message);
+  const relay = (state: RunState) => send(state === 'aborted'
+    ? { type: 'control', action: 'abort', reason: control?.abortReason() }
+    : { type: 'control', action: state === 'paused' ? 'pause' : 'resume' });
+  const unsubscribe = control?.subscribe(relay);
+
+  try {
+    return await new Promise<EngineTaskResult<K>>((resolve, reject) => {
+      worker.onmessage = async ({ data }: MessageEvent<EngineWorkerEvent>) => {
+        switch (data.type) {
+          case 'batch':
+            onBatch(data.batch);
+            break;
+          case 'abort':
+            control?.abort(data.reason);
+            break;
+          case 'fleet':
+            try {
+              if (!createFleet) throw new Error('No fleet source configured');
+              send({ type: 'fleet', wallets: await createFleet() });
+            } catch (e) {
+              send({ type: 'fleet', error: errorMessage(e) });
+            }
+            break;
+          case 'done':
+            resolve(data.result as EngineTaskResult<K>);
+            break;
+          case 'error':
+            reject(new Error(data.message));
+            break;
+        }
+      };
+      worker.onerror = (event) => reject(new Error(event.message || 'Engine worker crashed'));
+      send({ type: 'start', kind, options: payload as EngineTaskOptions<EngineTaskKind>, fleetSource: !!createFleet });
+      if (control && control.state() !== 'running') relay(control.state());
+    });
+  } finally {
+    unsubscribe?.();
+    worker.terminate();
+  }
+};
@@ -0,0 +1,44 @@
+import { ApprovalResult, WalletAccount } from '../types';
+import { ApprovalOptions, FundingOptions, FundingResult, SwarmOptions, SwarmResult, SweepOptions, SweepSummary, TokenFundingOptions, runApprovals, runFunding, runSweep, runSwarm, runTokenFunding } from './swarmEngine';
+import { PipelineHooks, PipelineOptions, PipelineResult, runPipeline } from './pipeline';
+import { HookBatch } from './hookBatcher';
+
+// Engine entry points the app can hand to a worker, keyed by task name
+export interface EngineTasks {
+  funding: { options: FundingOptions, result: FundingResult };
+  tokenFunding: { options: TokenFundingOptions, result: FundingResult };
+  approvals: { options: ApprovalOptions, result: ApprovalResult[] };
+  sweep: { options: SweepOptions, result: SweepSummary };
+  swarm: { options: SwarmOptions, result: SwarmResult };
+  pipeline: { options: PipelineOptions, result: PipelineResult };
+}
+
+export type EngineTaskKind = keyof EngineTasks;
+export type EngineTaskOptions<K extends EngineTaskKind> = EngineTasks[K]['options'];
+export type EngineTaskResult<K extends EngineTaskKind> = EngineTasks[K]['result'];
+
+const TASKS: { [K in EngineTaskKind]: (options: EngineTaskOptions<K>, hooks: PipelineHooks) => Promise<EngineTaskResult<K>> } = {
+  funding: runFunding,
+  tokenFunding: runTokenFunding,
+  approvals: runApprovals,
+  sweep: runSweep,
+  swarm: runSwarm,
+  pipeline: runPipeline
+};
+
+export const executeTask = <K extends EngineTaskKind>(kind: K, options: EngineTaskOptions<K>, hooks: PipelineHooks): Promise<EngineTaskResult<K>> =>
+  TASKS[kind](options, hooks);
+
+// Page -> engine worker. Options arrive without their functions (control, createFleet).
+export type EngineWorkerMessage =
+  | { type: 'start', kind: EngineTaskKind, options: EngineTaskOptions<EngineTaskKind>, fleetSource: boolean }
+  | { type: 'control', action: 'pause' | 'resume' | 'abort', reason?: string }
+  | { type: 'fleet', wallets?: WalletAccount[], error?: string };
+
+// Engine worker -> page
+export type EngineWorkerEvent =
+  | { type: 'batch', batch: HookBatch }
+  | { type: 'abort', reason: string } // An abort trigger fired inside the worker
+  | { type: 'fleet' } // The pipeline's fleet phase needs wallets from the page
+  | { type: 'done', result: EngineTaskResult<EngineTaskKind> }
+  | { type: 'error', message: string };
@@ -0,0 +1,50 @@
+import { WalletAccount } from '../types';
+import { EngineWorkerEvent, EngineWorkerMessage, executeTask } from './engineTasks';
+import { createBatchedHooks } from './hookBatcher';
+import { createRunControl } from './runControl';
+import { errorMessage } from './errorClassifier';
+
+// Runs one engine task off the main thread, see engineClient. Signing, broadcasting and
+// receipt polling happen here; the page only receives hook batches and the result.
+const scope = self as unknown as Worker;
+const post = (event: EngineWorkerEvent) => scope.postMessage(event);
+
+// Mirrors the page's control; abort triggers fire on this side and are reported back
+const control = createRunControl(state => {
+  if (state === 'aborted') post({ type: 'abort', reason: control.abortReason() ?? 'aborted' });
+});
+
+let fleetReply: ((message: Extract<EngineWorkerMessage, { type: 'fleet' }>) => void) | null = null;
+
+const requestFleet = () => new Promise<WalletAccount[]>((resolve, reject) => {
+  fleetReply = ({ wallets, error }) => wallets ? resolve(wallets) : reject(new Error(error || 'No fleet returned'));
+  post({ type: 'fleet' });
+});
+
+scope.onmessage = async ({ data }: MessageEvent<EngineWorkerMessage>) => {
+  switch (data.type) {
+    case 'control':
+      if (data.action === 'abort') {
+        control.abort(data.reason || 'aborted');
+      } else {
+        control[data.action]();
+      }
+      return;
+    case 'fleet':
+      fleetReply?.(data);
+      fleetReply = null;
+      return;
+    case 'start': {
+      const hooks = createBatchedHooks(batch => post({ type: 'batch', batch }));
+      const options = { ...data.options, control, createFleet: data.fleetSource ? requestFleet : undefined };
+      try {
+        const result = await executeTask(data.kind, options, hooks);
+        hooks.flush();
+        post({ type: 'done', result });
+      } catch (e) {
+        hooks.flush();
+        post({ type: 'error', message: errorMessage(e) });
+      }
+    }
+  }
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { classifyError, errorMessage, isAlreadyKnown } from './errorClassifier';
+
+// Shaped like ethers v6 errors: the node's reply sits under info.error
+const rpcError = (message: string, code = -32000) => ({
+  code: 'SERVER_ERROR', shortMessage: 'could not coalesce error', info: { error: { code, message } }
+});
+
+describe('classifyError', () => {
+  it.each([
+    'rate limit exceeded',
+    'request limit exceeded',
+    'query limit exceeded',
+    'Too Many Requests',
+    'daily request count exceeds capacity'
+  ])('classifies "%s" as rate limited', message => {
+    expect(classifyError(rpcError(message))).toBe('rate_limited');
+  });
+
+  it('classifies -32005 replies and HTTP 429 responses as rate limited', () => {
+    expect(classifyError(rpcError('slow down', -32005))).toBe('rate_limited');
+    expect(classifyError({ code: 'SERVER_ERROR', info: { responseStatus: '429 Too Many Requests' } })).toBe('rate_limited');
+  });
+
+  it.each([
+    'gas limit exceeded',
+    'exceeds block gas limit',
+    'tx gas limit exceeded the block gas limit'
+  ])('does not treat "%s" as a rate limit', message => {
+    expect(classifyError(rpcError(message))).not.toBe('rate_limited');
+  });
+
+  it('classifies nonce, fee, funds and revert errors', () => {
+    expect(classifyError(rpcError('nonce too low: next nonce 3, tx nonce 1'))).toBe('nonce_conflict');
+    expect(classifyError(rpcError('replacement transaction underpriced'))).toBe('nonce_conflict');
+    expect(classifyError(rpcError('max fee per gas less than block base fee'))).toBe('underpriced');
+    expect(classifyError(rpcError('insufficient funds for gas * price + value'))).toBe('insufficient_funds');
+    expect(classifyError(rpcError('execution reverted: paused'))).toBe('execution_reverted');
+    expect(classifyError({ code: 'ECONNRESET', message: 'socket hang up' })).toBe('network_timeout');
+  });
+});
+
+describe('errorMessage', () => {
+  it('prefers the node message over the ethers wrapper', () => {
+    expect(errorMessage(rpcError('nonce too low'))).toBe('nonce too low');
+    expect(errorMessage({ error: { message: 'rate limit exceeded' }, shortMessage: 'could not coalesce error' })).toBe('rate limit exceeded');
+  });
+});
+
+describe('isAlreadyKnown', () => {
+  it('recognises duplicate broadcasts', () => {
+    expect(isAlreadyKnown(rpcError('already known'))).toBe(true);
+    expect(isAlreadyKnown(rpcError('nonce too low'))).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+import { ErrorClass, RetryPolicies, RetryPolicy } from '../types';
+
+export const ERROR_CLASS_LABELS: Record<ErrorClass, string> = {
+  rate_limited: 'Rate limited',
+  network_timeout: 'Network / timeout',
+  nonce_conflict: 'Nonce conflict',
+  underpriced: 'Underpriced',
+  insufficient_funds: 'Insufficient funds',
+  execution_reverted: 'Reverted',
+  unknown: 'Unknown'
+};
+
+export const ERROR_CLASSES = Object.keys(ERROR_CLASS_LABELS) as ErrorClass[];
+
+// Checked in order: "replacement transaction underpriced" is a nonce conflict, not a fee problem.
+// "already known" is not an error class at all, see isAlreadyKnown.
+const MESSAGE_RULES: [ErrorClass, RegExp][] = [
+  ['rate_limited', /\b429\b|rate.?limit|too many requests|(rate|request|query) limit exceeded|exceeds? .*capacity/i],
+  ['nonce_conflict', /nonce too low|nonce has already been used|replacement (transaction )?underpriced/i],
+  ['underpriced', /underpriced|fee too low|gas price (too low|below)|less than (the )?block base fee|fee cap less than/i],
+  ['insufficient_funds', /insufficient (funds|balance)/i],
+  ['execution_reverted', /execution reverted|\brevert/i],
+  ['network_timeout', /timeout|timed out|ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|socket hang up|fetch failed|network error|failed to fetch|missing response/i]
+];
+
+const CODE_CLASSES: Record<string, ErrorClass> = {
+  NONCE_EXPIRED: 'nonce_conflict',
+  REPLACEMENT_UNDERPRICED: 'nonce_conflict',
+  INSUFFICIENT_FUNDS: 'insufficient_funds',
+  CALL_EXCEPTION: 'execution_reverted',
+  TIMEOUT: 'network_timeout',
+  NETWORK_ERROR: 'network_timeout'
+};
+
+// Human-readable reason, preferring the node's own message over ethers' wrapper text.
+// ethers v6 nests it under info.error, or under error for replies it could not coalesce.
+export const errorMessage = (error: unknown): string => {
+  const e = error as any;
+  return e?.info?.error?.message || e?.error?.message || e?.reason || e?.shortMessage || e?.message || 'Unknown error';
+};
+
+const errorText = (error: unknown): string => {
+  const e = error as any;
+  return [e?.info?.error?.message, e?.error?.message, e?.shortMessage, e?.message, e?.code].filter(Boolean).join(' ');
+};
+
+// The node already holds this exact signed tx, e.g. a broadcast whose reply was lost. The send
+// succeeded: resending the action at a fresh nonce would put a duplicate on chain.
+export const isAlreadyKnown = (error: unknown): boolean =>
+  /already known|already imported|known transaction/i.test(errorText(error));
+
+// Maps ethers error codes and raw RPC messages onto the retry taxonomy. The node's
+// message wins over a generic code, since ethers reports most RPC errors as SERVER_ERROR.
+export const classifyError = (error: unknown): ErrorClass => {
+  const e = error as any;
+  const status = String(e?.info?.responseStatus ?? e?.status ?? '');
+  if (status.startsWith('429') || (e?.info?.error ?? e?.error)?.code === -32005) return 'rate_limited';
+
+  const text = errorText(error);
+  for (const [errorClass, pattern] of MESSAGE_RULES) {
+    if (pattern.test(text)) return errorClass;
+  }
+  return CODE_CLASSES[e?.code] ?? 'unknown';
+};
+
+// Wait before retry number `attempt` (1-based). The cap never cuts below the first delay.
+export const backoffDelay = (policy: RetryPolicy, attempt: number): number =>
+  Math.min(Math.max(policy.maxBackoffMs, policy.backoffMs), policy.backoffMs * Math.pow(policy.backoffMultiplier, attempt - 1));
+
+// Runs one RPC step of a wallet tx (sweeps, approvals), retrying rate limits and timeouts
+// with their policies' backoff. Every other error is thrown at once.
+export const retryTransient = async <T>(job: () => Promise<T>, policies: RetryPolicies): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await job();
+    } catch (error) {
+      const errorClass = classifyError(error);
+      const policy = policies[errorClass];
+      if ((errorClass !== 'rate_limited' && errorClass !== 'network_timeout') || attempt > policy.maxRetries) throw error;
+      await new Promise(resolve => setTimeout(resolve, backoffDelay(policy, attempt)));
+    }
+  }
+};
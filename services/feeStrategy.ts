@@ -0,0 +1,86 @@
+import { formatUnits, parseUnits } from 'ethers';
+import { FeeConfig, FeeParams, NetworkProfile } from '../types';
+import { DYNAMIC_FEE_REFRESH_MS } from '../constants';
+import { getBaseFee, getPriorityFee } from './celoService';
+
+export interface FeeResolver {
+  next: () => Promise<FeeParams | undefined>; // Fee fields for the next tx; undefined leaves pricing to the RPC
+}
+
+const gwei = (value: string) => parseUnits(value || '0', 'gwei');
+const min = (a: bigint, b: bigint) => a < b ? a : b;
+
+export const describeFees = ({ strategy, feeCurrency }: FeeConfig): string => {
+  const unit = feeCurrency ? ` (paid in ${feeCurrency})` : '';
+  switch (strategy.kind) {
+    case 'auto': return `auto${unit}`;
+    case 'fixed': return `fixed ${strategy.gasPriceGwei} gwei${unit}`;
+    case 'baseFeeMultiplier': return `${strategy.gasPriceMultiplier}x base fee + ${strategy.priorityFeeGwei} gwei tip${unit}`;
+    case 'capped': return `max ${strategy.maxFeeGwei} gwei, tip ${strategy.priorityFeeGwei} gwei${unit}`;
+    case 'dynamic': return `2x latest base fee + ${strategy.priorityFeeGwei} gwei tip${strategy.maxFeeCapGwei ? `, capped at ${strategy.maxFeeCapGwei} gwei` : ''}${unit}`;
+  }
+};
+
+export const formatFeeParams = (fee?: FeeParams): string => {
+  if (!fee) return 'RPC default';
+  if (fee.gasPrice !== undefined) return `gasPrice ${formatUnits(fee.gasPrice, 'gwei')} gwei`;
+  return `maxFee ${formatUnits(fee.maxFeePerGas ?? 0n, 'gwei')} / tip ${formatUnits(fee.maxPriorityFeePerGas ?? 0n, 'gwei')} gwei`;
+};
+
+// Prices swarm txs per the configured strategy. Base fee reads are shared
+// between concurrent sends, so a busy fleet doesn't hammer the RPC.
+export const createFeeResolver = (network: NetworkProfile, config: FeeConfig): FeeResolver => {
+  const { strategy, feeCurrency } = config;
+  let startBaseFee: Promise<bigint> | null = null;
+  let autoPriorityFee: Promise<bigint> | null = null;
+  let latest: { at: number, baseFee: Promise<bigint> } | null = null;
+
+  const latestBaseFee = (): Promise<bigint> => {
+    if (!latest || Date.now() - latest.at > DYNAMIC_FEE_REFRESH_MS) {
+      const baseFee = getBaseFee(network, feeCurrency);
+      // A failed read must not stick for the whole refresh window
+      baseFee.catch(() => { latest = null; });
+      latest = { at: Date.now(), baseFee };
+    }
+    return latest.baseFee;
+  };
+
+  const eip1559 = (maxFeePerGas: bigint, maxPriorityFeePerGas: bigint): FeeParams => ({
+    maxFeePerGas,
+    maxPriorityFeePerGas: min(maxPriorityFeePerGas, maxFeePerGas),
+    feeCurrency
+  });
+
+  const next = async (): Promise<FeeParams | undefined> => {
+    switch (strategy.kind) {
+      case 'auto': {
+        if (!feeCurrency) return undefined;
+        // ethers can't price fee-currency txs, so follow the base fee like 'dynamic'
+        autoPriorityFee ??= getPriorityFee(network, feeCurrency);
+        const [baseFee, priorityFee] = await Promise.all([latestBaseFee(), autoPriorityFee]);
+        return eip1559(baseFee * 2n + priorityFee, priorityFee);
+      }
+      case 'fixed': {
+        const price = gwei(strategy.gasPriceGwei);
+        // Fee-currency txs are always EIP-1559 style; equal caps behave like a legacy price
+        return feeCurrency ? eip1559(price, price) : { gasPrice: price };
+      }
+      case 'baseFeeMultiplier': {
+        startBaseFee ??= getBaseFee(network, feeCurrency);
+        const baseFee = await startBaseFee;
+        const priorityFee = gwei(strategy.priorityFeeGwei);
+        const scaled = (baseFee * BigInt(Math.round(strategy.gasPriceMultiplier * 1000))) / 1000n;
+        return eip1559(scaled + priorityFee, priorityFee);
+      }
+      case 'capped':
+        return eip1559(gwei(strategy.maxFeeGwei), gwei(strategy.priorityFeeGwei));
+      case 'dynamic': {
+        const priorityFee = gwei(strategy.priorityFeeGwei);
+        const maxFee = (await latestBaseFee()) * 2n + priorityFee;
+        return eip1559(strategy.maxFeeCapGwei ? min(maxFee, gwei(strategy.maxFeeCapGwei)) : maxFee, priorityFee);
+      }
+    }
+  };
+
+  return { next };
+};
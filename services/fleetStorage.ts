@@ -0,0 +1,119 @@
+import { Wallet, encryptKeystoreJson } from 'ethers';
+import { FLEET_KEYSTORE_SCRYPT_N, VAULT_PBKDF2_ITERATIONS } from '../constants';
+import { StoredFleetMeta, WalletAccount } from '../types';
+import { withStore } from './localDb';
+
+// What is persisted per fleet: metadata in clear, wallets as AES-GCM ciphertext
+interface StoredFleetRecord extends StoredFleetMeta {
+  salt: number[];
+  iv: number[];
+  ciphertext: number[];
+}
+
+const deriveKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: VAULT_PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+// A fleet is identified by its first wallet, so re-saving the same fleet overwrites it
+export const fleetIdFor = (wallets: WalletAccount[]): string => `fleet-${wallets[0].address.toLowerCase()}`;
+
+export const saveFleet = async (wallets: WalletAccount[], passphrase: string, networkId: string): Promise<StoredFleetMeta> => {
+  if (wallets.length === 0) throw new Error('Cannot save an empty fleet');
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt);
+  const plaintext = new TextEncoder().encode(JSON.stringify(wallets));
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext));
+
+  const meta: StoredFleetMeta = {
+    id: fleetIdFor(wallets),
+    networkId,
+    walletCount: wallets.length,
+    firstAddress: wallets[0].address,
+    updatedAt: Date.now()
+  };
+  const record: StoredFleetRecord = {
+    ...meta,
+    salt: Array.from(salt),
+    iv: Array.from(iv),
+    ciphertext: Array.from(ciphertext)
+  };
+  await withStore('fleets', 'readwrite', store => store.put(record));
+  return meta;
+};
+
+// Most recently saved first
+export const listFleets = async (): Promise<StoredFleetMeta[]> => {
+  const records = await withStore<StoredFleetRecord[]>('fleets', 'readonly', store => store.getAll());
+  return records
+    .map(({ id, networkId, walletCount, firstAddress, updatedAt }) => ({ id, networkId, walletCount, firstAddress, updatedAt }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadFleet = async (id: string, passphrase: string): Promise<WalletAccount[]> => {
+  const record = await withStore<StoredFleetRecord | undefined>('fleets', 'readonly', store => store.get(id));
+  if (!record) throw new Error(`No saved fleet ${id}`);
+
+  const key = await deriveKey(passphrase, new Uint8Array(record.salt));
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: new Uint8Array(record.iv) }, key, new Uint8Array(record.ciphertext));
+  } catch (e) {
+    throw new Error('Wrong passphrase or corrupted fleet record');
+  }
+
+  const wallets: WalletAccount[] = JSON.parse(new TextDecoder().decode(plaintext));
+  return wallets.map(w => ({ ...w, status: 'idle', nonceState: undefined }));
+};
+
+export const deleteFleet = async (id: string): Promise<void> => {
+  await withStore('fleets', 'readwrite', store => store.delete(id));
+};
+
+// JSON array of standard (V3) keystores, one per wallet
+export const exportFleetKeystores = async (
+  wallets: WalletAccount[],
+  password: string,
+  onProgress?: (done: number) => void
+): Promise<string> => {
+  const keystores: unknown[] = [];
+  for (const w of wallets) {
+    const json = await encryptKeystoreJson({ address: w.address, privateKey: w.privateKey }, password, {
+      scrypt: { N: FLEET_KEYSTORE_SCRYPT_N }
+    });
+    keystores.push(JSON.parse(json));
+    onProgress?.(keystores.length);
+  }
+  return JSON.stringify(keystores, null, 2);
+};
+
+// Accepts a single keystore object or an array of them
+export const importFleetKeystores = async (
+  text: string,
+  password: string,
+  onProgress?: (done: number) => void
+): Promise<WalletAccount[]> => {
+  const parsed = JSON.parse(text);
+  const keystores: unknown[] = Array.isArray(parsed) ? parsed : [parsed];
+  const wallets: WalletAccount[] = [];
+  for (const keystore of keystores) {
+    const wallet = await Wallet.fromEncryptedJson(JSON.stringify(keystore), password);
+    wallets.push({
+      address: wallet.address,
+      privateKey: wallet.privateKey,
+      balance: '0',
+      txCount: 0,
+      status: 'idle'
+    });
+    onProgress?.(wallets.length);
+  }
+  return wallets;
+};
@@ -0,0 +1,75 @@
+import { LogEntry, MetricsSnapshot, PhaseState, SwarmStats, WalletAccount } from '../types';
+import { UI_FRAME_RATE } from '../constants';
+import { PipelineHooks } from './pipeline';
+
+// Engine events coalesced over one frame. Plain data so it can be posted from a worker.
+export interface HookBatch {
+  logs: LogEntry[]; // New entries, with patches that arrived in the same frame already applied
+  logPatches: Map<string, Partial<LogEntry>>; // Entries from earlier frames
+  wallets: Map<number, Partial<WalletAccount>>;
+  stats?: SwarmStats;
+  metrics?: MetricsSnapshot;
+  phases: Map<number, PhaseState>;
+}
+
+export interface BatchedHooks extends PipelineHooks {
+  flush: () => void; // Emit whatever is pending now, e.g. before reporting a result
+}
+
+const emptyBatch = (): HookBatch => ({ logs: [], logPatches: new Map(), wallets: new Map(), phases: new Map() });
+
+// Engine hooks that buffer events and hand them to `emit` at most `frameRate` times per second,
+// so a 1000-wallet swarm costs the UI one state update per frame instead of one per event.
+export const createBatchedHooks = (emit: (batch: HookBatch) => void, frameRate = UI_FRAME_RATE): BatchedHooks => {
+  let batch = emptyBatch();
+  let fresh = new Map<string, number>(); // Log id -> index in batch.logs
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    const ready = batch;
+    if (ready.logs.length === 0 && ready.logPatches.size === 0 && ready.wallets.size === 0 && !ready.stats && !ready.metrics && ready.phases.size === 0) return;
+    batch = emptyBatch();
+    fresh = new Map();
+    emit(ready);
+  };
+
+  const schedule = () => {
+    timer ??= setTimeout(flush, 1000 / frameRate);
+  };
+
+  return {
+    log: (entry) => {
+      fresh.set(entry.id, batch.logs.length);
+      batch.logs.push(entry);
+      schedule();
+    },
+    updateLog: (id, patch) => {
+      const index = fresh.get(id);
+      if (index !== undefined) {
+        batch.logs[index] = { ...batch.logs[index], ...patch };
+      } else {
+        batch.logPatches.set(id, { ...batch.logPatches.get(id), ...patch });
+      }
+      schedule();
+    },
+    updateWallet: (index, patch) => {
+      batch.wallets.set(index, { ...batch.wallets.get(index), ...patch });
+      schedule();
+    },
+    updateStats: (stats) => {
+      batch.stats = stats;
+      schedule();
+    },
+    updateMetrics: (metrics) => {
+      batch.metrics = metrics;
+      schedule();
+    },
+    updatePhase: (index, state) => {
+      batch.phases.set(index, state);
+      schedule();
+    },
+    flush
+  };
+};
@@ -0,0 +1,123 @@
+import { LoadProfile } from '../types';
+import { RunControl } from './runControl';
+
+export interface ScheduleOptions {
+  profile: Exclude<LoadProfile, { kind: 'burst' }>;
+  maxTx: number;
+  maxDurationSec?: number;
+  tickMs?: number;
+  control?: RunControl; // A pause freezes the profile's clock; an abort ends the schedule
+}
+
+export interface ScheduleResult {
+  dispatched: number;
+  skipped: number; // Scheduled slots dropped because no wallet or send slot was free
+  elapsedMs: number;
+  stoppedBy: 'maxTx' | 'duration' | 'aborted';
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Target aggregate tx/s at `t` seconds into the run
+export const rateAt = (profile: LoadProfile, t: number): number => {
+  switch (profile.kind) {
+    case 'burst':
+      return Infinity;
+    case 'constant':
+      return profile.rate;
+    case 'ramp': {
+      if (profile.durationSec <= 0 || t >= profile.durationSec) return profile.toRate;
+      return profile.fromRate + (profile.toRate - profile.fromRate) * (t / profile.durationSec);
+    }
+    case 'steps': {
+      let end = 0;
+      for (const step of profile.steps) {
+        end += step.durationSec;
+        if (t < end) return step.rate;
+      }
+      return 0;
+    }
+    case 'spike': {
+      const phase = profile.intervalSec > 0 ? t % profile.intervalSec : 0;
+      return phase < profile.spikeDurationSec ? profile.spikeRate : profile.baseRate;
+    }
+  }
+};
+
+// Natural end of a profile, or null when it runs until a stop condition
+export const profileDurationSec = (profile: LoadProfile): number | null => {
+  if (profile.kind === 'steps') {
+    return profile.steps.reduce((sum, step) => sum + step.durationSec, 0);
+  }
+  return null;
+};
+
+export const describeProfile = (profile: LoadProfile): string => {
+  switch (profile.kind) {
+    case 'burst':
+      return 'burst (all wallets, back to back)';
+    case 'constant':
+      return `constant ${profile.rate} tx/s`;
+    case 'ramp':
+      return `ramp ${profile.fromRate} -> ${profile.toRate} tx/s over ${profile.durationSec}s`;
+    case 'steps':
+      return `steps ${profile.steps.map(s => `${s.rate} tx/s x ${s.durationSec}s`).join(', ')}`;
+    case 'spike':
+      return `spike ${profile.spikeRate} tx/s for ${profile.spikeDurationSec}s every ${profile.intervalSec}s, base ${profile.baseRate} tx/s`;
+  }
+};
+
+// Drives dispatches at the profile's rate by integrating it over time.
+// tryDispatch returns false when the fleet has no free wallet; that slot is
+// retried on later ticks, but backlog is capped at one second of load so a
+// saturated fleet doesn't catch up in a burst that distorts the shape.
+export const runSchedule = async (
+  options: ScheduleOptions,
+  tryDispatch: (seq: number) => boolean
+): Promise<ScheduleResult> => {
+  const { profile, maxTx, tickMs = 50, control } = options;
+  const naturalEnd = profileDurationSec(profile);
+  const limits = [options.maxDurationSec, naturalEnd ?? undefined].filter((v): v is number => v !== undefined && v > 0);
+  const durationLimitMs = limits.length > 0 ? Math.min(...limits) * 1000 : Infinity;
+
+  let startedAt = Date.now();
+  let lastTick = startedAt;
+  let credit = 0;
+  let dispatched = 0;
+  let skipped = 0;
+
+  while (true) {
+    if (control && control.state() !== 'running') {
+      const pausedAt = Date.now();
+      if (!(await control.proceed())) {
+        return { dispatched, skipped, elapsedMs: pausedAt - startedAt, stoppedBy: 'aborted' };
+      }
+      // Resume where the profile left off, without credit for the paused time
+      startedAt += Date.now() - pausedAt;
+      lastTick = Date.now();
+    }
+
+    const now = Date.now();
+    const elapsedMs = now - startedAt;
+    if (dispatched >= maxTx) return { dispatched, skipped, elapsedMs, stoppedBy: 'maxTx' };
+    if (elapsedMs >= durationLimitMs) return { dispatched, skipped, elapsedMs, stoppedBy: 'duration' };
+
+    const rate = Math.max(0, rateAt(profile, elapsedMs / 1000));
+    credit += rate * (now - lastTick) / 1000;
+    lastTick = now;
+
+    while (credit >= 1 && dispatched < maxTx) {
+      if (!tryDispatch(dispatched)) break;
+      dispatched++;
+      credit--;
+    }
+
+    const cap = Math.max(1, rate);
+    if (credit > cap) {
+      skipped += Math.floor(credit - cap);
+      credit -= Math.floor(credit - cap);
+    }
+
+    await sleep(tickMs);
+  }
+};
@@ -0,0 +1,32 @@
+// The app's IndexedDB database, shared by the fleet vault and run history
+const DB_NAME = 'celoship';
+const DB_VERSION = 2; // 2: added 'runs'
+const STORES = ['fleets', 'runs'] as const;
+
+export type StoreName = typeof STORES[number];
+
+const openDb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    for (const name of STORES) {
+      if (!request.result.objectStoreNames.contains(name)) {
+        request.result.createObjectStore(name, { keyPath: 'id' });
+      }
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const withStore = async <T>(name: StoreName, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(name, mode).objectStore(name));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
@@ -0,0 +1,127 @@
+import { ActionMetrics, ErrorBreakdown, ErrorClass, LatencySummary, MetricsSnapshot, SwarmStats, TpsPoint, TxFeeData, TxTiming } from '../types';
+
+export interface MetricsCollector {
+  recordAccepted: (hash: string, submitStartedAt: number, acceptedAt: number, actionId?: string, fee?: TxFeeData) => void;
+  recordIncluded: (hash: string, includedAt: number, blockNumber: number) => void;
+  countAction: (actionId: string, field: keyof SwarmStats) => void;
+  recordError: (errorClass: ErrorClass, retried: boolean) => void;
+  replaceHash: (oldHash: string, newHash: string, fee?: TxFeeData) => void; // Resent at the same nonce
+  timings: () => TxTiming[];
+  snapshot: () => MetricsSnapshot;
+}
+
+// Nearest-rank percentile over an ascending-sorted array
+const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))];
+};
+
+export const summarizeLatency = (values: number[]): LatencySummary => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p99: percentile(sorted, 99),
+    max: sorted.length > 0 ? sorted[sorted.length - 1] : 0
+  };
+};
+
+// Records per-tx timings for a single swarm run. Inclusion time is when the
+// receipt was observed, so its resolution is bounded by the receipt poll interval,
+// unless a block observer saw the tx's block arrive first.
+export const createMetricsCollector = (
+  startedAt: number = Date.now(),
+  actions: { id: string, name: string }[] = []
+): MetricsCollector => {
+  const records = new Map<string, TxTiming>();
+  const actionCounts = new Map<string, SwarmStats>(actions.map(a => [a.id, {
+    totalTx: 0, submittedTx: 0, failedTx: 0, minedTx: 0, revertedTx: 0, replacedTx: 0, droppedTx: 0
+  }]));
+
+  const errors = new Map<ErrorClass, ErrorBreakdown>();
+
+  const buildActions = (included: TxTiming[]): ActionMetrics[] => actions.map(action => ({
+    actionId: action.id,
+    name: action.name,
+    stats: { ...actionCounts.get(action.id)! },
+    inclusionLatency: summarizeLatency(
+      included.filter(r => r.actionId === action.id).map(r => r.includedAt! - r.submitStartedAt)
+    )
+  }));
+
+  const buildSeries = (elapsedMs: number): TpsPoint[] => {
+    const seconds = Math.max(1, Math.ceil(elapsedMs / 1000));
+    const series: TpsPoint[] = Array.from({ length: seconds }, (_, second) => ({
+      second, submitted: 0, mined: 0, avgInclusionMs: null
+    }));
+    const inclusionSums = new Array<number>(seconds).fill(0);
+
+    for (const r of records.values()) {
+      const acceptedBucket = Math.floor((r.acceptedAt - startedAt) / 1000);
+      if (series[acceptedBucket]) series[acceptedBucket].submitted++;
+      if (r.includedAt !== undefined) {
+        const minedBucket = Math.floor((r.includedAt - startedAt) / 1000);
+        if (series[minedBucket]) {
+          series[minedBucket].mined++;
+          inclusionSums[minedBucket] += r.includedAt - r.submitStartedAt;
+        }
+      }
+    }
+
+    series.forEach((point, i) => {
+      if (point.mined > 0) point.avgInclusionMs = inclusionSums[i] / point.mined;
+    });
+    return series;
+  };
+
+  return {
+    recordAccepted: (hash, submitStartedAt, acceptedAt, actionId, fee) => {
+      records.set(hash, { hash, submitStartedAt, acceptedAt, actionId, fee });
+    },
+    recordIncluded: (hash, includedAt, blockNumber) => {
+      const record = records.get(hash);
+      // Keep the earliest sighting: a block header usually beats the receipt poll
+      if (!record || (record.includedAt !== undefined && record.includedAt <= includedAt)) return;
+      record.includedAt = includedAt;
+      record.blockNumber = blockNumber;
+    },
+    replaceHash: (oldHash, newHash, fee) => {
+      const record = records.get(oldHash);
+      if (!record) return;
+      records.delete(oldHash);
+      // Latency keeps counting from the original submit
+      records.set(newHash, { ...record, hash: newHash, fee: fee ?? record.fee });
+    },
+    recordError: (errorClass, retried) => {
+      const entry = errors.get(errorClass) ?? { errorClass, failed: 0, retried: 0 };
+      if (retried) entry.retried++; else entry.failed++;
+      errors.set(errorClass, entry);
+    },
+    countAction: (actionId, field) => {
+      const counts = actionCounts.get(actionId);
+      if (counts) counts[field]++;
+    },
+    timings: () => Array.from(records.values()).map(r => ({ ...r })),
+    snapshot: () => {
+      const elapsedMs = Math.max(0, Date.now() - startedAt);
+      const all = Array.from(records.values());
+      const included = all.filter(r => r.includedAt !== undefined);
+      const elapsedSec = Math.max(elapsedMs / 1000, 1);
+
+      return {
+        startedAt,
+        elapsedMs,
+        acceptLatency: summarizeLatency(all.map(r => r.acceptedAt - r.submitStartedAt)),
+        inclusionLatency: summarizeLatency(included.map(r => r.includedAt! - r.submitStartedAt)),
+        submittedTps: all.length / elapsedSec,
+        minedTps: included.length / elapsedSec,
+        series: buildSeries(elapsedMs),
+        blockCount: new Set(included.map(r => r.blockNumber)).size,
+        actions: buildActions(included),
+        errors: Array.from(errors.values()).map(e => ({ ...e }))
+      };
+    }
+  };
+};
@@ -0,0 +1,482 @@
+import { Interface, JsonRpcPayload, JsonRpcProvider, JsonRpcResult, Network, Transaction, getAddress, getCreateAddress, getBytes, id, parseUnits, toQuantity } from 'ethers';
+import { MockChainConfig, NetworkProfile } from '../types';
+import { DISPERSE_ABI, DISPERSE_BYTECODE, MOCK_CONTRACT_CALL_GAS, MOCK_DISPERSE_GAS_PER_RECIPIENT, MOCK_PRIORITY_FEE_GWEI } from '../constants';
+
+// Controls for dry runs and offline tests; the provider side is plain JSON-RPC
+export interface MockChain {
+  blockNumber: () => number;
+  pendingCount: () => number;
+  balanceOf: (address: string) => bigint;
+  setBalance: (address: string, wei: bigint) => void;
+  configure: (patch: Partial<MockChainConfig>) => void; // e.g. raise error rates mid-run
+  mineBlock: () => void;
+  stop: () => void;
+}
+
+export interface MockProvider extends JsonRpcProvider {
+  chain: MockChain;
+}
+
+interface Account {
+  balance: bigint;
+  nonce: number;
+  contract?: 'disperse' | 'generic';
+}
+
+interface MinedInfo {
+  blockNumber: number;
+  index: number;
+  gasUsed: bigint;
+  effectiveGasPrice: bigint;
+  status: number;
+  contractAddress: string | null;
+}
+
+interface TxEntry {
+  tx: Transaction;
+  forceRevert: boolean; // Injected revert, decided when the tx was accepted
+  mined?: MinedInfo;
+}
+
+interface Block {
+  number: number;
+  hash: string;
+  parentHash: string;
+  timestamp: number;
+  gasUsed: bigint;
+  baseFee: bigint;
+  txHashes: string[];
+}
+
+// Carries a JSON-RPC error code and message back through _send
+class RpcError extends Error {
+  constructor(public code: number, message: string, public data?: string) {
+    super(message);
+  }
+}
+
+const disperseInterface = new Interface(DISPERSE_ABI);
+const EMPTY_BLOOM = '0x' + '00'.repeat(256);
+const ZERO_HASH = '0x' + '00'.repeat(32);
+
+// mulberry32: small, fast and good enough to make injected faults replayable
+const createRng = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const intrinsicGas = (tx: Transaction) => {
+  let gas = tx.to ? 21000n : 53000n;
+  for (const byte of getBytes(tx.data)) gas += byte === 0 ? 4n : 16n;
+  return gas;
+};
+
+const priorityFee = (tx: Transaction, baseFee: bigint) =>
+  tx.maxFeePerGas != null ? (tx.maxFeePerGas - baseFee < tx.maxPriorityFeePerGas! ? tx.maxFeePerGas - baseFee : tx.maxPriorityFeePerGas!) : tx.gasPrice! - baseFee;
+
+const maxFee = (tx: Transaction) => tx.maxFeePerGas ?? tx.gasPrice ?? 0n;
+
+// Worst-case cost the sender must cover up front
+const upfrontCost = (tx: Transaction) => tx.value + tx.gasLimit * maxFee(tx);
+
+const txJson = (entry: TxEntry, blockHash: string | null) => {
+  const { tx, mined } = entry;
+  const sig = tx.signature!;
+  return {
+    hash: tx.hash,
+    type: toQuantity(tx.type ?? 0),
+    from: tx.from,
+    to: tx.to,
+    nonce: toQuantity(tx.nonce),
+    gas: toQuantity(tx.gasLimit),
+    gasPrice: toQuantity(mined?.effectiveGasPrice ?? maxFee(tx)),
+    maxFeePerGas: tx.maxFeePerGas != null ? toQuantity(tx.maxFeePerGas) : undefined,
+    maxPriorityFeePerGas: tx.maxPriorityFeePerGas != null ? toQuantity(tx.maxPriorityFeePerGas) : undefined,
+    input: tx.data,
+    value: toQuantity(tx.value),
+    chainId: toQuantity(tx.chainId),
+    accessList: tx.type ? tx.accessList ?? [] : undefined,
+    r: sig.r,
+    s: sig.s,
+    v: toQuantity(tx.type === 0 && sig.networkV != null ? sig.networkV : sig.v),
+    yParity: toQuantity(sig.yParity),
+    blockHash,
+    blockNumber: mined ? toQuantity(mined.blockNumber) : null,
+    transactionIndex: mined ? toQuantity(mined.index) : null
+  };
+};
+
+// Balances, nonces, a fee market and block production, all in memory. Only the
+// disperse helper has contract semantics; other contracts accept any call.
+class MockChainState implements MockChain {
+  private config: MockChainConfig;
+  private rng: () => number;
+  private accounts = new Map<string, Account>();
+  private pool = new Map<string, Map<number, string>>(); // sender -> nonce -> tx hash
+  private txs = new Map<string, TxEntry>();
+  private blocks: Block[] = [];
+  private timer?: ReturnType<typeof setInterval>;
+  private minBaseFee: bigint;
+
+  constructor(readonly chainId: number, config: MockChainConfig) {
+    this.config = config;
+    this.rng = createRng(config.seed);
+    this.minBaseFee = parseUnits(config.baseFeeGwei, 'gwei');
+    this.blocks.push({
+      number: 0, hash: id(`mock-genesis-${chainId}`), parentHash: ZERO_HASH,
+      timestamp: Math.floor(Date.now() / 1000), gasUsed: 0n, baseFee: this.minBaseFee, txHashes: []
+    });
+    this.schedule();
+  }
+
+  private schedule() {
+    clearInterval(this.timer);
+    this.timer = this.config.blockTimeMs > 0 ? setInterval(() => this.mineBlock(), this.config.blockTimeMs) : undefined;
+  }
+
+  private account(address: string): Account {
+    const key = address.toLowerCase();
+    let account = this.accounts.get(key);
+    if (!account) {
+      account = { balance: 0n, nonce: 0 };
+      this.accounts.set(key, account);
+    }
+    return account;
+  }
+
+  private get head() {
+    return this.blocks[this.blocks.length - 1];
+  }
+
+  blockNumber() {
+    return this.head.number;
+  }
+
+  pendingCount() {
+    let count = 0;
+    for (const queue of this.pool.values()) count += queue.size;
+    return count;
+  }
+
+  balanceOf(address: string) {
+    return this.account(address).balance;
+  }
+
+  setBalance(address: string, wei: bigint) {
+    this.account(address).balance = wei;
+  }
+
+  configure(patch: Partial<MockChainConfig>) {
+    const blockTimeChanged = patch.blockTimeMs !== undefined && patch.blockTimeMs !== this.config.blockTimeMs;
+    this.config = { ...this.config, ...patch };
+    if (patch.seed !== undefined) this.rng = createRng(patch.seed);
+    if (patch.baseFeeGwei !== undefined) this.minBaseFee = parseUnits(patch.baseFeeGwei, 'gwei');
+    if (blockTimeChanged) this.schedule();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  latency() {
+    const { min, max } = this.config.latencyMs;
+    return min + Math.floor(this.rng() * Math.max(0, max - min));
+  }
+
+  // Gas the call needs, plus a revert reason when it would fail on its own
+  private execution(tx: Transaction): { gas: bigint, revert?: string } {
+    const base = intrinsicGas(tx);
+    if (!tx.to) return { gas: base + BigInt(MOCK_CONTRACT_CALL_GAS) };
+    const target = this.accounts.get(tx.to.toLowerCase());
+    if (!target?.contract) return { gas: base };
+    if (target.contract === 'generic') return { gas: base + BigInt(MOCK_CONTRACT_CALL_GAS) };
+
+    let call;
+    try {
+      call = disperseInterface.parseTransaction({ data: tx.data, value: tx.value });
+    } catch {
+      return { gas: base + BigInt(MOCK_CONTRACT_CALL_GAS), revert: 'unknown selector' };
+    }
+    const recipients: string[] = call?.args[call.name === 'disperseToken' ? 1 : 0] ?? [];
+    const gas = base + BigInt(MOCK_CONTRACT_CALL_GAS + MOCK_DISPERSE_GAS_PER_RECIPIENT * recipients.length);
+    if (!call || call.name !== 'disperseEther') return { gas, revert: 'tokens are not simulated on the mock chain' };
+    const values: bigint[] = call.args[1];
+    if (values.length !== recipients.length) return { gas, revert: 'length mismatch' };
+    if (values.reduce((sum, v) => sum + v, 0n) > tx.value) return { gas, revert: 'transfer failed' };
+    return { gas };
+  }
+
+  // Applies a tx whose sender can cover upfrontCost (checked when it entered the pool)
+  private apply(entry: TxEntry, baseFee: bigint, index: number): MinedInfo {
+    const { tx } = entry;
+    const sender = this.account(tx.from!);
+    const { gas, revert } = this.execution(tx);
+    const outOfGas = gas > tx.gasLimit;
+    const gasUsed = outOfGas ? tx.gasLimit : gas;
+    const effectiveGasPrice = baseFee + priorityFee(tx, baseFee);
+    const info: MinedInfo = { blockNumber: this.head.number + 1, index, gasUsed, effectiveGasPrice, status: 0, contractAddress: null };
+
+    sender.nonce = tx.nonce + 1;
+    sender.balance -= gasUsed * effectiveGasPrice;
+    if (outOfGas || revert || entry.forceRevert) return info;
+
+    sender.balance -= tx.value;
+    if (!tx.to) {
+      const address = getCreateAddress({ from: tx.from!, nonce: tx.nonce });
+      const created = this.account(address);
+      created.contract = tx.data.startsWith(DISPERSE_BYTECODE) ? 'disperse' : 'generic';
+      created.balance += tx.value;
+      info.contractAddress = address;
+    } else if (this.accounts.get(tx.to.toLowerCase())?.contract === 'disperse') {
+      const call = disperseInterface.parseTransaction({ data: tx.data, value: tx.value })!;
+      const recipients: string[] = call.args[0];
+      const values: bigint[] = call.args[1];
+      recipients.forEach((r, i) => { this.account(r).balance += values[i]; });
+      // The helper refunds whatever msg.value was left over
+      sender.balance += tx.value - values.reduce((sum, v) => sum + v, 0n);
+    } else {
+      this.account(tx.to).balance += tx.value;
+    }
+    info.status = 1;
+    return info;
+  }
+
+  // Fills a block by highest tip among each sender's next executable tx
+  mineBlock() {
+    const parent = this.head;
+    const baseFee = parent.baseFee;
+    const gasLimit = BigInt(this.config.blockGasLimit);
+    const included: string[] = [];
+    let gasUsed = 0n;
+
+    for (;;) {
+      let best: TxEntry | undefined;
+      for (const [sender, queue] of this.pool) {
+        const hash = queue.get(this.account(sender).nonce);
+        if (!hash) continue;
+        const entry = this.txs.get(hash)!;
+        if (maxFee(entry.tx) < baseFee || gasUsed + entry.tx.gasLimit > gasLimit) continue;
+        if (!best || priorityFee(entry.tx, baseFee) > priorityFee(best.tx, baseFee)) best = entry;
+      }
+      if (!best) break;
+      best.mined = this.apply(best, baseFee, included.length);
+      gasUsed += best.mined.gasUsed;
+      included.push(best.tx.hash!);
+      const queue = this.pool.get(best.tx.from!.toLowerCase())!;
+      queue.delete(best.tx.nonce);
+      if (queue.size === 0) this.pool.delete(best.tx.from!.toLowerCase());
+    }
+
+    // EIP-1559: the base fee moves up to 1/8 per block towards a half-full target
+    const target = gasLimit / 2n;
+    const nextBaseFee = baseFee + baseFee * (gasUsed - target) / target / 8n;
+    const number = parent.number + 1;
+    this.blocks.push({
+      number,
+      hash: id(`${parent.hash}:${number}`),
+      parentHash: parent.hash,
+      timestamp: Math.max(parent.timestamp, Math.floor(Date.now() / 1000)),
+      gasUsed,
+      baseFee: nextBaseFee < this.minBaseFee ? this.minBaseFee : nextBaseFee,
+      txHashes: included
+    });
+  }
+
+  private pendingNonce(address: string) {
+    let nonce = this.account(address).nonce;
+    const queue = this.pool.get(address.toLowerCase());
+    while (queue?.has(nonce)) nonce++;
+    return nonce;
+  }
+
+  private sendRawTransaction(raw: string): string {
+    let tx: Transaction;
+    try {
+      tx = Transaction.from(raw);
+    } catch {
+      throw new RpcError(-32602, 'unsupported transaction type (fee currency txs are not simulated on the mock chain)');
+    }
+    if (this.txs.has(tx.hash!)) throw new RpcError(-32000, 'already known');
+    if (tx.chainId !== BigInt(this.chainId)) throw new RpcError(-32000, `invalid chain id ${tx.chainId}, expected ${this.chainId}`);
+
+    const { rateLimited, nonceConflict, reverted } = this.config.errorRates;
+    const roll = this.rng();
+    if (roll < rateLimited) throw new RpcError(-32005, 'rate limit exceeded');
+    if (roll < rateLimited + nonceConflict) throw new RpcError(-32000, 'nonce too low');
+
+    const sender = this.account(tx.from!);
+    if (tx.nonce < sender.nonce) throw new RpcError(-32000, `nonce too low: next nonce ${sender.nonce}, tx nonce ${tx.nonce}`);
+    if (intrinsicGas(tx) > tx.gasLimit) throw new RpcError(-32000, 'intrinsic gas too low');
+
+    const senderKey = tx.from!.toLowerCase();
+    const queue = this.pool.get(senderKey) ?? new Map<number, string>();
+    const replaced = queue.has(tx.nonce) ? this.txs.get(queue.get(tx.nonce)!)!.tx : undefined;
+    if (replaced) {
+      // Geth's rule: both fee fields must rise by at least 10%
+      const bumped = (next: bigint, prev: bigint) => next * 10n >= prev * 11n;
+      if (!bumped(maxFee(tx), maxFee(replaced)) || !bumped(tx.maxPriorityFeePerGas ?? maxFee(tx), replaced.maxPriorityFeePerGas ?? maxFee(replaced))) {
+        throw new RpcError(-32000, 'replacement transaction underpriced');
+      }
+    }
+
+    let committed = 0n;
+    for (const [nonce, hash] of queue) {
+      if (nonce !== tx.nonce) committed += upfrontCost(this.txs.get(hash)!.tx);
+    }
+    if (sender.balance < committed + upfrontCost(tx)) {
+      throw new RpcError(-32000, `insufficient funds for gas * price + value: balance ${sender.balance}, tx cost ${upfrontCost(tx)}`);
+    }
+
+    if (replaced) this.txs.delete(replaced.hash!);
+    queue.set(tx.nonce, tx.hash!);
+    this.pool.set(senderKey, queue);
+    this.txs.set(tx.hash!, { tx, forceRevert: this.rng() < reverted });
+    return tx.hash!;
+  }
+
+  // Unsigned calls from eth_call / eth_estimateGas, shaped as a Transaction for execution()
+  private callTx(params: any): Transaction {
+    const tx = Transaction.from({
+      to: params.to ?? null,
+      data: params.data ?? params.input ?? '0x',
+      value: params.value ?? 0,
+      gasLimit: params.gas ?? this.config.blockGasLimit,
+      chainId: this.chainId
+    });
+    if (params.from) {
+      const from = getAddress(params.from);
+      Object.defineProperty(tx, 'from', { get: () => from });
+    }
+    return tx;
+  }
+
+  private simulate(params: any): bigint {
+    const tx = this.callTx(params);
+    if (tx.from && this.account(tx.from).balance < tx.value) {
+      throw new RpcError(-32000, 'insufficient funds for gas * price + value');
+    }
+    const { gas, revert } = this.execution(tx);
+    if (revert) throw new RpcError(3, `execution reverted: ${revert}`);
+    return gas;
+  }
+
+  private blockByTag(tag: string): Block | undefined {
+    if (tag === 'earliest') return this.blocks[0];
+    if (typeof tag !== 'string' || !tag.startsWith('0x')) return this.head; // latest, pending, safe, finalized
+    return this.blocks[Number(tag)];
+  }
+
+  private blockJson(block: Block | undefined, fullTxs: boolean) {
+    if (!block) return null;
+    return {
+      number: toQuantity(block.number),
+      hash: block.hash,
+      parentHash: block.parentHash,
+      timestamp: toQuantity(block.timestamp),
+      nonce: '0x0000000000000000',
+      difficulty: '0x0',
+      gasLimit: toQuantity(this.config.blockGasLimit),
+      gasUsed: toQuantity(block.gasUsed),
+      miner: '0x0000000000000000000000000000000000000000',
+      extraData: '0x',
+      baseFeePerGas: toQuantity(block.baseFee),
+      transactions: fullTxs ? block.txHashes.map(h => txJson(this.txs.get(h)!, block.hash)) : block.txHashes
+    };
+  }
+
+  private receiptJson(hash: string) {
+    const entry = this.txs.get(hash);
+    if (!entry?.mined) return null;
+    const { tx, mined } = entry;
+    const block = this.blocks[mined.blockNumber];
+    let cumulativeGasUsed = 0n;
+    for (const h of block.txHashes.slice(0, mined.index + 1)) cumulativeGasUsed += this.txs.get(h)!.mined!.gasUsed;
+    return {
+      transactionHash: tx.hash,
+      transactionIndex: toQuantity(mined.index),
+      blockHash: block.hash,
+      blockNumber: toQuantity(mined.blockNumber),
+      from: tx.from,
+      to: tx.to,
+      contractAddress: mined.contractAddress,
+      gasUsed: toQuantity(mined.gasUsed),
+      cumulativeGasUsed: toQuantity(cumulativeGasUsed),
+      effectiveGasPrice: toQuantity(mined.effectiveGasPrice),
+      status: toQuantity(mined.status),
+      type: toQuantity(tx.type ?? 0),
+      logs: [],
+      logsBloom: EMPTY_BLOOM
+    };
+  }
+
+  handle(method: string, params: any[]): unknown {
+    switch (method) {
+      case 'eth_chainId': return toQuantity(this.chainId);
+      case 'net_version': return String(this.chainId);
+      case 'eth_blockNumber': return toQuantity(this.head.number);
+      case 'eth_getBlockByNumber': return this.blockJson(this.blockByTag(params[0]), !!params[1]);
+      case 'eth_getBlockByHash': return this.blockJson(this.blocks.find(b => b.hash === params[0]), !!params[1]);
+      case 'eth_getBalance': return toQuantity(this.account(params[0]).balance);
+      case 'eth_getTransactionCount':
+        return toQuantity(params[1] === 'pending' ? this.pendingNonce(params[0]) : this.account(params[0]).nonce);
+      case 'eth_getCode': return this.accounts.get(String(params[0]).toLowerCase())?.contract ? '0xfe' : '0x';
+      case 'eth_gasPrice':
+        if (params.length > 0) throw new RpcError(-32602, 'fee currencies are not simulated on the mock chain');
+        return toQuantity(this.head.baseFee + parseUnits(MOCK_PRIORITY_FEE_GWEI, 'gwei'));
+      case 'eth_maxPriorityFeePerGas':
+        if (params.length > 0) throw new RpcError(-32602, 'fee currencies are not simulated on the mock chain');
+        return toQuantity(parseUnits(MOCK_PRIORITY_FEE_GWEI, 'gwei'));
+      case 'eth_estimateGas': return toQuantity(this.simulate(params[0]));
+      case 'eth_call':
+        this.simulate(params[0]);
+        return '0x';
+      case 'eth_sendRawTransaction': return this.sendRawTransaction(params[0]);
+      case 'eth_getTransactionByHash': {
+        const entry = this.txs.get(params[0]);
+        return entry ? txJson(entry, entry.mined ? this.blocks[entry.mined.blockNumber].hash : null) : null;
+      }
+      case 'eth_getTransactionReceipt': return this.receiptJson(params[0]);
+      default: throw new RpcError(-32601, `the method ${method} does not exist on the mock chain`);
+    }
+  }
+}
+
+class MockChainProvider extends JsonRpcProvider implements MockProvider {
+  readonly chain: MockChainState;
+
+  constructor(network: NetworkProfile, config: MockChainConfig) {
+    const chainNetwork = Network.from(network.chainId);
+    super(network.rpcUrl, chainNetwork, { staticNetwork: chainNetwork, pollingInterval: Math.min(Math.max(config.blockTimeMs, 250), 4000) });
+    this.chain = new MockChainState(network.chainId, config);
+  }
+
+  async _send(payload: JsonRpcPayload | Array<JsonRpcPayload>): Promise<Array<JsonRpcResult>> {
+    await new Promise(resolve => setTimeout(resolve, this.chain.latency()));
+    const calls = Array.isArray(payload) ? payload : [payload];
+    return calls.map(call => {
+      try {
+        return { id: call.id, result: this.chain.handle(call.method, call.params as any[]) };
+      } catch (e) {
+        if (!(e instanceof RpcError)) throw e;
+        return { id: call.id, error: { code: e.code, message: e.message, data: e.data } } as unknown as JsonRpcResult;
+      }
+    });
+  }
+
+  destroy() {
+    this.chain.stop();
+    super.destroy();
+  }
+}
+
+export const createMockProvider = (network: NetworkProfile): MockProvider => {
+  if (!network.mock) throw new Error(`${network.name} is not a mock chain profile`);
+  return new MockChainProvider(network, network.mock);
+};
@@ -0,0 +1,125 @@
+import { parseUnits } from 'ethers';
+import { FeeParams, NetworkProfile, NonceState, TxFeeData } from '../types';
+import { REPLACEMENT_FEE_BUMP_PERCENT } from '../constants';
+import { getPendingNonce, getWalletNonce } from './celoService';
+import { classifyError } from './errorClassifier';
+
+// Everything needed to resend a tx at the same nonce
+export interface SentTxRecord {
+  nonce: number;
+  hash: string;
+  to: string;
+  data: string;
+  value: string; // CELO
+  gasLimit: number;
+  fee: TxFeeData;
+  sentAt: number;
+  replacements: number;
+}
+
+export interface NonceManager {
+  resync: (wIndex: number) => Promise<void>;
+  reserve: (wIndex: number) => number;
+  markSent: (wIndex: number, record: SentTxRecord) => void;
+  release: (wIndex: number, nonce: number, error: unknown) => Promise<void>; // The send for `nonce` failed
+  settle: (wIndex: number, nonce: number, consumed: boolean) => void; // Receipt tracker reached a final state
+  stuck: (olderThanMs: number) => { wIndex: number, record: SentTxRecord }[];
+  takeGaps: (wIndex: number) => number[];
+  state: (wIndex: number) => NonceState;
+}
+
+interface WalletNonces {
+  confirmed: number;
+  next: number;
+  sent: Map<number, SentTxRecord>;
+  gaps: Set<number>;
+}
+
+const bump = (gwei?: string) =>
+  gwei === undefined ? undefined : (parseUnits(gwei, 'gwei') * BigInt(100 + REPLACEMENT_FEE_BUMP_PERCENT)) / 100n;
+
+// Fee params for resending a tx sent with `fee` at the same nonce
+export const bumpFee = (fee: TxFeeData): FeeParams => fee.type === 'legacy'
+  ? { gasPrice: bump(fee.gasPrice) }
+  : { maxFeePerGas: bump(fee.maxFeePerGas), maxPriorityFeePerGas: bump(fee.maxPriorityFeePerGas), feeCurrency: fee.feeCurrency };
+
+// Hands out nonces per wallet and keeps them consistent with the node. A failed
+// send leaves a gap that the next reservation reuses; nonce conflicts trigger a
+// resync from the 'pending' tag. Nonces already accepted by the node are skipped.
+export const createNonceManager = (network: NetworkProfile, addresses: string[]): NonceManager => {
+  const wallets: WalletNonces[] = addresses.map(() => ({ confirmed: 0, next: 0, sent: new Map(), gaps: new Set() }));
+
+  const resync = async (wIndex: number) => {
+    const w = wallets[wIndex];
+    const [confirmed, pending] = await Promise.all([
+      getWalletNonce(network, addresses[wIndex]),
+      getPendingNonce(network, addresses[wIndex])
+    ]);
+    w.confirmed = confirmed;
+    w.next = Math.max(pending, confirmed);
+    // Below `pending` every nonce is taken; above it `next` hands them out again
+    w.gaps.clear();
+  };
+
+  return {
+    resync,
+    reserve: (wIndex) => {
+      const w = wallets[wIndex];
+      if (w.gaps.size > 0) {
+        const nonce = Math.min(...w.gaps);
+        w.gaps.delete(nonce);
+        return nonce;
+      }
+      let nonce = w.next;
+      while (w.sent.has(nonce)) nonce++;
+      w.next = nonce + 1;
+      return nonce;
+    },
+    markSent: (wIndex, record) => {
+      wallets[wIndex].sent.set(record.nonce, record);
+    },
+    release: async (wIndex, nonce, error) => {
+      // The node already holds a tx at this nonce, so our local count is off
+      if (classifyError(error) === 'nonce_conflict') {
+        try {
+          await resync(wIndex);
+          return;
+        } catch (e) {
+          // Can't reach the node; treat it as a gap and let the next send find out
+        }
+      }
+      wallets[wIndex].gaps.add(nonce);
+    },
+    settle: (wIndex, nonce, consumed) => {
+      const w = wallets[wIndex];
+      w.sent.delete(nonce);
+      if (consumed) {
+        w.confirmed = Math.max(w.confirmed, nonce + 1);
+      } else if (nonce >= w.confirmed) {
+        // Dropped from the mempool: later nonces wait on this one
+        w.gaps.add(nonce);
+      }
+    },
+    stuck: (olderThanMs) => {
+      const now = Date.now();
+      const result: { wIndex: number, record: SentTxRecord }[] = [];
+      wallets.forEach((w, wIndex) => {
+        if (w.sent.size === 0) return;
+        // Only the lowest outstanding nonce blocks the wallet's queue
+        const record = w.sent.get(Math.min(...w.sent.keys()))!;
+        if (now - record.sentAt > olderThanMs) result.push({ wIndex, record });
+      });
+      return result;
+    },
+    takeGaps: (wIndex) => {
+      const w = wallets[wIndex];
+      const gaps = Array.from(w.gaps).filter(n => n >= w.confirmed).sort((a, b) => a - b);
+      w.gaps.clear();
+      return gaps;
+    },
+    state: (wIndex) => {
+      const w = wallets[wIndex];
+      return { confirmed: w.confirmed, next: w.next, inFlight: w.sent.size, gaps: w.gaps.size };
+    }
+  };
+};
@@ -0,0 +1,168 @@
+import { AbiCoder, Interface, isAddress } from 'ethers';
+import { PayloadTemplate } from '../types';
+import { encodeCall, encodeDeploy, parseAbi } from './abiService';
+
+export interface TemplateContext {
+  sender: string;
+  walletIndex: number; // 0-based position in the fleet
+  txIndex: number; // 0-based per-wallet tx counter
+  seq: number; // 0-based run-wide tx counter
+  nonce: number;
+}
+
+export interface CompiledTemplate {
+  isStatic: boolean;
+  render: (ctx: TemplateContext) => string;
+}
+
+export const TEMPLATE_PLACEHOLDERS = [
+  '{{sender}}',
+  '{{walletIndex}}',
+  '{{txIndex}}',
+  '{{seq}}',
+  '{{nonce}}',
+  '{{randomUint:MIN:MAX}}',
+  '{{randomAddress}}',
+  '{{list:NAME}}',
+  '{{listRandom:NAME}}'
+];
+
+const PLACEHOLDER = /\{\{\s*([a-zA-Z]+)(?::([^}:]+))?(?::([^}:]+))?\s*\}\}/g;
+
+export const hasPlaceholders = (text: string): boolean => new RegExp(PLACEHOLDER.source).test(text);
+
+const randomBigInt = (min: bigint, max: bigint): bigint => {
+  const span = max - min + 1n;
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const random = bytes.reduce((acc, b) => (acc << 8n) | BigInt(b), 0n);
+  return min + (random % span);
+};
+
+// Validates every placeholder up front so a bad template fails before the swarm starts
+const checkPlaceholders = (text: string, lists: Record<string, string[]>) => {
+  for (const match of text.matchAll(PLACEHOLDER)) {
+    const [token, name, a, b] = match;
+    switch (name) {
+      case 'sender':
+      case 'walletIndex':
+      case 'txIndex':
+      case 'seq':
+      case 'nonce':
+      case 'randomAddress':
+        break;
+      case 'randomUint':
+        if (!a || !b || !/^\d+$/.test(a) || !/^\d+$/.test(b) || BigInt(a) > BigInt(b)) {
+          throw new Error(`${token} needs integer bounds, e.g. {{randomUint:1:1000}}`);
+        }
+        break;
+      case 'list':
+      case 'listRandom':
+        if (!a || !lists[a] || lists[a].length === 0) {
+          throw new Error(`${token} refers to list "${a}" which is not loaded or empty`);
+        }
+        break;
+      default:
+        throw new Error(`Unknown placeholder ${token}`);
+    }
+  }
+};
+
+// Substitutes each placeholder with the value `toText` produces for it
+const resolve = (
+  text: string,
+  ctx: TemplateContext,
+  fleet: string[],
+  lists: Record<string, string[]>,
+  toText: (value: string) => string
+): string => text.replace(PLACEHOLDER, (_, name: string, a?: string, b?: string) => {
+  switch (name) {
+    case 'sender': return toText(ctx.sender);
+    case 'walletIndex': return toText(String(ctx.walletIndex));
+    case 'txIndex': return toText(String(ctx.txIndex));
+    case 'seq': return toText(String(ctx.seq));
+    case 'nonce': return toText(String(ctx.nonce));
+    case 'randomUint': return toText(randomBigInt(BigInt(a!), BigInt(b!)).toString());
+    case 'randomAddress': {
+      // Prefer someone other than the sender when the fleet allows it
+      const others = fleet.length > 1 ? fleet.filter(addr => addr !== ctx.sender) : fleet;
+      return toText(others[Math.floor(Math.random() * others.length)] ?? ctx.sender);
+    }
+    case 'list': {
+      const values = lists[a!];
+      return toText(values[ctx.seq % values.length]);
+    }
+    case 'listRandom': {
+      const values = lists[a!];
+      return toText(values[Math.floor(Math.random() * values.length)]);
+    }
+    default: return '';
+  }
+});
+
+// In hex templates addresses and integers become 32-byte ABI words; other hex is spliced as is
+const toHexWord = (value: string): string => {
+  const coder = AbiCoder.defaultAbiCoder();
+  if (/^0x[0-9a-fA-F]{40}$/.test(value)) return coder.encode(['address'], [value]).slice(2);
+  if (/^\d+$/.test(value)) return coder.encode(['uint256'], [BigInt(value)]).slice(2);
+  if (/^0x([0-9a-fA-F]{2})*$/.test(value)) return value.slice(2);
+  throw new Error(`Cannot splice "${value}" into hex calldata`);
+};
+
+export const compileTemplate = (
+  template: PayloadTemplate,
+  fleet: string[],
+  lists: Record<string, string[]> = {}
+): CompiledTemplate => {
+  if (template.kind === 'hex') {
+    const data = template.data.trim() || '0x';
+    checkPlaceholders(data, lists);
+    if (!hasPlaceholders(data)) return { isStatic: true, render: () => data };
+    return { isStatic: false, render: (ctx) => resolve(data, ctx, fleet, lists, toHexWord) };
+  }
+
+  if (template.kind === 'deploy') {
+    const iface = template.abiText ? parseAbi(template.abiText) : null;
+    template.args.forEach(arg => checkPlaceholders(arg, lists));
+    const isStatic = !template.args.some(hasPlaceholders);
+    if (isStatic) {
+      const data = encodeDeploy(iface, template.bytecode, template.args);
+      return { isStatic, render: () => data };
+    }
+    return {
+      isStatic,
+      render: (ctx) => encodeDeploy(iface, template.bytecode, template.args.map(arg => resolve(arg, ctx, fleet, lists, v => v)))
+    };
+  }
+
+  const iface: Interface = parseAbi(template.abiText);
+  if (!iface.getFunction(template.signature)) throw new Error(`Function ${template.signature} not in ABI`);
+  template.args.forEach(arg => checkPlaceholders(arg, lists));
+
+  const isStatic = !template.args.some(hasPlaceholders);
+  if (isStatic) {
+    const data = encodeCall(iface, template.signature, template.args);
+    return { isStatic, render: () => data };
+  }
+  return {
+    isStatic,
+    render: (ctx) => encodeCall(iface, template.signature, template.args.map(arg => resolve(arg, ctx, fleet, lists, v => v)))
+  };
+};
+
+// Targets may be picked from a list per tx, e.g. {{listRandom:deployed}} after a deploy run
+export const compileTarget = (target: string, fleet: string[], lists: Record<string, string[]> = {}): CompiledTemplate => {
+  if (!hasPlaceholders(target)) return { isStatic: true, render: () => target };
+  checkPlaceholders(target, lists);
+  return {
+    isStatic: false,
+    render: (ctx) => {
+      const address = resolve(target, ctx, fleet, lists, v => v).trim();
+      if (!isAddress(address)) throw new Error(`Target ${target} resolved to "${address}", which is not an address`);
+      return address;
+    }
+  };
+};
+
+// Text list upload: one value per line, or comma separated
+export const parseTemplateList = (text: string): string[] =>
+  text.split(/[\n,]/).map(v => v.trim()).filter(v => v.length > 0);
@@ -0,0 +1,232 @@
+import { FundingMode, LogType, NetworkProfile, PhaseState, PipelinePhase, PipelinePhaseKind, TokenInfo, WalletAccount } from '../types';
+import { EngineHooks, SwarmOptions, SwarmResult, createLogEntry, failureRate, runApprovals, runFunding, runSweep, runSwarm, runTokenFunding } from './swarmEngine';
+import { runPreflight } from './preflight';
+import { RunControl } from './runControl';
+
+export interface PipelineHooks extends EngineHooks {
+  updatePhase: (index: number, state: PhaseState) => void;
+}
+
+export interface PipelineOptions {
+  network: NetworkProfile;
+  phases: PipelinePhase[]; // Run in the order given; disabled ones are skipped
+  wallets: WalletAccount[]; // Used as is when there is no enabled fleet phase
+  createFleet?: () => Promise<WalletAccount[]>; // Fleet phase: generate, import or derive
+  funderPrivateKey?: string; // Fund and token setup phases
+  fundingAmount?: string; // CELO per wallet
+  fundingMode?: FundingMode;
+  disperseAddress?: string;
+  fundingBatchSize?: number;
+  token?: TokenInfo; // Token setup and approval phases
+  swarm: Omit<SwarmOptions, 'network' | 'wallets' | 'control' | 'token'>; // The load phase; warm-up and cool-down override quota and shape
+  preflight?: boolean; // Dry-run the workload before the first swarm phase
+  abiText?: string; // Decodes custom errors in pre-flight reverts
+  ignorePreflight?: boolean;
+  sweepTo?: string; // Sweep phase recipient
+  control?: RunControl;
+}
+
+export interface PipelineResult {
+  phases: PhaseState[];
+  wallets: WalletAccount[];
+  swarms: Partial<Record<PipelinePhaseKind, SwarmResult>>; // Warm-up, load and cool-down results
+  disperseAddress?: string;
+  passed: boolean; // Every phase that ran met its criteria
+  preflightFailed?: boolean;
+  abortReason?: string;
+}
+
+export const PHASE_LABELS: Record<PipelinePhaseKind, string> = {
+  fleet: 'Fleet',
+  fund: 'Fund',
+  tokenSetup: 'Token setup',
+  approvals: 'Approvals',
+  warmup: 'Warm-up',
+  load: 'Load',
+  cooldown: 'Cool-down',
+  sweep: 'Sweep'
+};
+
+const SWARM_PHASES: PipelinePhaseKind[] = ['warmup', 'load', 'cooldown'];
+
+const pct = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+// Chains the engine's steps into one run. Each phase is scored against its own criteria;
+// a failed phase with stopOnFailure, or an abort, skips the rest except sweep, which still recovers funds.
+export const runPipeline = async (options: PipelineOptions, hooks: PipelineHooks): Promise<PipelineResult> => {
+  const { network, phases, control } = options;
+  const states: PhaseState[] = phases.map(phase => ({ kind: phase.kind, status: phase.enabled ? 'pending' : 'skipped' }));
+  const result: PipelineResult = { phases: states, wallets: options.wallets, swarms: {}, disperseAddress: options.disperseAddress, passed: true };
+  let stopped = false;
+  let preflightDone = !options.preflight;
+
+  const setState = (index: number, patch: Partial<PhaseState>) => {
+    states[index] = { ...states[index], ...patch };
+    hooks.updatePhase(index, states[index]);
+  };
+  states.forEach((state, i) => hooks.updatePhase(i, state));
+
+  // Success rate and an optional detail; a thrown error fails the phase outright
+  const execute = async (phase: PipelinePhase): Promise<{ rate: number, detail: string, failure?: string }> => {
+    const { wallets } = result;
+    switch (phase.kind) {
+      case 'fleet': {
+        if (!options.createFleet) throw new Error('No fleet source configured');
+        result.wallets = await options.createFleet();
+        return { rate: result.wallets.length > 0 ? 1 : 0, detail: `${result.wallets.length} wallets` };
+      }
+      case 'fund': {
+        if (!options.funderPrivateKey || !options.fundingAmount) throw new Error('Funding needs a funder key and an amount');
+        const funding = await runFunding({
+          network,
+          funderPrivateKey: options.funderPrivateKey,
+          wallets,
+          amountPerWallet: options.fundingAmount,
+          mode: options.fundingMode,
+          disperseAddress: result.disperseAddress,
+          batchSize: options.fundingBatchSize,
+          control
+        }, hooks);
+        result.disperseAddress = funding.disperseAddress;
+        return { rate: funding.funded / wallets.length, detail: `${funding.funded}/${wallets.length} funded` };
+      }
+      case 'tokenSetup': {
+        if (!options.token) throw new Error('No token selected');
+        if (!options.funderPrivateKey || !phase.amount) throw new Error('Token setup needs a funder key and an amount');
+        const funding = await runTokenFunding({
+          network,
+          funderPrivateKey: options.funderPrivateKey,
+          wallets,
+          token: options.token,
+          amountPerWallet: phase.amount,
+          mode: options.fundingMode,
+          disperseAddress: result.disperseAddress,
+          batchSize: options.fundingBatchSize,
+          control
+        }, hooks);
+        result.disperseAddress = funding.disperseAddress;
+        return { rate: funding.funded / wallets.length, detail: `${funding.funded}/${wallets.length} received ${options.token.symbol}` };
+      }
+      case 'approvals': {
+        if (!options.token) throw new Error('No token selected');
+        if (!phase.spender) throw new Error('Approvals need a spender');
+        const approvals = await runApprovals({
+          network, wallets, token: options.token, spender: phase.spender, amount: phase.amount || undefined, retryPolicies: options.swarm.retryPolicies
+        }, hooks);
+        const approved = approvals.filter(r => r.status === 'approved').length;
+        return { rate: approved / wallets.length, detail: `${approved}/${wallets.length} approved` };
+      }
+      case 'sweep': {
+        if (!options.sweepTo) throw new Error('No sweep recipient');
+        const sweep = await runSweep({ network, wallets, recipient: options.sweepTo, retryPolicies: options.swarm.retryPolicies }, hooks);
+        const failed = sweep.results.filter(r => r.status === 'failed').length;
+        return { rate: 1 - failed / wallets.length, detail: `${sweep.totalRecovered} CELO recovered` };
+      }
+      default: {
+        if (!preflightDone) {
+          preflightDone = true;
+          // Balances must cover every swarm phase still to come
+          const quota = phases
+            .filter(p => p.enabled && SWARM_PHASES.includes(p.kind))
+            .reduce((sum, p) => sum + (p.kind === 'load' ? options.swarm.interactionsPerWallet : p.txPerWallet ?? options.swarm.interactionsPerWallet), 0);
+          const preflight = await runPreflight({
+            network,
+            wallets,
+            actions: options.swarm.actions,
+            interactionsPerWallet: quota,
+            templateLists: options.swarm.templateLists,
+            abiText: options.abiText,
+            fees: options.swarm.fees
+          }, hooks);
+          if (!preflight.passed) {
+            if (!options.ignorePreflight) {
+              result.preflightFailed = true;
+              return { rate: 0, detail: 'nothing sent', failure: 'pre-flight checks failed' };
+            }
+            hooks.log(createLogEntry('Pre-flight override enabled. Continuing anyway.', LogType.WARNING));
+          }
+        }
+        const load = phase.kind === 'load';
+        const swarm = await runSwarm({
+          ...options.swarm,
+          network,
+          wallets,
+          token: options.token,
+          control,
+          interactionsPerWallet: load ? options.swarm.interactionsPerWallet : phase.txPerWallet ?? options.swarm.interactionsPerWallet,
+          loadProfile: load ? options.swarm.loadProfile : phase.loadProfile ?? options.swarm.loadProfile,
+          maxDurationSec: load ? options.swarm.maxDurationSec : undefined
+        }, hooks);
+        result.swarms[phase.kind] = swarm;
+        const rate = swarm.stats.totalTx > 0 ? 1 - failureRate(swarm.stats) : 0;
+        const p90 = swarm.metrics.inclusionLatency.p90;
+        const detail = `${swarm.stats.minedTx}/${swarm.stats.totalTx} mined, p90 ${(p90 / 1000).toFixed(1)}s`;
+        if (phase.maxInclusionP90Ms && p90 > phase.maxInclusionP90Ms) {
+          return { rate, detail, failure: `p90 inclusion ${p90}ms over ${phase.maxInclusionP90Ms}ms` };
+        }
+        return { rate, detail };
+      }
+    }
+  };
+
+  for (const [i, phase] of phases.entries()) {
+    if (!phase.enabled) continue;
+    const label = PHASE_LABELS[phase.kind];
+    const teardown = phase.kind === 'sweep';
+
+    if (((result.abortReason || stopped) && !teardown) || (teardown && result.wallets.length === 0)) {
+      setState(i, { status: 'skipped', detail: result.abortReason ? 'run aborted' : stopped ? 'an earlier phase failed' : 'no fleet' });
+      continue;
+    }
+    if (control && !teardown && !await control.proceed()) {
+      result.abortReason = control.abortReason();
+      setState(i, { status: 'skipped', detail: 'run aborted' });
+      continue;
+    }
+    if (phase.kind !== 'fleet' && result.wallets.length === 0) {
+      setState(i, { status: 'failed', startedAt: Date.now(), endedAt: Date.now(), detail: 'no fleet' });
+      result.passed = false;
+      stopped = true;
+      continue;
+    }
+
+    hooks.log(createLogEntry(`PHASE ${label.toUpperCase()} started.`, LogType.INFO));
+    setState(i, { status: 'running', startedAt: Date.now() });
+    let outcome: { rate: number, detail: string, failure?: string };
+    try {
+      outcome = await execute(phase);
+    } catch (e) {
+      outcome = { rate: 0, detail: '', failure: (e as Error).message };
+    }
+
+    const abortReason = teardown ? undefined : control?.abortReason();
+    if (abortReason) {
+      result.abortReason = abortReason;
+      result.passed = false;
+      setState(i, { status: 'aborted', endedAt: Date.now(), successRate: outcome.rate, detail: `${outcome.detail ? `${outcome.detail}; ` : ''}aborted: ${abortReason}` });
+      hooks.log(createLogEntry(`PHASE ${label.toUpperCase()} aborted: ${abortReason}.`, LogType.WARNING));
+      continue;
+    }
+
+    const failure = outcome.failure ?? (outcome.rate < phase.minSuccessRate ? `${pct(outcome.rate)} succeeded, needs ${pct(phase.minSuccessRate)}` : undefined);
+    const detail = [outcome.detail, failure].filter(Boolean).join('; ');
+    if (failure) {
+      result.passed = false;
+      // Nothing was sent after a failed pre-flight, so there is nothing left worth running
+      if (phase.stopOnFailure || result.preflightFailed) stopped = true;
+      setState(i, { status: 'failed', endedAt: Date.now(), successRate: outcome.rate, detail });
+      hooks.log(createLogEntry(`PHASE ${label.toUpperCase()} FAILED: ${detail}.${stopped && !teardown ? ' Stopping the pipeline.' : ''}`, LogType.ERROR));
+    } else {
+      setState(i, { status: 'passed', endedAt: Date.now(), successRate: outcome.rate, detail });
+      hooks.log(createLogEntry(`PHASE ${label.toUpperCase()} passed: ${detail}.`, LogType.SUCCESS));
+    }
+  }
+
+  const ran = states.filter(s => s.status !== 'skipped').length;
+  const failed = states.filter(s => s.status === 'failed').length;
+  hooks.log(createLogEntry(
+    result.abortReason ? `PIPELINE ABORTED (${result.abortReason}).` : `PIPELINE ${result.passed ? 'PASSED' : 'FAILED'}: ${ran - failed}/${ran} phases met their criteria.`,
+    result.passed ? LogType.SUCCESS : LogType.ERROR
+  ));
+  return result;
+};
@@ -0,0 +1,132 @@
+import { Interface, formatEther, formatUnits, isHexString, parseEther } from 'ethers';
+import { FeeConfig, LogType, NetworkProfile, PreflightReport, PreflightSimulation, WalletAccount, WorkloadAction } from '../types';
+import { PREFLIGHT_SAMPLE_SIZE } from '../constants';
+import { getBalance, getGasPrice, getWalletNonce, simulateInteraction } from './celoService';
+import { decodeRevert, parseAbi } from './abiService';
+import { compileTarget, compileTemplate } from './payloadTemplate';
+import { createFeeResolver } from './feeStrategy';
+import { EngineHooks, createLogEntry, validateActions } from './swarmEngine';
+import { mapLimit } from './concurrency';
+
+export interface PreflightOptions {
+  network: NetworkProfile;
+  wallets: WalletAccount[];
+  actions: WorkloadAction[];
+  interactionsPerWallet: number;
+  templateLists?: Record<string, string[]>;
+  abiText?: string; // Decodes custom errors for hex payloads
+  fees?: FeeConfig;
+  sampleSize?: number;
+}
+
+const BALANCE_CONCURRENCY = 20;
+
+// Evenly spread indexes, so a bad key range at the end of the fleet still gets sampled
+const sampleIndexes = (count: number, size: number): number[] => {
+  const k = Math.min(count, size);
+  return Array.from({ length: k }, (_, i) => Math.floor((i * count) / k));
+};
+
+// Revert data sits in different places depending on the RPC and the failing call
+const revertDataOf = (error: any): string | undefined =>
+  [error?.data, error?.info?.error?.data, error?.error?.data].find(d => typeof d === 'string' && isHexString(d));
+
+const tryParseAbi = (text?: string): Interface | null => {
+  if (!text || !text.trim()) return null;
+  try {
+    return parseAbi(text);
+  } catch {
+    return null;
+  }
+};
+
+// Dry-runs every action from a few fleet wallets and checks the whole fleet can pay
+// for its quota. Nothing is broadcast.
+export const runPreflight = async (options: PreflightOptions, hooks: EngineHooks): Promise<PreflightReport> => {
+  const { network, wallets, actions, interactionsPerWallet, templateLists, abiText, fees, sampleSize = PREFLIGHT_SAMPLE_SIZE } = options;
+  const feeCurrency = fees?.feeCurrency;
+  validateActions(actions);
+
+  hooks.log(createLogEntry(`PRE-FLIGHT: simulating ${actions.length} action(s) from ${Math.min(wallets.length, sampleSize)} wallet(s)...`, LogType.INFO));
+
+  const fleet = wallets.map(w => w.address);
+  const fallbackIface = tryParseAbi(abiText);
+  const simulations: PreflightSimulation[] = [];
+
+  for (const action of actions) {
+    const template = compileTemplate(action.payload, fleet, templateLists);
+    const target = compileTarget(action.target, fleet, templateLists);
+    const iface = (action.payload.kind !== 'hex' ? tryParseAbi(action.payload.abiText) : null) ?? fallbackIface;
+
+    for (const [seq, wIndex] of sampleIndexes(wallets.length, sampleSize).entries()) {
+      const wallet = wallets[wIndex];
+      const simulation: PreflightSimulation = { actionId: action.id, actionName: action.name, walletIndex: wIndex, ok: false };
+      try {
+        const nonce = await getWalletNonce(network, wallet.address);
+        const ctx = { sender: wallet.address, walletIndex: wIndex, txIndex: 0, seq, nonce };
+        const data = template.render(ctx);
+        const estimate = await simulateInteraction(network, wallet.address, target.render(ctx), data, action.value, feeCurrency);
+        simulation.gasEstimate = Number(estimate);
+        if (estimate > BigInt(action.gasLimit)) {
+          simulation.reason = `needs ~${estimate} gas but the limit is ${action.gasLimit}`;
+        } else {
+          simulation.ok = true;
+        }
+      } catch (error) {
+        // Empty revert data usually means the node refused the call (e.g. value above balance)
+        const data = revertDataOf(error);
+        const nodeMessage = (error as any).info?.error?.message;
+        simulation.reason = data !== undefined && (data !== '0x' || !nodeMessage)
+          ? decodeRevert(data, iface)
+          : nodeMessage || (error as any).shortMessage || (error as any).reason || (error as any).message || 'Unknown error';
+      }
+      simulations.push(simulation);
+
+      const tag = `[W${wIndex + 1}] ${action.name}`;
+      if (simulation.ok) {
+        hooks.log(createLogEntry(`${tag}: ok, ~${simulation.gasEstimate} gas (limit ${action.gasLimit})`, LogType.SUCCESS));
+      } else {
+        hooks.log(createLogEntry(`${tag}: ${simulation.reason}`, LogType.ERROR));
+      }
+    }
+  }
+
+  // Budget for the priciest action on every tx, since the mix is random. Gas paid in a
+  // fee currency comes out of a token balance, so only the CELO value is checked then.
+  const fee = fees ? await createFeeResolver(network, fees).next() : undefined;
+  const gasPrice = fee?.maxFeePerGas ?? fee?.gasPrice ?? await getGasPrice(network);
+  const perTx = actions.reduce((max, a) => {
+    const cost = (feeCurrency ? 0n : BigInt(a.gasLimit) * gasPrice) + parseEther(a.value || '0');
+    return cost > max ? cost : max;
+  }, 0n);
+  const required = perTx * BigInt(interactionsPerWallet);
+
+  const balances = await mapLimit(wallets, BALANCE_CONCURRENCY, async (wallet, index) => {
+    const balance = await getBalance(network, wallet.address);
+    hooks.updateWallet(index, { balance });
+    return balance;
+  });
+  const underfunded = balances.flatMap((balance, index) => parseEther(balance) < required ? [index] : []);
+
+  const requiredPerWallet = formatEther(required);
+  const gasPriceGwei = formatUnits(gasPrice, 'gwei');
+  if (underfunded.length > 0) {
+    const sample = underfunded.slice(0, 5).map(i => `W${i + 1}`).join(', ');
+    hooks.log(createLogEntry(
+      `${underfunded.length}/${wallets.length} wallets hold less than ${requiredPerWallet} CELO needed for ${interactionsPerWallet} txs at ${gasPriceGwei} gwei (${sample}${underfunded.length > 5 ? ', ...' : ''}).`,
+      LogType.ERROR
+    ));
+  }
+
+  if (feeCurrency) {
+    hooks.log(createLogEntry(`Gas is paid in ${feeCurrency}; fleet token balances are not checked.`, LogType.WARNING));
+  }
+
+  const passed = underfunded.length === 0 && simulations.every(s => s.ok);
+  hooks.log(createLogEntry(
+    passed ? `PRE-FLIGHT PASSED. Each wallet covers ${requiredPerWallet} CELO at ${gasPriceGwei} gwei.` : 'PRE-FLIGHT FAILED.',
+    passed ? LogType.SUCCESS : LogType.ERROR
+  ));
+
+  return { passed, gasPrice: gasPriceGwei, requiredPerWallet, simulations, underfunded };
+};
@@ -0,0 +1,137 @@
+import { NetworkProfile, TxReceiptInfo, TxStatus } from '../types';
+import { getTransactionReceipt, getWalletNonce } from './celoService';
+import { mapLimit } from './concurrency';
+
+export interface TrackedTx {
+  hash: string;
+  from: string;
+  nonce: number;
+  submittedAt: number;
+}
+
+export interface TxOutcome {
+  status: Exclude<TxStatus, 'submitted'>;
+  receipt?: TxReceiptInfo;
+}
+
+export interface ReceiptTrackerOptions {
+  pollIntervalMs?: number;
+  dropTimeoutMs?: number; // Unmined txs whose nonce is still open are dropped after this
+  concurrency?: number; // RPC reads in flight per poll
+}
+
+export interface ReceiptTracker {
+  track: (tx: TrackedTx) => void;
+  untrack: (hash: string) => void; // Stop following a hash without reporting an outcome
+  pendingCount: () => number;
+  waitForAll: () => Promise<void>;
+  stop: () => void;
+}
+
+// Follows broadcast hashes to a final state by polling receipts.
+// A tx with no receipt whose nonce has been consumed on-chain was replaced;
+// one that stays unmined past dropTimeoutMs with its nonce still open was dropped.
+// Behind an RPC pool the nonce and the receipt can come from different endpoints, so
+// "replaced" needs the receipt re-checked and the same verdict on two polls in a row.
+export const createReceiptTracker = (
+  network: NetworkProfile,
+  onSettled: (tx: TrackedTx, outcome: TxOutcome) => void,
+  options: ReceiptTrackerOptions = {}
+): ReceiptTracker => {
+  const { pollIntervalMs = 2000, dropTimeoutMs = 120000, concurrency = 20 } = options;
+  const pending = new Map<string, TrackedTx>();
+  const replacedOnce = new Set<string>(); // Hashes that looked replaced on the previous poll
+  let waiters: (() => void)[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+
+  const settle = (tx: TrackedTx, outcome: TxOutcome) => {
+    replacedOnce.delete(tx.hash);
+    if (!pending.delete(tx.hash)) return;
+    onSettled(tx, outcome);
+  };
+
+  const flushWaiters = () => {
+    if (pending.size > 0) return;
+    const done = waiters;
+    waiters = [];
+    done.forEach(resolve => resolve());
+  };
+
+  // True once the tx has a receipt, which settles it
+  const settleReceipt = async (tx: TrackedTx) => {
+    const receipt = await getTransactionReceipt(network, tx.hash);
+    if (receipt) settle(tx, { status: receipt.success ? 'mined' : 'reverted', receipt });
+    return !!receipt;
+  };
+
+  const poll = async () => {
+    const txs = Array.from(pending.values());
+
+    // Read confirmed nonces first so a receipt landing mid-poll isn't mistaken for a replacement
+    const confirmedNonces = new Map<string, number>();
+    await mapLimit(Array.from(new Set(txs.map(tx => tx.from))), concurrency, async (from) => {
+      try {
+        confirmedNonces.set(from, await getWalletNonce(network, from));
+      } catch (e) {
+        // RPC hiccup, retry next poll
+      }
+    });
+
+    await mapLimit(txs, concurrency, async (tx) => {
+      try {
+        if (await settleReceipt(tx)) return;
+        const confirmedNonce = confirmedNonces.get(tx.from);
+        if (confirmedNonce !== undefined && confirmedNonce > tx.nonce) {
+          // A lagging endpoint may have answered the receipt call; ask again before giving up on it
+          if (await settleReceipt(tx)) return;
+          if (replacedOnce.has(tx.hash)) {
+            settle(tx, { status: 'replaced' });
+          } else {
+            replacedOnce.add(tx.hash);
+          }
+        } else if (Date.now() - tx.submittedAt > dropTimeoutMs) {
+          settle(tx, { status: 'dropped' });
+        }
+      } catch (e) {
+        // RPC hiccup, retry next poll
+      }
+    });
+
+    flushWaiters();
+  };
+
+  const schedule = () => {
+    if (stopped || timer || pending.size === 0) return;
+    timer = setTimeout(async () => {
+      await poll();
+      timer = null;
+      schedule();
+    }, pollIntervalMs);
+  };
+
+  return {
+    track: (tx) => {
+      pending.set(tx.hash, tx);
+      schedule();
+    },
+    untrack: (hash) => {
+      pending.delete(hash);
+      replacedOnce.delete(hash);
+      flushWaiters();
+    },
+    pendingCount: () => pending.size,
+    waitForAll: () => new Promise<void>(resolve => {
+      waiters.push(resolve);
+      flushWaiters();
+    }),
+    stop: () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      timer = null;
+      pending.clear();
+      replacedOnce.clear();
+      flushWaiters();
+    }
+  };
+};
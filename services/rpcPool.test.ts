@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { FetchRequest, GetUrlResponse, id, toUtf8Bytes, toUtf8String } from 'ethers';
+import { NetworkProfile } from '../types';
+import { createPooledProvider } from './rpcPool';
+
+// Endpoints are faked at ethers' HTTP layer, so the pool's own failover logic runs unchanged
+const PRIMARY = 'http://primary.test';
+const BACKUP = 'http://backup.test';
+const TX_HASH = id('celoship-test-tx');
+
+type FakeEndpoint = (body: any) => GetUrlResponse;
+
+const jsonResponse = (body: unknown, statusCode = 200, statusMessage = 'OK'): GetUrlResponse => ({
+  statusCode, statusMessage, headers: { 'content-type': 'application/json' }, body: toUtf8Bytes(JSON.stringify(body))
+});
+
+const answer = (result: unknown): FakeEndpoint => body =>
+  jsonResponse(Array.isArray(body) ? body.map(p => ({ jsonrpc: '2.0', id: p.id, result })) : { jsonrpc: '2.0', id: body.id, result });
+
+// Records which endpoints were asked, in order
+const serve = (endpoints: Record<string, FakeEndpoint | 'down'>) => {
+  const hits: string[] = [];
+  FetchRequest.registerGetUrl(async (req) => {
+    const url = req.url.replace(/\/$/, '');
+    hits.push(url);
+    const endpoint = endpoints[url];
+    if (endpoint === 'down') throw Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+    return endpoint(JSON.parse(toUtf8String(req.body!)));
+  });
+  return hits;
+};
+
+const poolNetwork = (): NetworkProfile => ({
+  id: 'pool-test',
+  name: 'Pool test',
+  rpcUrl: PRIMARY,
+  chainId: 1337,
+  explorerUrl: '',
+  rpcPool: { endpoints: [{ url: PRIMARY, weight: 1 }, { url: BACKUP, weight: 1 }], balancing: 'roundRobin' }
+});
+
+afterEach(() => {
+  FetchRequest.registerGetUrl(FetchRequest.createGetUrlFunc());
+});
+
+// Round-robin starts at the first endpoint, so PRIMARY always gets the first try
+describe('RPC pool broadcasts', () => {
+  it('fails over after an HTTP 429', async () => {
+    const hits = serve({ [PRIMARY]: () => jsonResponse('Too Many Requests', 429, 'Too Many Requests'), [BACKUP]: answer(TX_HASH) });
+    const provider = createPooledProvider(poolNetwork());
+
+    await expect(provider.send('eth_sendRawTransaction', ['0x01'])).resolves.toBe(TX_HASH);
+    expect(hits).toEqual([PRIMARY, BACKUP]);
+    provider.destroy();
+  });
+
+  it('fails over after a -32005 rate limit reply', async () => {
+    const hits = serve({
+      [PRIMARY]: body => jsonResponse({ jsonrpc: '2.0', id: body.id, error: { code: -32005, message: 'rate limit exceeded' } }),
+      [BACKUP]: answer(TX_HASH)
+    });
+    const provider = createPooledProvider(poolNetwork());
+
+    await expect(provider.send('eth_sendRawTransaction', ['0x01'])).resolves.toBe(TX_HASH);
+    expect(hits).toEqual([PRIMARY, BACKUP]);
+    provider.destroy();
+  });
+
+  it('does not resend after a transport error, since the tx may have landed', async () => {
+    const hits = serve({ [PRIMARY]: 'down', [BACKUP]: answer(TX_HASH) });
+    const provider = createPooledProvider(poolNetwork());
+
+    await expect(provider.send('eth_sendRawTransaction', ['0x01'])).rejects.toThrow();
+    expect(hits).toEqual([PRIMARY]);
+    provider.destroy();
+  });
+
+  it('fails over reads after a transport error', async () => {
+    const hits = serve({ [PRIMARY]: 'down', [BACKUP]: answer('0x10') });
+    const provider = createPooledProvider(poolNetwork());
+
+    await expect(provider.send('eth_blockNumber', [])).resolves.toBe('0x10');
+    expect(hits).toEqual([PRIMARY, BACKUP]);
+    provider.destroy();
+  });
+});
@@ -0,0 +1,166 @@
+import { FetchRequest, JsonRpcPayload, JsonRpcProvider, JsonRpcResult, Network } from 'ethers';
+import { EndpointStats, NetworkProfile, RpcBalancing, RpcEndpoint } from '../types';
+import { RPC_LATENCY_WINDOW, RPC_UNHEALTHY_AFTER_ERRORS, RPC_UNHEALTHY_COOLDOWN_MS } from '../constants';
+import { summarizeLatency } from './metricsCollector';
+import { classifyError } from './errorClassifier';
+
+interface EndpointState extends RpcEndpoint {
+  connection: FetchRequest;
+  requests: number;
+  errors: number;
+  consecutiveErrors: number;
+  benchedUntil: number;
+  latencies: number[]; // Ring of the last RPC_LATENCY_WINDOW samples
+  avgLatencyMs: number; // EWMA, drives least-latency picks
+  inFlight: number;
+  currentWeight: number; // Smooth weighted round-robin state
+}
+
+export interface PooledProvider extends JsonRpcProvider {
+  endpointStats: () => EndpointStats[];
+  resetStats: () => void;
+}
+
+const isHealthy = (e: EndpointState, now: number) => e.benchedUntil <= now;
+
+const errorClassOf = (result: JsonRpcResult | { error?: unknown }) => {
+  const error = (result as any).error;
+  return error ? classifyError({ info: { error } }) : undefined;
+};
+
+// Rate limits and overloaded nodes come back as JSON-RPC errors, not HTTP failures
+const isEndpointFault = (result: JsonRpcResult) => {
+  const errorClass = errorClassOf(result);
+  return errorClass === 'rate_limited' || errorClass === 'network_timeout';
+};
+
+const isRateLimited = (result: JsonRpcResult) => errorClassOf(result) === 'rate_limited';
+
+// A JsonRpcProvider whose requests are routed over several endpoints. Endpoints
+// that fail RPC_UNHEALTHY_AFTER_ERRORS times in a row are benched for a cooldown
+// and the failed request is retried on the next endpoint (broadcasts only after a rate limit). Everything above _send
+// (signing, receipts, polling) is ethers' own, so callers can't tell the difference.
+class RpcPoolProvider extends JsonRpcProvider {
+  private endpoints: EndpointState[];
+  private balancing: RpcBalancing;
+
+  constructor(chainId: number, endpoints: RpcEndpoint[], balancing: RpcBalancing) {
+    const network = Network.from(chainId);
+    super(endpoints[0].url, network, { staticNetwork: network });
+    this.balancing = balancing;
+    this.endpoints = endpoints.map(e => {
+      const connection = new FetchRequest(e.url);
+      // Fail over instead of waiting out ethers' built-in 429 backoff on one endpoint
+      connection.setThrottleParams({ maxAttempts: 1 });
+      return {
+        ...e, connection, requests: 0, errors: 0, consecutiveErrors: 0, benchedUntil: 0,
+        latencies: [], avgLatencyMs: 0, inFlight: 0, currentWeight: 0
+      };
+    });
+  }
+
+  private pick(exclude: Set<EndpointState>): EndpointState {
+    const now = Date.now();
+    let candidates = this.endpoints.filter(e => !exclude.has(e) && isHealthy(e, now));
+    if (candidates.length === 0) {
+      // Everything is benched: try whichever comes back first rather than failing outright
+      candidates = this.endpoints.filter(e => !exclude.has(e)).sort((a, b) => a.benchedUntil - b.benchedUntil).slice(0, 1);
+    }
+    if (this.balancing === 'leastLatency') {
+      // Unmeasured endpoints score 0, so each gets probed before the pool settles
+      const score = (e: EndpointState) => e.avgLatencyMs * (e.inFlight + 1) / Math.max(e.weight, 0.0001);
+      return candidates.reduce((best, e) => score(e) < score(best) ? e : best);
+    }
+    // Smooth weighted round-robin: spreads picks evenly instead of in weight-sized runs
+    const total = candidates.reduce((sum, e) => sum + e.weight, 0);
+    let best = candidates[0];
+    for (const e of candidates) {
+      e.currentWeight += e.weight;
+      if (e.currentWeight > best.currentWeight) best = e;
+    }
+    best.currentWeight -= total;
+    return best;
+  }
+
+  private record(e: EndpointState, startedAt: number, calls: number, failed: boolean) {
+    const latency = Date.now() - startedAt;
+    e.requests += calls;
+    e.latencies.push(latency);
+    if (e.latencies.length > RPC_LATENCY_WINDOW) e.latencies.shift();
+    e.avgLatencyMs = e.avgLatencyMs === 0 ? latency : e.avgLatencyMs * 0.8 + latency * 0.2;
+    if (failed) {
+      e.errors += calls;
+      if (++e.consecutiveErrors >= RPC_UNHEALTHY_AFTER_ERRORS) {
+        e.benchedUntil = Date.now() + RPC_UNHEALTHY_COOLDOWN_MS;
+      }
+    } else {
+      e.consecutiveErrors = 0;
+      e.benchedUntil = 0;
+    }
+  }
+
+  async _send(payload: JsonRpcPayload | Array<JsonRpcPayload>): Promise<Array<JsonRpcResult>> {
+    const calls = Array.isArray(payload) ? payload.length : 1;
+    // A broadcast that timed out may still have landed, and sending it elsewhere would come back as
+    // "already known" or "nonce too low". Raw txs only fail over when the node clearly turned them away.
+    const broadcast = (Array.isArray(payload) ? payload : [payload]).some(p => p.method === 'eth_sendRawTransaction');
+    const tried = new Set<EndpointState>();
+    let lastError: unknown;
+
+    while (tried.size < this.endpoints.length) {
+      const endpoint = this.pick(tried);
+      tried.add(endpoint);
+      const request = endpoint.connection.clone();
+      request.body = JSON.stringify(payload);
+      request.setHeader('content-type', 'application/json');
+
+      const startedAt = Date.now();
+      endpoint.inFlight++;
+      try {
+        const response = await request.send();
+        response.assertOk();
+        const body = response.bodyJson;
+        const results: JsonRpcResult[] = Array.isArray(body) ? body : [body];
+        const faulty = results.some(isEndpointFault);
+        this.record(endpoint, startedAt, calls, faulty);
+        // A rate-limited answer is worth retrying elsewhere; anything else (reverts, nonce errors) is the caller's
+        if (!faulty || tried.size === this.endpoints.length) return results;
+        if (broadcast && !results.some(isRateLimited)) return results;
+      } catch (error) {
+        this.record(endpoint, startedAt, calls, true);
+        lastError = error;
+        // HTTP 429 lands here too (ethers throws once its single attempt is used up)
+        if (broadcast && classifyError(error) !== 'rate_limited') break;
+      } finally {
+        endpoint.inFlight--;
+      }
+    }
+    throw lastError ?? new Error('All RPC endpoints failed');
+  }
+
+  endpointStats(): EndpointStats[] {
+    const now = Date.now();
+    return this.endpoints.map(e => ({
+      url: e.url,
+      weight: e.weight,
+      requests: e.requests,
+      errors: e.errors,
+      latency: summarizeLatency(e.latencies),
+      healthy: isHealthy(e, now)
+    }));
+  }
+
+  resetStats() {
+    for (const e of this.endpoints) {
+      e.requests = 0;
+      e.errors = 0;
+      e.latencies = [];
+    }
+  }
+}
+
+export const createPooledProvider = (network: NetworkProfile): PooledProvider => {
+  const endpoints = (network.rpcPool?.endpoints ?? []).filter(e => e.url && e.weight > 0);
+  if (endpoints.length === 0) throw new Error(`RPC pool for ${network.name} has no endpoints with a positive weight`);
+  return new RpcPoolProvider(network.chainId, endpoints, network.rpcPool?.balancing ?? 'roundRobin');
+};
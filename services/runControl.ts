@@ -0,0 +1,63 @@
+import { RunState } from '../types';
+
+export interface RunControl {
+  pause: () => void;
+  resume: () => void;
+  abort: (reason: string) => void; // Later calls keep the first reason
+  state: () => RunState;
+  abortReason: () => string | undefined;
+  proceed: () => Promise<boolean>; // Waits out a pause; false once aborted
+  aborted: () => Promise<void>; // Resolves on abort, for racing against long waits
+  subscribe: (listener: (state: RunState) => void) => () => void; // Extra observers, e.g. relaying to an engine worker
+}
+
+// Shared switch between whoever drives a run (UI buttons, SIGINT, abort triggers)
+// and the loops doing the sends. Loops call proceed() before each new send, so
+// pausing never interrupts a tx that is already being signed or broadcast.
+export const createRunControl = (onChange?: (state: RunState) => void): RunControl => {
+  let state: RunState = 'running';
+  let reason: string | undefined;
+  let waiters: (() => void)[] = [];
+  const listeners = new Set<(state: RunState) => void>();
+  let onAbort: () => void = () => {};
+  const abortedPromise = new Promise<void>(resolve => { onAbort = resolve; });
+
+  const setState = (next: RunState) => {
+    if (state === next) return;
+    state = next;
+    if (next !== 'paused') {
+      waiters.forEach(wake => wake());
+      waiters = [];
+    }
+    onChange?.(next);
+    listeners.forEach(listener => listener(next));
+  };
+
+  return {
+    pause: () => {
+      if (state === 'running') setState('paused');
+    },
+    resume: () => {
+      if (state === 'paused') setState('running');
+    },
+    abort: (why) => {
+      if (state === 'aborted') return;
+      reason = why;
+      setState('aborted');
+      onAbort();
+    },
+    state: () => state,
+    abortReason: () => reason,
+    proceed: async () => {
+      if (state === 'paused') {
+        await new Promise<void>(resolve => waiters.push(resolve));
+      }
+      return state !== 'aborted';
+    },
+    aborted: () => abortedPromise,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    }
+  };
+};
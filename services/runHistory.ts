@@ -0,0 +1,34 @@
+import { RunReport, RunReportMeta } from '../types';
+import { MAX_SAVED_RUNS } from '../constants';
+import { withStore } from './localDb';
+import { reportMeta } from './runReport';
+
+// Oldest runs beyond MAX_SAVED_RUNS are pruned on save
+export const saveRunReport = async (report: RunReport): Promise<void> => {
+  await withStore('runs', 'readwrite', store => store.put(report));
+  const runs = await listRunReports();
+  for (const old of runs.slice(MAX_SAVED_RUNS)) {
+    await deleteRunReport(old.id);
+  }
+};
+
+// Most recent first
+export const listRunReports = async (): Promise<RunReportMeta[]> => {
+  const reports = await withStore<RunReport[]>('runs', 'readonly', store => store.getAll());
+  return reports.map(reportMeta).sort((a, b) => b.startedAt - a.startedAt);
+};
+
+export const loadRunReport = async (id: string): Promise<RunReport> => {
+  const report = await withStore<RunReport | undefined>('runs', 'readonly', store => store.get(id));
+  if (!report) throw new Error(`No saved run ${id}`);
+  return report;
+};
+
+export const renameRunReport = async (id: string, label: string): Promise<void> => {
+  const report = await loadRunReport(id);
+  await withStore('runs', 'readwrite', store => store.put({ ...report, label }));
+};
+
+export const deleteRunReport = async (id: string): Promise<void> => {
+  await withStore('runs', 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,201 @@
+import { LatencySummary, NetworkProfile, RunConfigSnapshot, RunReport, RunReportMeta, WorkloadAction } from '../types';
+import { SwarmOptions, SwarmResult } from './swarmEngine';
+import { describeFees } from './feeStrategy';
+import { describeProfile } from './loadScheduler';
+import { ERROR_CLASS_LABELS } from './errorClassifier';
+import { DEFAULT_SEND_CONCURRENCY } from '../constants';
+
+export interface ComparisonRow {
+  label: string;
+  a: string;
+  b: string;
+  delta: string; // b relative to a
+  trend: 'better' | 'worse' | 'same' | 'na';
+}
+
+const describePayload = (action: WorkloadAction): string => {
+  const { payload } = action;
+  if (payload.kind === 'abi') return payload.signature;
+  if (payload.kind === 'deploy') return `deploy ${(payload.bytecode.length - 2) / 2} bytes`;
+  return `hex ${payload.data.slice(0, 10)}${payload.data.length > 10 ? '..' : ''}`;
+};
+
+export const snapshotConfig = (options: SwarmOptions): RunConfigSnapshot => {
+  const { id, name, chainId, explorerUrl } = options.network;
+  return {
+    network: { id, name, chainId, explorerUrl },
+    walletCount: options.wallets.length,
+    interactionsPerWallet: options.interactionsPerWallet,
+    actions: options.actions.map(a => ({
+      id: a.id, name: a.name, weight: a.weight, target: a.target, value: a.value, gasLimit: a.gasLimit, payload: describePayload(a)
+    })),
+    fees: options.fees ?? { strategy: { kind: 'auto' } },
+    loadProfile: options.loadProfile ?? { kind: 'burst' },
+    maxDurationSec: options.maxDurationSec,
+    concurrency: options.concurrency ?? DEFAULT_SEND_CONCURRENCY,
+    retryPolicies: options.retryPolicies,
+    abortOn: options.abortOn
+  };
+};
+
+export const defaultRunLabel = (network: NetworkProfile, actions: WorkloadAction[]) =>
+  `${actions.map(a => a.name).join(' + ')} on ${network.name}`;
+
+export const buildRunReport = (options: SwarmOptions, result: SwarmResult, label?: string): RunReport => ({
+  id: `run-${result.startedAt}-${Math.random().toString(36).substring(2, 6)}`,
+  label: label || defaultRunLabel(options.network, options.actions),
+  startedAt: result.startedAt,
+  endedAt: result.endedAt,
+  config: snapshotConfig(options),
+  abortReason: result.abortReason,
+  stats: result.stats,
+  metrics: result.metrics,
+  spent: result.spent,
+  wallets: result.wallets,
+  txs: result.txs
+});
+
+export const reportMeta = (report: RunReport): RunReportMeta => ({
+  id: report.id,
+  label: report.label,
+  startedAt: report.startedAt,
+  endedAt: report.endedAt,
+  networkName: report.config.network.name,
+  aborted: !!report.abortReason,
+  totalTx: report.stats.totalTx,
+  minedTx: report.stats.minedTx
+});
+
+const pct = (part: number, total: number) => total > 0 ? (part / total) * 100 : 0;
+const ms = (summary: LatencySummary, key: 'p50' | 'p90' | 'p99') => summary.count > 0 ? summary[key] : null;
+
+// Side-by-side figures for two runs. `higherIsBetter` decides whether a change is an improvement.
+export const compareReports = (a: RunReport, b: RunReport): ComparisonRow[] => {
+  const rows: ComparisonRow[] = [];
+  const add = (label: string, va: number | null, vb: number | null, unit: string, higherIsBetter: boolean | null, digits = 0) => {
+    const fmt = (v: number | null) => v === null ? '-' : `${v.toFixed(digits)}${unit}`;
+    let delta = '-';
+    let trend: ComparisonRow['trend'] = 'na';
+    if (va !== null && vb !== null) {
+      const diff = vb - va;
+      delta = `${diff > 0 ? '+' : ''}${diff.toFixed(digits)}${unit}${va !== 0 ? ` (${diff > 0 ? '+' : ''}${((diff / Math.abs(va)) * 100).toFixed(0)}%)` : ''}`;
+      trend = Math.abs(diff) < Math.pow(10, -digits) / 2 || higherIsBetter === null ? 'same' : (diff > 0) === higherIsBetter ? 'better' : 'worse';
+    }
+    rows.push({ label, a: fmt(va), b: fmt(vb), delta, trend });
+  };
+
+  add('Duration', (a.endedAt - a.startedAt) / 1000, (b.endedAt - b.startedAt) / 1000, 's', null, 1);
+  add('Txs attempted', a.stats.totalTx, b.stats.totalTx, '', null);
+  add('Mined', pct(a.stats.minedTx, a.stats.totalTx), pct(b.stats.minedTx, b.stats.totalTx), '%', true, 1);
+  add('Reverted', a.stats.revertedTx, b.stats.revertedTx, '', false);
+  add('Rejected', a.stats.failedTx, b.stats.failedTx, '', false);
+  add('Dropped / replaced', a.stats.droppedTx + a.stats.replacedTx, b.stats.droppedTx + b.stats.replacedTx, '', false);
+  add('Mined TPS', a.metrics.minedTps, b.metrics.minedTps, '', true, 2);
+  add('Sent TPS', a.metrics.submittedTps, b.metrics.submittedTps, '', true, 2);
+  add('Accept p50', ms(a.metrics.acceptLatency, 'p50'), ms(b.metrics.acceptLatency, 'p50'), 'ms', false);
+  for (const key of ['p50', 'p90', 'p99'] as const) {
+    add(`Inclusion ${key}`, ms(a.metrics.inclusionLatency, key), ms(b.metrics.inclusionLatency, key), 'ms', false);
+  }
+  add('Blocks used', a.metrics.blockCount, b.metrics.blockCount, '', null);
+  if (a.metrics.blockSpace || b.metrics.blockSpace) {
+    const share = (r: RunReport) => r.metrics.blockSpace ? r.metrics.blockSpace.fleetShare * 100 : null;
+    add('Fleet share of block txs', share(a), share(b), '%', null, 1);
+  }
+  add('Spend (CELO)', parseFloat(a.spent), parseFloat(b.spent), '', false, 6);
+  const gasPerMined = (r: RunReport) => {
+    const mined = r.txs.filter(t => t.status === 'mined' && t.gasUsed);
+    return mined.length > 0 ? mined.reduce((sum, t) => sum + Number(t.gasUsed), 0) / mined.length : null;
+  };
+  add('Avg gas per mined tx', gasPerMined(a), gasPerMined(b), '', false);
+
+  // Actions are matched by name, so a renamed or new action shows one side only
+  const names = Array.from(new Set([...a.metrics.actions, ...b.metrics.actions].map(x => x.name)));
+  if (names.length > 1) {
+    for (const name of names) {
+      const xa = a.metrics.actions.find(x => x.name === name);
+      const xb = b.metrics.actions.find(x => x.name === name);
+      add(`${name}: mined`, xa ? pct(xa.stats.minedTx, xa.stats.totalTx) : null, xb ? pct(xb.stats.minedTx, xb.stats.totalTx) : null, '%', true, 1);
+      add(`${name}: inclusion p50`, xa ? ms(xa.inclusionLatency, 'p50') : null, xb ? ms(xb.inclusionLatency, 'p50') : null, 'ms', false);
+    }
+  }
+
+  const classes = Array.from(new Set([...a.metrics.errors, ...b.metrics.errors].map(e => e.errorClass)));
+  for (const errorClass of classes) {
+    const failed = (r: RunReport) => r.metrics.errors.find(e => e.errorClass === errorClass)?.failed ?? 0;
+    add(`${ERROR_CLASS_LABELS[errorClass]} failures`, failed(a), failed(b), '', false);
+  }
+  return rows;
+};
+
+export const reportToJson = (report: RunReport): string => JSON.stringify(report, null, 2);
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const table = (headers: string[], rows: (string | number)[][]) =>
+  `<table><thead><tr>${headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead>` +
+  `<tbody>${rows.map(r => `<tr>${r.map(c => `<td>${c}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+
+// Standalone page with no external assets, so it can be attached to a ticket or archived
+export const reportToHtml = (report: RunReport): string => {
+  const { config, stats, metrics } = report;
+  const e = escapeHtml;
+  const explorer = config.network.explorerUrl;
+  const link = (hash: string) => explorer ? `<a href="${e(`${explorer}/tx/${hash}`)}">${hash}</a>` : hash;
+  const latency = (label: string, s: LatencySummary) => [label, s.count, `${s.p50}ms`, `${s.p90}ms`, `${s.p99}ms`, `${s.max}ms`];
+
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>${e(report.label)}</title>
+<style>
+body { font-family: ui-monospace, monospace; font-size: 12px; margin: 24px; color: #111; }
+h1 { font-family: Georgia, serif; font-style: italic; } h2 { margin-top: 24px; border-bottom: 2px solid #111; }
+table { border-collapse: collapse; margin: 8px 0; } th, td { border: 1px solid #999; padding: 2px 8px; text-align: left; }
+th { background: #111; color: #fff; } .aborted { color: #c00; font-weight: bold; }
+</style></head><body>
+<h1>${e(report.label)}</h1>
+<p>${e(config.network.name)} (chain ${config.network.chainId}) &middot; ${e(new Date(report.startedAt).toISOString())} &rarr; ${e(new Date(report.endedAt).toISOString())}
+${report.abortReason ? `<br><span class="aborted">Aborted: ${e(report.abortReason)}</span>` : ''}</p>
+
+<h2>Summary</h2>
+${table(['Attempted', 'Broadcast', 'Mined', 'Reverted', 'Replaced', 'Dropped', 'Rejected', 'Mined TPS', 'Blocks', 'Spend (CELO)'], [[
+  stats.totalTx, stats.submittedTx, stats.minedTx, stats.revertedTx, stats.replacedTx, stats.droppedTx, stats.failedTx,
+  metrics.minedTps.toFixed(2), metrics.blockCount, e(report.spent)
+]])}
+${table(['Latency', 'Count', 'p50', 'p90', 'p99', 'Max'], [latency('Accepted', metrics.acceptLatency), latency('Included', metrics.inclusionLatency)])}
+${metrics.actions.length > 1 ? table(['Action', 'Sent', 'Mined', 'Reverted', 'Rejected', 'Inclusion p50'], metrics.actions.map(a => [
+  e(a.name), a.stats.totalTx, a.stats.minedTx, a.stats.revertedTx, a.stats.failedTx, `${a.inclusionLatency.p50}ms`
+])) : ''}
+${metrics.endpoints ? table(['RPC endpoint', 'Weight', 'Requests', 'Errors', 'p50', 'p90'], metrics.endpoints.map(x => [
+  e(x.url), x.weight, x.requests, x.errors, `${x.latency.p50}ms`, `${x.latency.p90}ms`
+])) : ''}
+${metrics.blockSpace ? table(['Blocks observed', 'Gas used', 'Fleet txs', 'All txs', 'Fleet share', 'Block time'], [[
+  metrics.blockSpace.observedBlocks, `${(metrics.blockSpace.utilization * 100).toFixed(1)}%`, metrics.blockSpace.fleetTx, metrics.blockSpace.totalTx,
+  `${(metrics.blockSpace.fleetShare * 100).toFixed(1)}%`, metrics.blockSpace.avgBlockTimeMs !== null ? `${(metrics.blockSpace.avgBlockTimeMs / 1000).toFixed(2)}s` : '-'
+]]) : ''}
+${metrics.errors.length > 0 ? table(['Send errors', 'Retried', 'Failed'], metrics.errors.map(x => [e(ERROR_CLASS_LABELS[x.errorClass]), x.retried, x.failed])) : ''}
+
+<h2>Configuration</h2>
+${table(['Setting', 'Value'], [
+  ['Wallets', config.walletCount],
+  ['Txs per wallet', config.interactionsPerWallet],
+  ['Load shape', e(describeProfile(config.loadProfile))],
+  ['Max duration', config.maxDurationSec ? `${config.maxDurationSec}s` : '-'],
+  ['Concurrency', config.concurrency ?? '-'],
+  ['Fees', e(describeFees(config.fees))],
+  ['Auto-abort', e(JSON.stringify(config.abortOn ?? {}))]
+])}
+${table(['Action', 'Weight', 'Target', 'Payload', 'Value (CELO)', 'Gas limit'], config.actions.map(a => [
+  e(a.name), a.weight, e(a.target || 'deploy'), e(a.payload), e(a.value || '0'), a.gasLimit
+]))}
+
+<h2>Wallets</h2>
+${table(['#', 'Address', 'Sent', 'Mined', 'Failed', 'Balance after'], report.wallets.map(w => [w.index + 1, e(w.address), w.sent, w.mined, w.failed, e(w.balanceAfter)]))}
+
+<h2>Transactions (${report.txs.length})</h2>
+${table(['Hash', 'Wallet', 'Nonce', 'Action', 'Status', 'Block', 'Gas used', 'Inclusion'], report.txs.map(t => [
+  link(t.hash), `W${t.wallet + 1}`, t.nonce, e(config.actions.find(a => a.id === t.actionId)?.name ?? 'gap filler'), t.status,
+  t.blockNumber ?? '-', t.gasUsed ?? '-', t.includedAt ? `${t.includedAt - t.submittedAt}ms` : '-'
+]))}
+</body></html>
+`;
+};
@@ -0,0 +1,238 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { Wallet, id, parseEther } from 'ethers';
+import { LogEntry, LogType, MockChainConfig, NetworkProfile, RetryPolicy, TokenInfo, WalletAccount } from '../types';
+import { DEFAULT_MOCK_CHAIN, MOCK_NETWORK_ID, NETWORK_PROFILES } from '../constants';
+import { createWalletsFromKeys, getMockChain, getWalletNonce, prepareMockFunder } from './celoService';
+import { EngineHooks, SwarmOptions, runApprovals, runFunding, runSweep, runSwarm, singleAction } from './swarmEngine';
+
+// Offline runs against the in-process mock chain. A fixed seed replays the same injected faults.
+const SEED = 42;
+const FUNDER_KEY = id('celoship-test-funder');
+const RECIPIENT = new Wallet(id('celoship-test-recipient')).address;
+const FAST_RETRY: RetryPolicy = { maxRetries: 20, backoffMs: 1, backoffMultiplier: 1, maxBackoffMs: 1 };
+const NO_RETRY: RetryPolicy = { maxRetries: 0, backoffMs: 0, backoffMultiplier: 1, maxBackoffMs: 0 };
+
+const networks: NetworkProfile[] = [];
+let chainCount = 0;
+
+// Each test gets its own chain: providers are cached per profile id
+const mockNetwork = (config: Partial<MockChainConfig> = {}): NetworkProfile => {
+  const network: NetworkProfile = {
+    ...NETWORK_PROFILES.find(n => n.id === MOCK_NETWORK_ID)!,
+    id: `test-${++chainCount}`,
+    mock: { ...DEFAULT_MOCK_CHAIN, blockTimeMs: 100, latencyMs: { min: 0, max: 0 }, seed: SEED, ...config }
+  };
+  networks.push(network);
+  return network;
+};
+
+const fleet = (count: number): WalletAccount[] =>
+  createWalletsFromKeys(Array.from({ length: count }, (_, i) => id(`celoship-test-wallet-${i}`)));
+
+const fundOnChain = (network: NetworkProfile, wallets: WalletAccount[], celo = '10') =>
+  wallets.forEach(w => getMockChain(network)!.setBalance(w.address, parseEther(celo)));
+
+// Keeps log entries with their in-place updates applied
+const recordHooks = (onLog?: (entry: LogEntry) => void) => {
+  const logs: LogEntry[] = [];
+  const hooks: EngineHooks = {
+    log: (entry) => {
+      logs.push(entry);
+      onLog?.(entry);
+    },
+    updateLog: (entryId, patch) => {
+      const entry = logs.find(l => l.id === entryId);
+      if (entry) Object.assign(entry, patch);
+    },
+    updateWallet: () => {},
+    updateStats: () => {},
+    updateMetrics: () => {}
+  };
+  return { hooks, logs };
+};
+
+const swarmOptions = (network: NetworkProfile, wallets: WalletAccount[], patch: Partial<SwarmOptions> = {}): SwarmOptions => ({
+  network,
+  wallets,
+  actions: [singleAction(RECIPIENT, { kind: 'hex', data: '0x' }, 21000)],
+  interactionsPerWallet: 3,
+  txDelayMs: 0,
+  stuckTxAfterMs: 0,
+  ...patch
+});
+
+afterEach(() => {
+  networks.forEach(network => getMockChain(network)?.stop());
+  networks.length = 0;
+});
+
+describe('runFunding', () => {
+  it('funds every wallet through the disperse helper', async () => {
+    // Blocks slower than ethers' 250ms request cache, so the funder's nonce is read fresh after the deploy
+    const network = mockNetwork({ blockTimeMs: 500 });
+    const wallets = fleet(5);
+    prepareMockFunder(network, FUNDER_KEY);
+    const { hooks } = recordHooks();
+
+    const result = await runFunding({ network, funderPrivateKey: FUNDER_KEY, wallets, amountPerWallet: '1', mode: 'disperse' }, hooks);
+
+    expect(result.funded).toBe(5);
+    expect(result.disperseAddress).toBeDefined();
+    for (const wallet of wallets) {
+      expect(getMockChain(network)!.balanceOf(wallet.address)).toBe(parseEther('1'));
+    }
+  }, 20000);
+});
+
+describe('runSwarm', () => {
+  it('mines every tx in nonce order', async () => {
+    const network = mockNetwork();
+    const wallets = fleet(3);
+    fundOnChain(network, wallets);
+    const { hooks } = recordHooks();
+
+    const result = await runSwarm(swarmOptions(network, wallets), hooks);
+
+    expect(result.stats.minedTx).toBe(9);
+    expect(result.stats.failedTx).toBe(0);
+    expect(result.txs.every(t => t.status === 'mined')).toBe(true);
+    for (const wallet of wallets) {
+      expect(await getWalletNonce(network, wallet.address)).toBe(3);
+    }
+  });
+
+  it('retries injected rate limits and nonce conflicts until every tx is sent', async () => {
+    const network = mockNetwork({ errorRates: { rateLimited: 0.3, nonceConflict: 0.2, reverted: 0 } });
+    const wallets = fleet(4);
+    fundOnChain(network, wallets);
+    const { hooks } = recordHooks();
+
+    const result = await runSwarm(swarmOptions(network, wallets, {
+      interactionsPerWallet: 5,
+      retryPolicies: { rate_limited: FAST_RETRY, nonce_conflict: FAST_RETRY }
+    }), hooks);
+
+    const retried = (errorClass: string) => result.metrics.errors.find(e => e.errorClass === errorClass)?.retried ?? 0;
+    expect(retried('rate_limited')).toBeGreaterThan(0);
+    expect(retried('nonce_conflict')).toBeGreaterThan(0);
+    expect(result.stats.failedTx).toBe(0);
+    expect(result.stats.minedTx).toBe(20);
+  });
+
+  it('fills the nonce gap left by a send that failed for good', async () => {
+    const network = mockNetwork();
+    const chain = getMockChain(network)!;
+    const wallets = fleet(1);
+    fundOnChain(network, wallets);
+    // The last tx is rate limited with no retries; the gap filler then goes through
+    const { hooks, logs } = recordHooks(entry => {
+      if (entry.message === '[W1] Tx 2/3 submitted') chain.configure({ errorRates: { rateLimited: 1, nonceConflict: 0, reverted: 0 } });
+      if (entry.message.startsWith('[W1] Tx 3/3 Failed')) chain.configure({ errorRates: { rateLimited: 0, nonceConflict: 0, reverted: 0 } });
+    });
+
+    const result = await runSwarm(swarmOptions(network, wallets, { retryPolicies: { rate_limited: NO_RETRY } }), hooks);
+
+    expect(result.stats.minedTx).toBe(2);
+    expect(result.stats.failedTx).toBe(1);
+    const filler = logs.find(l => l.message.startsWith('[W1] Gap filler for nonce 2'));
+    expect(filler?.txStatus).toBe('mined');
+    expect(await getWalletNonce(network, wallets[0].address)).toBe(3);
+  });
+
+  it('counts injected reverts as reverted, not mined', async () => {
+    const network = mockNetwork({ errorRates: { rateLimited: 0, nonceConflict: 0, reverted: 1 } });
+    const wallets = fleet(2);
+    fundOnChain(network, wallets);
+    const { hooks } = recordHooks();
+
+    const result = await runSwarm(swarmOptions(network, wallets), hooks);
+
+    expect(result.stats.revertedTx).toBe(6);
+    expect(result.stats.minedTx).toBe(0);
+    expect(result.txs.every(t => t.status === 'reverted')).toBe(true);
+  });
+
+  it('marks txs that are never mined as dropped', async () => {
+    // No blocks are produced, so nothing leaves the pool
+    const network = mockNetwork({ blockTimeMs: 0 });
+    const wallets = fleet(2);
+    fundOnChain(network, wallets);
+    const { hooks } = recordHooks();
+
+    const result = await runSwarm(swarmOptions(network, wallets, { interactionsPerWallet: 2, receiptTimeoutMs: 500 }), hooks);
+
+    expect(result.stats.droppedTx).toBe(4);
+    expect(result.stats.minedTx).toBe(0);
+    expect(result.pendingTx).toBe(0);
+  });
+});
+
+describe('runSweep', () => {
+  it('returns every balance to the recipient', async () => {
+    const network = mockNetwork();
+    const wallets = fleet(3);
+    fundOnChain(network, wallets, '1');
+    const { hooks, logs } = recordHooks();
+
+    const summary = await runSweep({ network, wallets, recipient: RECIPIENT }, hooks);
+
+    expect(summary.results.every(r => r.status === 'swept')).toBe(true);
+    expect(getMockChain(network)!.balanceOf(RECIPIENT)).toBe(parseEther(summary.totalRecovered));
+    expect(logs.find(l => l.message.startsWith('Sweep complete'))?.type).toBe(LogType.SUCCESS);
+  });
+
+  it('retries rate-limited sweeps', async () => {
+    const network = mockNetwork({ errorRates: { rateLimited: 0.5, nonceConflict: 0, reverted: 0 } });
+    const wallets = fleet(4);
+    fundOnChain(network, wallets, '1');
+    const { hooks } = recordHooks();
+
+    const summary = await runSweep({ network, wallets, recipient: RECIPIENT, retryPolicies: { rate_limited: FAST_RETRY } }, hooks);
+
+    expect(summary.results.map(r => r.status)).toEqual(['swept', 'swept', 'swept', 'swept']);
+    expect(getMockChain(network)!.balanceOf(RECIPIENT)).toBe(parseEther(summary.totalRecovered));
+  });
+
+  it('logs an error with the failed count when no sweep goes through', async () => {
+    const network = mockNetwork({ errorRates: { rateLimited: 1, nonceConflict: 0, reverted: 0 } });
+    const wallets = fleet(2);
+    fundOnChain(network, wallets, '1');
+    const { hooks, logs } = recordHooks();
+
+    const summary = await runSweep({ network, wallets, recipient: RECIPIENT, retryPolicies: { rate_limited: NO_RETRY } }, hooks);
+
+    expect(summary.results.every(r => r.status === 'failed')).toBe(true);
+    expect(summary.results[0].reason).toBe('rate limit exceeded');
+    const done = logs.find(l => l.message.startsWith('Sweep complete'));
+    expect(done?.type).toBe(LogType.ERROR);
+    expect(done?.message).toContain('2 failed');
+  });
+});
+
+describe('runApprovals', () => {
+  // The mock chain has no ERC-20s; approve() calls to a plain address go through as-is
+  const token: TokenInfo = { address: new Wallet(id('celoship-test-token')).address, symbol: 'TST', decimals: 18 };
+
+  it('retries rate-limited approvals', async () => {
+    const network = mockNetwork({ errorRates: { rateLimited: 0.5, nonceConflict: 0, reverted: 0 } });
+    const wallets = fleet(4);
+    fundOnChain(network, wallets, '1');
+    const { hooks } = recordHooks();
+
+    const results = await runApprovals({ network, wallets, token, spender: RECIPIENT, retryPolicies: { rate_limited: FAST_RETRY } }, hooks);
+
+    expect(results.map(r => r.status)).toEqual(['approved', 'approved', 'approved', 'approved']);
+  });
+
+  it('reports the node message when an approval is rate limited for good', async () => {
+    const network = mockNetwork({ errorRates: { rateLimited: 1, nonceConflict: 0, reverted: 0 } });
+    const wallets = fleet(1);
+    fundOnChain(network, wallets, '1');
+    const { hooks } = recordHooks();
+
+    const [result] = await runApprovals({ network, wallets, token, spender: RECIPIENT, retryPolicies: { rate_limited: NO_RETRY } }, hooks);
+
+    expect(result.status).toBe('failed');
+    expect(result.reason).toBe('rate limit exceeded');
+  });
+});
@@ -0,0 +1,861 @@
+import { MaxUint256, formatEther, parseEther, parseUnits } from 'ethers';
+import { AbortTriggers, ApprovalResult, FeeConfig, FundingMode, LoadProfile, LogEntry, LogType, MetricsSnapshot, NetworkProfile, PayloadTemplate, RetryPolicies, RunTxRecord, RunWalletResult, SweepResult, SwarmStats, TokenInfo, TxTiming, WalletAccount, WorkloadAction } from '../types';
+import { approveToken, deployDisperse, executeInteraction, fundWallets, fundWalletsDisperse, fundWalletsPipelined, fundWalletsToken, fundWalletsTokenDisperse, getBalance, getEndpointStats, getTokenBalance, resetEndpointStats, sweepWallet } from './celoService';
+import { ABORT_MIN_SETTLED_TX, DEFAULT_DISPERSE_BATCH_SIZE, DEFAULT_SEND_CONCURRENCY, DEFAULT_RETRY_POLICIES, FEE_CURRENCY_GAS_OVERHEAD, GAP_FILL_GAS_LIMIT, MAX_TX_REPLACEMENTS, MOCK_ABI_ERC20, REPLACEMENT_FEE_BUMP_PERCENT, STUCK_TX_AFTER_MS, TOKEN_TRANSFER_GAS_LIMIT } from '../constants';
+import { TxOutcome, createReceiptTracker } from './receiptTracker';
+import { createMetricsCollector } from './metricsCollector';
+import { describeProfile, runSchedule } from './loadScheduler';
+import { CompiledTemplate, compileTarget, compileTemplate } from './payloadTemplate';
+import { createFeeResolver, describeFees, formatFeeParams } from './feeStrategy';
+import { SentTxRecord, bumpFee, createNonceManager } from './nonceManager';
+import { ERROR_CLASS_LABELS, backoffDelay, classifyError, errorMessage } from './errorClassifier';
+import { RunControl, createRunControl } from './runControl';
+import { BlockObserver, createBlockObserver } from './blockObserver';
+import { createLimiter, mapLimit } from './concurrency';
+
+// Framework-free orchestration shared by the React app and the headless CLI.
+// State changes are reported through hooks; the engine never owns UI state.
+export interface EngineHooks {
+  log: (entry: LogEntry) => void;
+  updateLog: (id: string, patch: Partial<LogEntry>) => void;
+  updateWallet: (index: number, patch: Partial<WalletAccount>) => void;
+  updateStats: (stats: SwarmStats) => void;
+  updateMetrics: (metrics: MetricsSnapshot) => void;
+}
+
+export interface FundingOptions {
+  network: NetworkProfile;
+  funderPrivateKey: string;
+  wallets: WalletAccount[];
+  amountPerWallet: string;
+  mode?: FundingMode;
+  disperseAddress?: string; // Deployed from the funder key when missing
+  batchSize?: number;
+  control?: RunControl;
+}
+
+export interface TokenFundingOptions {
+  network: NetworkProfile;
+  funderPrivateKey: string;
+  wallets: WalletAccount[];
+  token: TokenInfo;
+  amountPerWallet: string; // Token units
+  mode?: FundingMode; // disperse batches through the helper; other modes pipeline transfer() calls
+  disperseAddress?: string; // Deployed from the funder key when missing in disperse mode
+  batchSize?: number;
+  control?: RunControl;
+}
+
+export interface ApprovalOptions {
+  network: NetworkProfile;
+  wallets: WalletAccount[];
+  token: TokenInfo;
+  spender: string;
+  amount?: string; // Token units; omitted approves the maximum
+  retryPolicies?: Partial<RetryPolicies>; // Rate limit and timeout retries, merged over DEFAULT_RETRY_POLICIES
+}
+
+export interface FundingResult {
+  funded: number;
+  disperseAddress?: string;
+  abortReason?: string; // Set when funding was aborted before every wallet was sent to
+}
+
+export interface SwarmOptions {
+  network: NetworkProfile;
+  wallets: WalletAccount[];
+  actions: WorkloadAction[]; // Picked by weight per tx; one action for a single-target run
+  interactionsPerWallet: number;
+  templateLists?: Record<string, string[]>; // Values for {{list:NAME}} placeholders
+  fees?: FeeConfig; // Defaults to letting the RPC price each tx
+  retryPolicies?: Partial<RetryPolicies>; // Merged over DEFAULT_RETRY_POLICIES per error class
+  txDelayMs?: number; // Pause between sends per wallet in burst mode
+  receiptTimeoutMs?: number;
+  stuckTxAfterMs?: number; // Resend the oldest unmined tx of a wallet with higher fees after this; 0 disables
+  loadProfile?: LoadProfile;
+  concurrency?: number; // Most sends (signing and broadcast, retries included) in flight across the fleet
+  maxDurationSec?: number; // Stop sending after this, even if the tx quota isn't reached
+  control?: RunControl; // Pause, resume or abort from outside
+  abortOn?: AbortTriggers;
+  wsUrl?: string; // Watch blocks and the mempool over this WebSocket during the run
+  token?: TokenInfo; // Fleet token balances are refreshed with CELO at the end
+}
+
+export interface SweepOptions {
+  network: NetworkProfile;
+  wallets: WalletAccount[];
+  recipient: string;
+  retryPolicies?: Partial<RetryPolicies>; // Rate limit and timeout retries, merged over DEFAULT_RETRY_POLICIES
+}
+
+export interface SweepSummary {
+  results: SweepResult[];
+  totalRecovered: string; // CELO
+}
+
+export interface SwarmResult {
+  startedAt: number;
+  endedAt: number;
+  stats: SwarmStats;
+  metrics: MetricsSnapshot;
+  timings: TxTiming[];
+  txs: RunTxRecord[]; // In broadcast order
+  wallets: RunWalletResult[];
+  spent: string; // CELO, from receipts; gas paid in a fee currency is not included
+  pendingTx: number; // Broadcast but unresolved when the run ended (only after an abort)
+  abortReason?: string;
+  deployedAddresses: string[]; // Contracts created by deploy actions, in inclusion order
+}
+
+const METRICS_PUBLISH_MS = 1000;
+const STUCK_CHECK_MS = 5000;
+const FLEET_TX_CONCURRENCY = 20; // Wallets sweeping or approving at once
+const FLEET_READ_CONCURRENCY = 20; // Balance and nonce reads at once
+
+export const createLogEntry = (message: string, type: LogType, txHash?: string): LogEntry => ({
+  id: Math.random().toString(36).substring(7),
+  timestamp: Date.now(),
+  message,
+  type,
+  txHash
+});
+
+export const emptyStats = (): SwarmStats => ({
+  totalTx: 0,
+  submittedTx: 0,
+  failedTx: 0,
+  minedTx: 0,
+  revertedTx: 0,
+  replacedTx: 0,
+  droppedTx: 0
+});
+
+// Everything that did not end up mined successfully, including txs still pending
+export const failureRate = (stats: SwarmStats): number =>
+  stats.totalTx > 0 ? (stats.totalTx - stats.minedTx) / stats.totalTx : 0;
+
+const OUTCOME_LOG: Record<TxOutcome['status'], { type: LogType, label: string }> = {
+  mined: { type: LogType.SUCCESS, label: 'mined' },
+  reverted: { type: LogType.ERROR, label: 'reverted' },
+  replaced: { type: LogType.WARNING, label: 'replaced' },
+  dropped: { type: LogType.WARNING, label: 'dropped' }
+};
+
+// Wraps a plain target + payload as a one-action workload
+export const singleAction = (target: string, payload: PayloadTemplate, gasLimit: number): WorkloadAction => ({
+  id: 'default',
+  name: 'default',
+  weight: 1,
+  target,
+  payload,
+  value: '0',
+  gasLimit
+});
+
+// Built-in token transfer storm: every tx sends `amount` of the token to another fleet wallet
+export const tokenTransferAction = (token: TokenInfo, amount: string, weight = 1): WorkloadAction => ({
+  id: `token-${token.symbol.toLowerCase()}`,
+  name: `${token.symbol} transfer`,
+  weight,
+  target: token.address,
+  payload: {
+    kind: 'abi',
+    abiText: MOCK_ABI_ERC20.join('\n'),
+    signature: 'transfer(address,uint256)',
+    args: ['{{randomAddress}}', parseUnits(amount, token.decimals).toString()]
+  },
+  value: '0',
+  gasLimit: TOKEN_TRANSFER_GAS_LIMIT
+});
+
+export const validateActions = (actions: WorkloadAction[]) => {
+  if (actions.length === 0) throw new Error('Workload has no actions.');
+  for (const action of actions) {
+    if (!(action.weight >= 0)) throw new Error(`Action "${action.name}" has an invalid weight.`);
+    if (action.payload.kind === 'deploy') {
+      if (action.target) throw new Error(`Action "${action.name}" deploys a contract and can't have a target.`);
+    } else if (!action.target) {
+      throw new Error(`Action "${action.name}" has no target.`);
+    }
+  }
+  if (actions.every(a => a.weight === 0)) throw new Error('At least one action needs a weight above 0.');
+};
+
+interface CompiledAction {
+  action: WorkloadAction;
+  template: CompiledTemplate;
+  target: CompiledTemplate;
+}
+
+const pickAction = (compiled: CompiledAction[], totalWeight: number): CompiledAction => {
+  let roll = Math.random() * totalWeight;
+  for (const entry of compiled) {
+    roll -= entry.action.weight;
+    if (roll < 0) return entry;
+  }
+  return compiled[compiled.length - 1];
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const refreshBalances = async (network: NetworkProfile, wallets: WalletAccount[], hooks: EngineHooks): Promise<string[]> => {
+  hooks.log(createLogEntry("Refreshing fleet balances...", LogType.INFO));
+  return mapLimit(wallets, FLEET_READ_CONCURRENCY, async (wallet, i) => {
+    const balance = await getBalance(network, wallet.address);
+    hooks.updateWallet(i, { balance });
+    return balance;
+  });
+};
+
+export const refreshTokenBalances = async (network: NetworkProfile, token: TokenInfo, wallets: WalletAccount[], hooks: EngineHooks): Promise<string[]> => {
+  hooks.log(createLogEntry(`Refreshing fleet ${token.symbol} balances...`, LogType.INFO));
+  return mapLimit(wallets, FLEET_READ_CONCURRENCY, async (wallet, i) => {
+    const tokenBalance = await getTokenBalance(network, token, wallet.address);
+    hooks.updateWallet(i, { tokenBalance });
+    return tokenBalance;
+  });
+};
+
+export const runFunding = async (options: FundingOptions, hooks: EngineHooks): Promise<FundingResult> => {
+  const { network, funderPrivateKey, wallets, amountPerWallet, mode = 'sequential', batchSize = DEFAULT_DISPERSE_BATCH_SIZE, control } = options;
+  const proceed = control?.proceed;
+  let disperseAddress = options.disperseAddress;
+  let funded = 0;
+
+  const onProgress = (index: number, txHash: string) => {
+    funded++;
+    hooks.log(createLogEntry(`Funded Wallet ${index + 1} - Confirmed`, LogType.SUCCESS, txHash));
+    hooks.updateWallet(index, { status: 'funding' });
+  };
+
+  if (mode === 'disperse') {
+    if (!disperseAddress && (!proceed || await proceed())) {
+      hooks.log(createLogEntry("No disperse contract configured. Deploying helper from funder...", LogType.INFO));
+      disperseAddress = await deployDisperse(network, funderPrivateKey);
+      hooks.log(createLogEntry(`Disperse helper deployed at ${disperseAddress}`, LogType.SUCCESS));
+    }
+    if (disperseAddress) {
+      const batches = Math.ceil(wallets.length / batchSize);
+      hooks.log(createLogEntry(`Dispersing ${amountPerWallet} CELO to ${wallets.length} wallets in ${batches} batch tx(s)...`, LogType.INFO));
+      await fundWalletsDisperse(network, funderPrivateKey, disperseAddress, wallets, amountPerWallet, batchSize, onProgress, proceed);
+    }
+  } else if (mode === 'pipelined') {
+    hooks.log(createLogEntry(`Dispersing ${amountPerWallet} CELO to ${wallets.length} wallets (Pipelined nonces)...`, LogType.INFO));
+    await fundWalletsPipelined(network, funderPrivateKey, wallets, amountPerWallet, onProgress, proceed);
+  } else {
+    hooks.log(createLogEntry(`Dispersing ${amountPerWallet} CELO to ${wallets.length} wallets (Blocking)...`, LogType.INFO));
+    await fundWallets(network, funderPrivateKey, wallets, amountPerWallet, onProgress, proceed);
+  }
+
+  const abortReason = control?.abortReason();
+  if (abortReason) {
+    hooks.log(createLogEntry(`FUNDING ABORTED (${abortReason}). ${funded} of ${wallets.length} wallets funded; transfers already broadcast were awaited.`, LogType.WARNING));
+    await refreshBalances(network, wallets, hooks);
+    return { funded, disperseAddress, abortReason };
+  }
+
+  if (funded < wallets.length) {
+    hooks.log(createLogEntry(`${wallets.length - funded} of ${wallets.length} wallets could not be funded. See console for details.`, LogType.WARNING));
+  }
+
+  hooks.log(createLogEntry("Funds confirmed. Waiting 3s for network propagation...", LogType.WARNING));
+  await sleep(3000);
+
+  await refreshBalances(network, wallets, hooks);
+  hooks.log(createLogEntry("Funding sequence complete. Fleet Ready.", LogType.SUCCESS));
+  return { funded, disperseAddress };
+};
+
+export const runTokenFunding = async (options: TokenFundingOptions, hooks: EngineHooks): Promise<FundingResult> => {
+  const { network, funderPrivateKey, wallets, token, amountPerWallet, mode = 'pipelined', batchSize = DEFAULT_DISPERSE_BATCH_SIZE, control } = options;
+  const proceed = control?.proceed;
+  let disperseAddress = options.disperseAddress;
+  let funded = 0;
+
+  const onProgress = (index: number, txHash: string) => {
+    funded++;
+    hooks.log(createLogEntry(`Sent ${amountPerWallet} ${token.symbol} to Wallet ${index + 1} - Confirmed`, LogType.SUCCESS, txHash));
+  };
+
+  if (mode === 'disperse') {
+    if (!disperseAddress && (!proceed || await proceed())) {
+      hooks.log(createLogEntry("No disperse contract configured. Deploying helper from funder...", LogType.INFO));
+      disperseAddress = await deployDisperse(network, funderPrivateKey);
+      hooks.log(createLogEntry(`Disperse helper deployed at ${disperseAddress}`, LogType.SUCCESS));
+    }
+    if (disperseAddress) {
+      const batches = Math.ceil(wallets.length / batchSize);
+      hooks.log(createLogEntry(`Dispersing ${amountPerWallet} ${token.symbol} to ${wallets.length} wallets in ${batches} batch tx(s)...`, LogType.INFO));
+      await fundWalletsTokenDisperse(network, funderPrivateKey, disperseAddress, token, wallets, amountPerWallet, batchSize, onProgress, proceed);
+    }
+  } else {
+    hooks.log(createLogEntry(`Sending ${amountPerWallet} ${token.symbol} to ${wallets.length} wallets (Pipelined nonces)...`, LogType.INFO));
+    await fundWalletsToken(network, funderPrivateKey, token, wallets, amountPerWallet, onProgress, proceed);
+  }
+
+  const abortReason = control?.abortReason();
+  if (abortReason) {
+    hooks.log(createLogEntry(`TOKEN FUNDING ABORTED (${abortReason}). ${funded} of ${wallets.length} wallets received ${token.symbol}.`, LogType.WARNING));
+  } else if (funded < wallets.length) {
+    hooks.log(createLogEntry(`${wallets.length - funded} of ${wallets.length} wallets did not receive ${token.symbol}. See console for details.`, LogType.WARNING));
+  } else {
+    hooks.log(createLogEntry(`${token.symbol} distributed to all ${wallets.length} wallets.`, LogType.SUCCESS));
+  }
+
+  await refreshTokenBalances(network, token, wallets, hooks);
+  return { funded, disperseAddress, abortReason };
+};
+
+export const runApprovals = async (options: ApprovalOptions, hooks: EngineHooks): Promise<ApprovalResult[]> => {
+  const { network, wallets, token, spender, amount, retryPolicies } = options;
+  const value = amount ? parseUnits(amount, token.decimals) : MaxUint256;
+  const policies: RetryPolicies = { ...DEFAULT_RETRY_POLICIES, ...retryPolicies };
+
+  hooks.log(createLogEntry(`Approving ${spender} for ${amount ? `${amount} ${token.symbol}` : `unlimited ${token.symbol}`} from ${wallets.length} wallets...`, LogType.INFO));
+
+  const results = await mapLimit(wallets, FLEET_TX_CONCURRENCY, async (wallet, index) => {
+    const result = await approveToken(network, wallet, index, token, spender, value, policies);
+    const tag = `[W${result.index + 1}]`;
+    if (result.status === 'approved') {
+      hooks.log(createLogEntry(`${tag} Approved`, LogType.SUCCESS, result.txHash));
+    } else {
+      hooks.log(createLogEntry(`${tag} Approval failed: ${result.reason}`, LogType.ERROR));
+    }
+    return result;
+  });
+
+  const approved = results.filter(r => r.status === 'approved').length;
+  hooks.log(createLogEntry(
+    `Approvals complete: ${approved}/${wallets.length} wallets.`,
+    approved === wallets.length ? LogType.SUCCESS : LogType.WARNING
+  ));
+  return results;
+};
+
+export const runSweep = async (options: SweepOptions, hooks: EngineHooks): Promise<SweepSummary> => {
+  const { network, wallets, recipient, retryPolicies } = options;
+  const policies: RetryPolicies = { ...DEFAULT_RETRY_POLICIES, ...retryPolicies };
+
+  hooks.log(createLogEntry(`Sweeping ${wallets.length} wallets to ${recipient}...`, LogType.INFO));
+
+  const results = await mapLimit(wallets, FLEET_TX_CONCURRENCY, async (wallet, index) => {
+    const result = await sweepWallet(network, wallet, index, recipient, policies);
+    const tag = `[W${result.index + 1}]`;
+    if (result.status === 'swept') {
+      hooks.log(createLogEntry(`${tag} Swept ${result.amount} CELO`, LogType.SUCCESS, result.txHash));
+    } else if (result.status === 'skipped') {
+      hooks.log(createLogEntry(`${tag} Skipped: ${result.reason}`, LogType.WARNING));
+    } else {
+      hooks.log(createLogEntry(`${tag} Sweep failed: ${result.reason}`, LogType.ERROR));
+    }
+    return result;
+  });
+
+  const totalWei = results.reduce((sum, r) => sum + parseEther(r.amount), 0n);
+  const totalRecovered = formatEther(totalWei);
+  const swept = results.filter(r => r.status === 'swept').length;
+  const failed = results.filter(r => r.status === 'failed').length;
+  hooks.log(createLogEntry(
+    `Sweep complete: ${swept}/${wallets.length} wallets, ${totalRecovered} CELO recovered${failed > 0 ? `, ${failed} failed` : ''}.`,
+    failed === 0 ? LogType.SUCCESS : swept > 0 ? LogType.WARNING : LogType.ERROR
+  ));
+
+  await refreshBalances(network, wallets, hooks);
+  return { results, totalRecovered };
+};
+
+export const runSwarm = async (options: SwarmOptions, hooks: EngineHooks): Promise<SwarmResult> => {
+  const {
+    network, wallets, actions, interactionsPerWallet, templateLists, fees = { strategy: { kind: 'auto' } }, retryPolicies,
+    txDelayMs = 200, receiptTimeoutMs, stuckTxAfterMs = STUCK_TX_AFTER_MS, loadProfile = { kind: 'burst' }, maxDurationSec,
+    concurrency = DEFAULT_SEND_CONCURRENCY, control = createRunControl(), abortOn = {}, wsUrl, token
+  } = options;
+  const maxTx = wallets.length * interactionsPerWallet;
+
+  // Throws on a bad workload or template before anything is sent
+  validateActions(actions);
+  const fleet = wallets.map(w => w.address);
+  const compiled: CompiledAction[] = actions.map(action => ({
+    action,
+    template: compileTemplate(action.payload, fleet, templateLists),
+    target: compileTarget(action.target, fleet, templateLists)
+  }));
+  const totalWeight = actions.reduce((sum, a) => sum + a.weight, 0);
+  const mixed = actions.length > 1;
+  const policies: RetryPolicies = { ...DEFAULT_RETRY_POLICIES, ...retryPolicies };
+  const maxSpendWei = abortOn.maxSpend ? parseEther(abortOn.maxSpend) : undefined;
+  const feeResolver = createFeeResolver(network, fees);
+  // Surfaces bad fee settings or an unsupported fee currency before anything is sent
+  const initialFee = await feeResolver.next();
+
+  // Outcome of every broadcast hash for the run report; replaced hashes keep their own entry
+  const txRecords = new Map<string, RunTxRecord>();
+  // Exists before the observer, whose callbacks can fire as soon as it connects
+  const startedAt = Date.now();
+  const metrics = createMetricsCollector(startedAt, actions);
+  // Without the observer the run goes ahead on receipts alone
+  let observer: BlockObserver | undefined;
+  let observerError: string | undefined;
+  if (wsUrl) {
+    try {
+      observer = await createBlockObserver(network, wsUrl, {
+        isFleetTx: hash => txRecords.has(hash),
+        onFleetTx: (hash, seenAt, blockNumber) => {
+          metrics.recordIncluded(hash, seenAt, blockNumber);
+          const record = txRecords.get(hash);
+          if (record) record.includedAt ??= seenAt;
+        },
+        onDisconnect: () => hooks.log(createLogEntry(`Block observer lost its WebSocket; block space stats stop here.`, LogType.WARNING))
+      });
+    } catch (e) {
+      observerError = errorMessage(e);
+    }
+  }
+
+  const stats = emptyStats();
+  hooks.updateStats({ ...stats });
+
+  // RPC pool stats cover this run only. Endpoint health carries over within one process (the CLI,
+  // the phases of a pipeline); live-network app tasks each get a fresh worker, so it starts clean there.
+  resetEndpointStats(network);
+  const snapshot = (): MetricsSnapshot => ({ ...metrics.snapshot(), endpoints: getEndpointStats(network), blockSpace: observer?.summary() });
+  // Keeps the run totals and the per-action breakdown in step
+  const count = (actionId: string, field: keyof SwarmStats) => {
+    stats[field]++;
+    metrics.countAction(actionId, field);
+  };
+  hooks.updateMetrics(snapshot());
+
+  // Value and gas of every tx with a receipt. Fee-currency gas is paid in tokens, so only value counts then.
+  let spentWei = 0n;
+  const checkAbortTriggers = () => {
+    if (control.state() === 'aborted') return;
+    if (maxSpendWei !== undefined && spentWei > maxSpendWei) {
+      control.abort(`fleet spend ${formatEther(spentWei)} CELO passed the ${abortOn.maxSpend} CELO budget`);
+      return;
+    }
+    const settled = stats.failedTx + stats.minedTx + stats.revertedTx + stats.replacedTx + stats.droppedTx;
+    if (abortOn.maxFailureRate !== undefined && settled >= (abortOn.minSettledTx ?? ABORT_MIN_SETTLED_TX)) {
+      const rate = (settled - stats.minedTx) / settled;
+      if (rate > abortOn.maxFailureRate) {
+        control.abort(`failure rate ${(rate * 100).toFixed(1)}% passed ${(abortOn.maxFailureRate * 100).toFixed(1)}% after ${settled} txs`);
+      }
+    }
+  };
+
+  const metricsTimer = setInterval(() => hooks.updateMetrics(snapshot()), METRICS_PUBLISH_MS);
+
+  const nonceManager = createNonceManager(network, fleet);
+  const walletIndexes = new Map(fleet.map((address, wIndex) => [address, wIndex]));
+  const publishNonces = (wIndex: number) => hooks.updateWallet(wIndex, { nonceState: nonceManager.state(wIndex) });
+
+  // Log entry id and label per hash, so receipts can update the entry in place.
+  // Gap fillers are logged but left out of the stats.
+  const txLogs = new Map<string, { id: string, label: string, actionId: string, counted: boolean, valueWei: bigint }>();
+  const rejectedSends = wallets.map(() => 0);
+  const deployedAddresses: string[] = [];
+  const tracker = createReceiptTracker(network, (tx, outcome) => {
+    const { type, label } = OUTCOME_LOG[outcome.status];
+    const txLog = txLogs.get(tx.hash);
+    const wIndex = walletIndexes.get(tx.from);
+    if (wIndex !== undefined) {
+      nonceManager.settle(wIndex, tx.nonce, outcome.status !== 'dropped');
+      publishNonces(wIndex);
+    }
+    const record = txRecords.get(tx.hash);
+    if (record) {
+      record.status = outcome.status;
+      record.blockNumber = outcome.receipt?.blockNumber;
+      record.gasUsed = outcome.receipt?.gasUsed;
+      record.contractAddress = outcome.status === 'mined' ? outcome.receipt?.contractAddress : undefined;
+      if (outcome.receipt) record.includedAt ??= Date.now();
+    }
+    if (outcome.receipt) {
+      metrics.recordIncluded(tx.hash, Date.now(), outcome.receipt.blockNumber);
+      if (!fees.feeCurrency) spentWei += BigInt(outcome.receipt.gasUsed) * BigInt(outcome.receipt.effectiveGasPrice);
+      if (outcome.status === 'mined') spentWei += txLog?.valueWei ?? 0n;
+    }
+    const created = outcome.status === 'mined' ? outcome.receipt?.contractAddress : undefined;
+    if (created) deployedAddresses.push(created);
+    if (txLog?.counted) {
+      if (outcome.status === 'mined') count(txLog.actionId, 'minedTx');
+      if (outcome.status === 'reverted') count(txLog.actionId, 'revertedTx');
+      if (outcome.status === 'replaced') count(txLog.actionId, 'replacedTx');
+      if (outcome.status === 'dropped') count(txLog.actionId, 'droppedTx');
+    }
+    hooks.updateStats({ ...stats });
+    if (txLog) {
+      const block = outcome.receipt ? ` in block ${outcome.receipt.blockNumber}` : '';
+      const deployed = created ? `, deployed ${created}` : '';
+      hooks.updateLog(txLog.id, { type, txStatus: outcome.status, message: `${txLog.label} ${label}${block}${deployed}` });
+    }
+    checkAbortTriggers();
+  }, { pollIntervalMs: 1000, dropTimeoutMs: receiptTimeoutMs });
+
+  hooks.log(createLogEntry(`INITIATING SWARM SEQUENCE...`, LogType.INFO));
+  hooks.log(createLogEntry(`NETWORK: ${network.name} (chain ${network.chainId})`, LogType.INFO));
+  if (network.rpcPool?.endpoints.length) {
+    hooks.log(createLogEntry(
+      `RPC POOL: ${network.rpcPool.endpoints.length} endpoints, ${network.rpcPool.balancing === 'leastLatency' ? 'least latency' : 'weighted round-robin'}`,
+      LogType.INFO
+    ));
+  }
+  if (observer) {
+    const { pendingSeen } = observer.summary();
+    hooks.log(createLogEntry(`BLOCKS: watching ${wsUrl} (new heads${pendingSeen === null ? ', no pending tx stream' : ' + pending txs'})`, LogType.INFO));
+  } else if (observerError) {
+    hooks.log(createLogEntry(`Block observer unavailable, continuing without it: ${observerError}`, LogType.WARNING));
+  }
+  if (mixed) {
+    hooks.log(createLogEntry(`WORKLOAD: ${actions.length} weighted actions`, LogType.INFO));
+    for (const { action, template } of compiled) {
+      const share = ((action.weight / totalWeight) * 100).toFixed(0);
+      hooks.log(createLogEntry(
+        `  ${action.name} (${share}%): ${action.target || 'new contract per tx'}, value ${action.value || '0'} CELO, gas ${action.gasLimit}, ${template.isStatic ? 'static' : `templated (${action.payload.kind})`}`,
+        LogType.INFO
+      ));
+    }
+  } else {
+    const { action, template } = compiled[0];
+    hooks.log(createLogEntry(`TARGET: ${action.target || 'new contract per tx'}`, LogType.INFO));
+    hooks.log(createLogEntry(`GAS LIMIT: ${action.gasLimit} (Estimation Skipped)`, LogType.INFO));
+    hooks.log(createLogEntry(`PAYLOAD: ${template.isStatic ? 'static' : `templated (${action.payload.kind})`}`, LogType.INFO));
+  }
+  hooks.log(createLogEntry(`INTENSITY: ${interactionsPerWallet} txs per wallet (${maxTx} total), up to ${concurrency} sends in flight`, LogType.INFO));
+  hooks.log(createLogEntry(`FEES: ${describeFees(fees)}, starting at ${formatFeeParams(initialFee)}`, LogType.INFO));
+  hooks.log(createLogEntry(`LOAD SHAPE: ${describeProfile(loadProfile)}${maxDurationSec ? `, max ${maxDurationSec}s` : ''}`, LogType.INFO));
+  if (maxSpendWei !== undefined || abortOn.maxFailureRate !== undefined) {
+    const limits = [
+      abortOn.maxSpend && `spend over ${abortOn.maxSpend} CELO`,
+      abortOn.maxFailureRate !== undefined && `failure rate over ${(abortOn.maxFailureRate * 100).toFixed(1)}%`
+    ].filter(Boolean);
+    hooks.log(createLogEntry(`AUTO-ABORT: ${limits.join(' or ')}`, LogType.INFO));
+  }
+
+  // Nonces are managed locally from a pending/confirmed sync, so sends don't wait on the RPC
+  const ready: boolean[] = await mapLimit(wallets, FLEET_READ_CONCURRENCY, async (_, wIndex) => {
+    try {
+      await nonceManager.resync(wIndex);
+      publishNonces(wIndex);
+      return true;
+    } catch (e) {
+      hooks.log(createLogEntry(`[W${wIndex + 1}] Failed to fetch initial nonce.`, LogType.ERROR));
+      hooks.updateWallet(wIndex, { status: 'error' });
+      return false;
+    }
+  });
+  const txCounts = wallets.map(w => w.txCount);
+  const txIndexes = wallets.map(() => 0);
+  let seqCounter = 0;
+
+  const sendTx = async (wIndex: number, baseLabel: string) => {
+    const wallet = wallets[wIndex];
+    const picked = pickAction(compiled, totalWeight);
+    const { action } = picked;
+    const label = mixed ? `${baseLabel} <${action.name}>` : baseLabel;
+    hooks.updateWallet(wIndex, { status: 'sending' });
+    const txIndex = txIndexes[wIndex]++;
+    const seq = seqCounter++;
+
+    // Retries resend the same tx; a failed attempt's nonce is reused or resynced by the nonce manager
+    for (let attempt = 0; ; attempt++) {
+      if (await trySend(wIndex, picked, label, txIndex, seq, attempt)) break;
+    }
+    publishNonces(wIndex);
+  };
+
+  // One send attempt. Returns false when the error's policy allows another try.
+  const trySend = async (
+    wIndex: number, { action, template, target }: CompiledAction, label: string, txIndex: number, seq: number, attempt: number
+  ): Promise<boolean> => {
+    const wallet = wallets[wIndex];
+    // Gas estimation is skipped: the action's gasLimit is passed as is
+    const txNonce = nonceManager.reserve(wIndex);
+    try {
+      const ctx = { sender: wallet.address, walletIndex: wIndex, txIndex, seq, nonce: txNonce };
+      const data = template.render(ctx);
+      const to = target.render(ctx);
+      const feeParams = await feeResolver.next();
+      const submitStartedAt = Date.now();
+      const { hash, fee } = await executeInteraction(network, wallet, to, data, txNonce, action.gasLimit, action.value, feeParams);
+      metrics.recordAccepted(hash, submitStartedAt, Date.now(), action.id, fee);
+      nonceManager.markSent(wIndex, {
+        nonce: txNonce, hash, to, data, value: action.value, gasLimit: action.gasLimit, fee, sentAt: Date.now(), replacements: 0
+      });
+
+      const entry = {
+        ...createLogEntry(`${label} submitted`, LogType.INFO, hash),
+        txStatus: 'submitted' as const,
+        calldata: template.isStatic ? undefined : data,
+        fee
+      };
+      txLogs.set(hash, { id: entry.id, label, actionId: action.id, counted: true, valueWei: parseEther(action.value || '0') });
+      txRecords.set(hash, { hash, wallet: wIndex, nonce: txNonce, actionId: action.id, status: 'submitted', fee, submittedAt: submitStartedAt });
+      hooks.log(entry);
+      tracker.track({ hash, from: wallet.address, nonce: txNonce, submittedAt: Date.now() });
+
+      count(action.id, 'totalTx');
+      count(action.id, 'submittedTx');
+      hooks.updateStats({ ...stats });
+      hooks.updateWallet(wIndex, { txCount: ++txCounts[wIndex] });
+      return true;
+    } catch (error) {
+      const errorClass = classifyError(error);
+      const policy = policies[errorClass];
+      const reason = errorMessage(error);
+      await nonceManager.release(wIndex, txNonce, error);
+      if (errorClass === 'nonce_conflict') {
+        hooks.log(createLogEntry(`[W${wIndex + 1}] Nonce conflict at ${txNonce}, resynced to ${nonceManager.state(wIndex).next}.`, LogType.WARNING));
+      }
+
+      const retry = attempt < policy.maxRetries && control.state() !== 'aborted';
+      metrics.recordError(errorClass, retry);
+      if (retry) {
+        const delay = backoffDelay(policy, attempt + 1);
+        hooks.log(createLogEntry(
+          `${label} ${ERROR_CLASS_LABELS[errorClass]}: ${reason}. Retry ${attempt + 1}/${policy.maxRetries} in ${delay}ms`,
+          LogType.WARNING
+        ));
+        await sleep(delay);
+        if (await control.proceed()) return false;
+        hooks.log(createLogEntry(`${label} Retry cancelled, run aborted`, LogType.ERROR));
+      } else {
+        hooks.log(createLogEntry(`${label} Failed [${ERROR_CLASS_LABELS[errorClass]}]: ${reason}`, LogType.ERROR));
+      }
+
+      count(action.id, 'totalTx');
+      count(action.id, 'failedTx');
+      rejectedSends[wIndex]++;
+      hooks.updateStats({ ...stats });
+      hooks.updateWallet(wIndex, { status: 'error' });
+      checkAbortTriggers();
+      return true;
+    }
+  };
+
+  // Resends the tx blocking a wallet's queue at the same nonce with bumped fees
+  const replacing = new Set<string>();
+  const replaceStuck = async (wIndex: number, record: SentTxRecord) => {
+    if (replacing.has(record.hash)) return;
+    replacing.add(record.hash);
+    const tag = `[W${wIndex + 1}] Nonce ${record.nonce}`;
+    try {
+      const { hash, fee } = await executeInteraction(
+        network, wallets[wIndex], record.to, record.data, record.nonce, record.gasLimit, record.value, bumpFee(record.fee)
+      );
+      nonceManager.markSent(wIndex, { ...record, hash, fee, sentAt: Date.now(), replacements: record.replacements + 1 });
+      metrics.replaceHash(record.hash, hash, fee);
+      tracker.untrack(record.hash);
+      tracker.track({ hash, from: wallets[wIndex].address, nonce: record.nonce, submittedAt: Date.now() });
+      const previous = txRecords.get(record.hash);
+      if (previous) {
+        previous.status = 'replaced';
+        txRecords.set(hash, { ...previous, hash, status: 'submitted', fee, submittedAt: Date.now() });
+      }
+      const txLog = txLogs.get(record.hash);
+      if (txLog) {
+        txLogs.set(hash, txLog);
+        hooks.updateLog(txLog.id, { txHash: hash, fee, message: `${txLog.label} resent with higher fees` });
+      }
+      hooks.log(createLogEntry(`${tag} stuck, resent with +${REPLACEMENT_FEE_BUMP_PERCENT}% fees`, LogType.WARNING, hash));
+    } catch (error) {
+      // Usually the original was mined meanwhile; the tracker settles it either way
+      nonceManager.markSent(wIndex, { ...record, sentAt: Date.now(), replacements: record.replacements + 1 });
+      hooks.log(createLogEntry(`${tag} replacement failed: ${errorMessage(error)}`, LogType.WARNING));
+    } finally {
+      replacing.delete(record.hash);
+    }
+  };
+
+  const stuckTimer = stuckTxAfterMs > 0 ? setInterval(() => {
+    if (control.state() === 'aborted') return;
+    for (const { wIndex, record } of nonceManager.stuck(stuckTxAfterMs)) {
+      if (record.replacements < MAX_TX_REPLACEMENTS) replaceStuck(wIndex, record);
+    }
+  }, STUCK_CHECK_MS) : null;
+
+  // Nonces left open by failed or dropped sends would block everything after them
+  const fillGaps = async () => {
+    const gasLimit = GAP_FILL_GAS_LIMIT + (fees.feeCurrency ? FEE_CURRENCY_GAS_OVERHEAD : 0);
+    await mapLimit(wallets, concurrency, async (wallet, wIndex) => {
+      if (!ready[wIndex]) return;
+      for (const nonce of nonceManager.takeGaps(wIndex)) {
+        const label = `[W${wIndex + 1}] Gap filler for nonce ${nonce}`;
+        try {
+          const { hash, fee } = await executeInteraction(network, wallet, wallet.address, '0x', nonce, gasLimit, '0', await feeResolver.next());
+          nonceManager.markSent(wIndex, { nonce, hash, to: wallet.address, data: '0x', value: '0', gasLimit, fee, sentAt: Date.now(), replacements: 0 });
+          const entry = { ...createLogEntry(`${label} submitted`, LogType.WARNING, hash), txStatus: 'submitted' as const, fee };
+          txLogs.set(hash, { id: entry.id, label, actionId: '', counted: false, valueWei: 0n });
+          txRecords.set(hash, { hash, wallet: wIndex, nonce, status: 'submitted', fee, submittedAt: Date.now() });
+          hooks.log(entry);
+          tracker.track({ hash, from: wallet.address, nonce, submittedAt: Date.now() });
+        } catch (error) {
+          hooks.log(createLogEntry(`${label} failed: ${errorMessage(error)}`, LogType.ERROR));
+        }
+      }
+      publishNonces(wIndex);
+    });
+  };
+
+  // Every wallet loops through its quota; the limiter keeps at most `concurrency` sends in flight
+  const sendLimiter = createLimiter(concurrency);
+  const runBurst = async () => {
+    let timedOut = false;
+    await Promise.all(wallets.map(async (_, wIndex) => {
+      if (!ready[wIndex]) return;
+      // Time spent paused doesn't count against the duration limit
+      let deadline = maxDurationSec ? Date.now() + maxDurationSec * 1000 : Infinity;
+      for (let i = 0; i < interactionsPerWallet; i++) {
+        const waitStart = Date.now();
+        if (!(await control.proceed())) break;
+        deadline += Date.now() - waitStart;
+        if (Date.now() >= deadline) {
+          timedOut = true;
+          break;
+        }
+        await sendLimiter.run(() => sendTx(wIndex, `[W${wIndex + 1}] Tx ${i + 1}/${interactionsPerWallet}`));
+        await sleep(txDelayMs);
+      }
+      hooks.updateWallet(wIndex, { status: 'done' });
+    }));
+    if (timedOut) {
+      hooks.log(createLogEntry(`Duration limit of ${maxDurationSec}s reached.`, LogType.WARNING));
+    }
+  };
+
+  // Round-robin over wallets with one send in flight per wallet, keeping nonces ordered.
+  // A tick that finds `concurrency` sends already in flight counts as skipped.
+  const runScheduled = async (profile: Exclude<LoadProfile, { kind: 'burst' }>) => {
+    const busy = wallets.map((_, wIndex) => !ready[wIndex]);
+    const sent = wallets.map(() => 0);
+    // Wallets without a nonce sit out, so the quota shrinks with them
+    const quota = ready.filter(Boolean).length * interactionsPerWallet;
+    const inFlight = new Set<Promise<void>>();
+    let cursor = 0;
+
+    const result = await runSchedule({ profile, maxTx: quota, maxDurationSec, control }, (seq) => {
+      if (inFlight.size >= concurrency) return false;
+      for (let k = 0; k < wallets.length; k++) {
+        const wIndex = (cursor + k) % wallets.length;
+        if (busy[wIndex] || sent[wIndex] >= interactionsPerWallet) continue;
+        cursor = wIndex + 1;
+        busy[wIndex] = true;
+        sent[wIndex]++;
+        const send = sendTx(wIndex, `[W${wIndex + 1}] Tx ${seq + 1}/${quota}`).finally(() => {
+          busy[wIndex] = false;
+          inFlight.delete(send);
+        });
+        inFlight.add(send);
+        return true;
+      }
+      return false;
+    });
+
+    await Promise.all(inFlight);
+    wallets.forEach((_, wIndex) => {
+      if (ready[wIndex]) hooks.updateWallet(wIndex, { status: 'done' });
+    });
+
+    if (result.stoppedBy === 'duration') {
+      hooks.log(createLogEntry(`Load profile finished after ${(result.elapsedMs / 1000).toFixed(0)}s with ${result.dispatched}/${quota} txs dispatched.`, LogType.INFO));
+    }
+    if (result.skipped > 0) {
+      hooks.log(createLogEntry(`Fleet could not keep up with the target rate: ${result.skipped} scheduled txs skipped. Add wallets, raise the concurrency or lower the rate.`, LogType.WARNING));
+    }
+  };
+
+  let pendingTx = 0;
+  try {
+    if (loadProfile.kind === 'burst') {
+      await runBurst();
+    } else {
+      await runScheduled(loadProfile);
+    }
+    // After an abort nothing new is sent, gap fillers included, and receipts aren't awaited
+    if (control.state() !== 'aborted') await fillGaps();
+
+    if (control.state() !== 'aborted' && tracker.pendingCount() > 0) {
+      hooks.log(createLogEntry(`All txs broadcast. Waiting for ${tracker.pendingCount()} receipts...`, LogType.INFO));
+      // An abort while waiting stops the wait; receipts that arrived are kept
+      await Promise.race([tracker.waitForAll(), control.aborted()]);
+    }
+  } finally {
+    pendingTx = tracker.pendingCount();
+    tracker.stop();
+    clearInterval(metricsTimer);
+    if (stuckTimer) clearInterval(stuckTimer);
+    await observer?.close();
+  }
+
+  const endedAt = Date.now();
+  const summary = snapshot();
+  hooks.updateMetrics(summary);
+
+  const abortReason = control.abortReason();
+  const outcomes = `Mined ${stats.minedTx}, reverted ${stats.revertedTx}, replaced ${stats.replacedTx}, dropped ${stats.droppedTx}, rejected ${stats.failedTx}`;
+  if (abortReason) {
+    hooks.log(createLogEntry(
+      `SWARM ABORTED (${abortReason}). Broadcast ${stats.submittedTx} of ${maxTx} txs. ${outcomes}, ${pendingTx} still pending.`,
+      LogType.WARNING
+    ));
+  } else {
+    hooks.log(createLogEntry(`SWARM COMPLETE. ${outcomes}.`, LogType.SUCCESS));
+  }
+  hooks.log(createLogEntry(`Fleet spend: ${formatEther(spentWei)} CELO${fees.feeCurrency ? ' in value (gas paid in fee currency)' : ''}.`, LogType.INFO));
+
+  hooks.log(createLogEntry(
+    `Inclusion latency p50 ${summary.inclusionLatency.p50}ms / p90 ${summary.inclusionLatency.p90}ms / p99 ${summary.inclusionLatency.p99}ms, ` +
+    `accept p50 ${summary.acceptLatency.p50}ms, ${summary.minedTps.toFixed(2)} mined tx/s across ${summary.blockCount} blocks.`,
+    LogType.INFO
+  ));
+
+  if (summary.blockSpace) {
+    const b = summary.blockSpace;
+    hooks.log(createLogEntry(
+      `Block space: ${b.observedBlocks} blocks observed, ${(b.utilization * 100).toFixed(1)}% gas used, ` +
+      `fleet ${b.fleetTx}/${b.totalTx} txs (${(b.fleetShare * 100).toFixed(1)}%)` +
+      `${b.avgBlockTimeMs !== null ? `, block time ${(b.avgBlockTimeMs / 1000).toFixed(2)}s` : ''}` +
+      `${b.pendingSeen !== null ? `, ${b.pendingSeen} pending txs seen` : ''}.`,
+      LogType.INFO
+    ));
+  }
+
+  for (const e of summary.endpoints ?? []) {
+    hooks.log(createLogEntry(
+      `  RPC ${e.url}: ${e.requests} requests, ${e.errors} errors, p50 ${e.latency.p50}ms${e.healthy ? '' : ' (unhealthy)'}`,
+      e.healthy ? LogType.INFO : LogType.WARNING
+    ));
+  }
+
+  if (mixed) {
+    for (const a of summary.actions) {
+      hooks.log(createLogEntry(
+        `  ${a.name}: ${a.stats.minedTx}/${a.stats.totalTx} mined, ${a.stats.revertedTx} reverted, ${a.stats.failedTx} rejected, inclusion p50 ${a.inclusionLatency.p50}ms`,
+        LogType.INFO
+      ));
+    }
+  }
+
+  if (deployedAddresses.length > 0) {
+    hooks.log(createLogEntry(`Deployed ${deployedAddresses.length} contract(s), first at ${deployedAddresses[0]}.`, LogType.SUCCESS));
+  }
+
+  const balances = await refreshBalances(network, wallets, hooks);
+  if (token) await refreshTokenBalances(network, token, wallets, hooks);
+  const txs = Array.from(txRecords.values());
+  const walletResults: RunWalletResult[] = wallets.map((wallet, index) => {
+    const own = txs.filter(t => t.wallet === index);
+    return {
+      index,
+      address: wallet.address,
+      sent: own.length,
+      mined: own.filter(t => t.status === 'mined').length,
+      failed: rejectedSends[index] + own.filter(t => t.status === 'reverted' || t.status === 'dropped').length,
+      balanceAfter: balances[index]
+    };
+  });
+  return {
+    startedAt, endedAt, stats, metrics: summary, timings: metrics.timings(), txs, wallets: walletResults,
+    spent: formatEther(spentWei), pendingTx, abortReason, deployedAddresses
+  };
+};
@@ -5,29 +5,435 @@ export enum LogType {
   WARNING = 'WARNING'
 }
 
+// Lifecycle of a broadcast transaction, from RPC acceptance to final state
+export type TxStatus = 'submitted' | 'mined' | 'reverted' | 'replaced' | 'dropped';
+
 export interface LogEntry {
   id: string;
   timestamp: number;
   message: string;
   type: LogType;
   txHash?: string;
+  txStatus?: TxStatus;
+  calldata?: string; // Concrete calldata when the payload was templated
+  fee?: TxFeeData;
+}
+
+export interface NetworkProfile {
+  id: string;
+  name: string;
+  rpcUrl: string;
+  chainId: number;
+  explorerUrl: string; // Empty when the network has no public explorer (e.g. local node)
+  rpcPool?: RpcPoolConfig; // Spreads requests over several endpoints instead of rpcUrl alone
+  wsUrl?: string; // WebSocket endpoint for block and mempool subscriptions
+  mock?: MockChainConfig; // Served by the in-process mock chain; rpcUrl and rpcPool are ignored
+}
+
+// Chance per sent tx (0-1) of each injected failure
+export interface MockErrorRates {
+  rateLimited: number; // Rejected with a -32005 rate limit error
+  nonceConflict: number; // Rejected as "nonce too low" without entering the pool
+  reverted: number; // Mined with status 0; gas is still charged
+}
+
+// Simulated chain for offline dry runs. The same seed replays the same latencies and injected errors.
+export interface MockChainConfig {
+  blockTimeMs: number; // 0 only mines on MockChain.mineBlock()
+  blockGasLimit: number;
+  baseFeeGwei: string; // Starting and minimum base fee; it then follows block fullness as in EIP-1559
+  latencyMs: { min: number, max: number }; // Added to every RPC request
+  errorRates: MockErrorRates;
+  seed: number;
+}
+
+export interface RpcEndpoint {
+  url: string;
+  weight: number; // Relative share of requests
+}
+
+// roundRobin: weighted rotation; leastLatency: the fastest healthy endpoint, weighted
+export type RpcBalancing = 'roundRobin' | 'leastLatency';
+
+export interface RpcPoolConfig {
+  endpoints: RpcEndpoint[]; // The full pool; rpcUrl is not added implicitly
+  balancing: RpcBalancing;
 }
 
+export interface EndpointStats {
+  url: string;
+  weight: number;
+  requests: number; // JSON-RPC calls routed here
+  errors: number; // Transport failures and rate limits, not reverts
+  latency: LatencySummary; // Recent requests
+  healthy: boolean;
+}
+
+// sequential: one transfer per block; pipelined: all transfers with consecutive
+// nonces, receipts awaited together; disperse: batched through the helper contract
+export type FundingMode = 'sequential' | 'pipelined' | 'disperse';
+
 export interface WalletAccount {
   address: string;
   privateKey: string;
   balance: string;
   txCount: number;
   status: 'idle' | 'funding' | 'sending' | 'done' | 'error';
+  derivationPath?: string; // Set for mnemonic-derived fleets
+  nonceState?: NonceState; // Live during a swarm
+  tokenBalance?: string; // In units of the fleet token, once one is set
+}
+
+export interface NonceState {
+  confirmed: number; // Mined nonce count
+  next: number; // Next nonce the swarm will use
+  inFlight: number; // Sent, not yet settled
+  gaps: number; // Reserved nonces whose send failed
+}
+
+export interface TxReceiptInfo {
+  success: boolean; // false when mined with status 0
+  blockNumber: number;
+  gasUsed: string;
+  effectiveGasPrice: string; // wei, or fee-currency units for CIP-64 txs
+  contractAddress?: string; // Set for contract creations
+}
+
+export interface SweepResult {
+  index: number;
+  address: string;
+  status: 'swept' | 'skipped' | 'failed';
+  amount: string; // CELO returned, '0' unless swept
+  txHash?: string;
+  reason?: string;
+}
+
+// ERC-20 the fleet is prepared with: a Celo stablecoin or any custom token
+export interface TokenInfo {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface ApprovalResult {
+  index: number;
+  address: string;
+  status: 'approved' | 'failed';
+  txHash?: string;
+  reason?: string;
+}
+
+export interface SwarmStats {
+  totalTx: number; // Send attempts
+  submittedTx: number; // Accepted by the RPC
+  failedTx: number; // Rejected before broadcast
+  minedTx: number;
+  revertedTx: number;
+  replacedTx: number;
+  droppedTx: number;
+}
+
+export type RunState = 'running' | 'paused' | 'aborted';
+
+// Stop sending automatically once any limit is crossed
+export interface AbortTriggers {
+  maxSpend?: string; // CELO spent by the fleet on value and gas, counted from receipts
+  maxFailureRate?: number; // 0..1, see failureRate()
+  minSettledTx?: number; // Failure rate is ignored until this many txs have a final state
+}
+
+export type ErrorClass =
+  | 'rate_limited'
+  | 'network_timeout'
+  | 'nonce_conflict'
+  | 'underpriced'
+  | 'insufficient_funds'
+  | 'execution_reverted'
+  | 'unknown';
+
+export interface RetryPolicy {
+  maxRetries: number;
+  backoffMs: number; // Wait before the first retry
+  backoffMultiplier: number; // Applied per further retry
+  maxBackoffMs: number;
+}
+
+export type RetryPolicies = Record<ErrorClass, RetryPolicy>;
+
+export interface ErrorBreakdown {
+  errorClass: ErrorClass;
+  failed: number; // Sends given up on
+  retried: number; // Attempts that were retried
+}
+
+export interface LatencySummary {
+  count: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+}
+
+// Per-second bucket relative to run start
+export interface TpsPoint {
+  second: number;
+  submitted: number;
+  mined: number;
+  avgInclusionMs: number | null;
+}
+
+export interface TxTiming {
+  hash: string;
+  submitStartedAt: number;
+  acceptedAt: number; // RPC returned the hash
+  includedAt?: number; // Receipt observed
+  blockNumber?: number;
+  actionId?: string;
+  fee?: TxFeeData;
+}
+
+export interface MetricsSnapshot {
+  startedAt: number;
+  elapsedMs: number;
+  acceptLatency: LatencySummary; // Submit -> accepted by RPC
+  inclusionLatency: LatencySummary; // Submit -> receipt observed
+  submittedTps: number;
+  minedTps: number;
+  series: TpsPoint[];
+  blockCount: number; // Distinct blocks containing our txs
+  actions: ActionMetrics[]; // Per-action breakdown, in workload order
+  errors: ErrorBreakdown[]; // Classes seen so far
+  endpoints?: EndpointStats[]; // Set when the network uses an RPC pool
+  blockSpace?: BlockSpaceSummary; // Set when blocks are observed over a WebSocket
+}
+
+// One block as seen through the newHeads subscription
+export interface BlockSample {
+  number: number;
+  seenAt: number; // When the header arrived over the socket
+  timestamp: number; // Block time, unix seconds
+  gasUsed: number;
+  gasLimit: number;
+  txCount: number;
+  fleetTxCount: number; // Txs sent by this run's wallets
+}
+
+export interface BlockSpaceSummary {
+  connected: boolean;
+  blocks: BlockSample[]; // Most recent last, capped at BLOCK_SAMPLE_LIMIT
+  observedBlocks: number;
+  utilization: number; // Gas used / gas limit over all observed blocks, 0..1
+  totalTx: number;
+  fleetTx: number;
+  fleetShare: number; // Fleet txs / all txs in observed blocks, 0..1
+  avgBlockTimeMs: number | null; // Between header arrivals
+  pendingSeen: number | null; // Mempool txs streamed; null when the node has no pending subscription
+}
+
+export interface LoadStep {
+  rate: number; // tx/s
+  durationSec: number;
+}
+
+// Aggregate send rate across the whole fleet over time.
+// 'burst' is the original behaviour: every wallet sends its quota back to back.
+export type LoadProfile =
+  | { kind: 'burst' }
+  | { kind: 'constant'; rate: number }
+  | { kind: 'ramp'; fromRate: number; toRate: number; durationSec: number }
+  | { kind: 'steps'; steps: LoadStep[] }
+  | { kind: 'spike'; baseRate: number; spikeRate: number; intervalSec: number; spikeDurationSec: number };
+
+// How each swarm tx is priced. Gwei amounts are strings to keep decimals exact.
+// With a feeCurrency set, amounts are in that token's units instead of CELO.
+export type FeeStrategy =
+  | { kind: 'auto' } // Whatever the RPC suggests
+  | { kind: 'fixed'; gasPriceGwei: string } // Legacy gasPrice
+  | { kind: 'baseFeeMultiplier'; gasPriceMultiplier: number; priorityFeeGwei: string } // Base fee sampled at start
+  | { kind: 'capped'; maxFeeGwei: string; priorityFeeGwei: string } // Explicit EIP-1559 caps
+  | { kind: 'dynamic'; priorityFeeGwei: string; maxFeeCapGwei?: string }; // Follows the latest block's base fee
+
+export interface FeeConfig {
+  strategy: FeeStrategy;
+  feeCurrency?: string; // Celo fee currency (e.g. cUSD); sent as a CIP-64 tx
+}
+
+// Resolved per tx from a FeeConfig, in wei (or fee currency units)
+export interface FeeParams {
+  gasPrice?: bigint;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  feeCurrency?: string;
+}
+
+// Fee fields a tx was actually sent with, in gwei
+export interface TxFeeData {
+  type: 'legacy' | 'eip1559' | 'cip64';
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  feeCurrency?: string;
+}
+
+export interface StoredFleetMeta {
+  id: string;
+  networkId: string;
+  walletCount: number;
+  firstAddress: string;
+  updatedAt: number;
+}
+
+// One entry of a mixed workload. Every tx picks an action at random, proportional to weight.
+export interface WorkloadAction {
+  id: string;
+  name: string;
+  weight: number;
+  target: string; // Address or a list placeholder such as {{listRandom:deployed}}; empty for deploys
+  payload: PayloadTemplate;
+  value: string; // CELO sent with each tx
+  gasLimit: number;
+}
+
+export interface ActionMetrics {
+  actionId: string;
+  name: string;
+  stats: SwarmStats;
+  inclusionLatency: LatencySummary;
+}
+
+export interface PreflightSimulation {
+  actionId: string;
+  actionName: string;
+  walletIndex: number;
+  ok: boolean;
+  gasEstimate?: number;
+  reason?: string; // Decoded revert or why the estimate doesn't fit
+}
+
+export interface PreflightReport {
+  passed: boolean;
+  gasPrice: string; // gwei
+  requiredPerWallet: string; // CELO for the full per-wallet quota at the worst-case action
+  simulations: PreflightSimulation[];
+  underfunded: number[]; // Wallet indexes whose balance can't cover the quota
+}
+
+// Final state of one broadcast tx. Sends rejected by the RPC have no hash and
+// only show up in the stats and error breakdown.
+export interface RunTxRecord {
+  hash: string;
+  wallet: number; // Fleet index
+  nonce: number;
+  actionId?: string; // Unset for gap fillers
+  status: TxStatus; // 'submitted' when the run ended before a receipt
+  blockNumber?: number;
+  gasUsed?: string;
+  fee?: TxFeeData;
+  submittedAt: number;
+  includedAt?: number;
+  contractAddress?: string; // Deploy actions, once mined
+}
+
+export interface RunWalletResult {
+  index: number;
+  address: string;
+  sent: number; // Broadcast hashes, gap fillers and fee-bumped resends included
+  mined: number;
+  failed: number; // Rejected, reverted or dropped
+  balanceAfter: string; // CELO
+}
+
+// What a run was configured with, minus secrets (no keys, no funder)
+export interface RunConfigSnapshot {
+  network: { id: string; name: string; chainId: number; explorerUrl: string };
+  walletCount: number;
+  interactionsPerWallet: number;
+  actions: { id: string; name: string; weight: number; target: string; value: string; gasLimit: number; payload: string }[];
+  fees: FeeConfig;
+  loadProfile: LoadProfile;
+  maxDurationSec?: number;
+  concurrency?: number;
+  retryPolicies?: Partial<RetryPolicies>;
+  abortOn?: AbortTriggers;
+}
+
+export interface RunReport {
+  id: string;
+  label: string;
+  startedAt: number;
+  endedAt: number;
+  config: RunConfigSnapshot;
+  abortReason?: string;
+  stats: SwarmStats;
+  metrics: MetricsSnapshot;
+  spent: string; // CELO
+  wallets: RunWalletResult[];
+  txs: RunTxRecord[];
+}
+
+// Listing entry for the history view, without the heavy per-tx data
+export interface RunReportMeta {
+  id: string;
+  label: string;
+  startedAt: number;
+  endedAt: number;
+  networkName: string;
+  aborted: boolean;
+  totalTx: number;
+  minedTx: number;
 }
 
 export interface SimulationConfig {
-  targetContract: string;
+  actions: WorkloadAction[];
   walletCount: number;
   interactionsPerWallet: number;
   funderPrivateKey: string; // The master wallet to fund sub-wallets
-  customData: string; // Hex data for the transaction
-  gasPriceMultiplier: number; // For aggressive testing
+  fees: FeeConfig; // gasPriceMultiplier lives on the baseFeeMultiplier strategy
+}
+
+export interface AbiFunctionInfo {
+  signature: string; // e.g. transfer(address,uint256)
+  name: string;
+  inputs: { name: string; type: string }[];
+  stateMutability: string;
+}
+
+export interface DecodedCall {
+  signature: string;
+  args: { name: string; type: string; value: string }[];
+}
+
+// Calldata resolved per transaction. Placeholders such as {{sender}} appear in
+// hex (substituted as 32-byte words) or in ABI arguments (substituted as values).
+export type PayloadTemplate =
+  | { kind: 'hex'; data: string }
+  | { kind: 'abi'; abiText: string; signature: string; args: string[] }
+  | { kind: 'deploy'; bytecode: string; abiText?: string; args: string[] }; // Contract creation; args feed the constructor
+
+// Stages of a pipeline run, in the order they execute
+export type PipelinePhaseKind = 'fleet' | 'fund' | 'tokenSetup' | 'approvals' | 'warmup' | 'load' | 'cooldown' | 'sweep';
+
+export interface PipelinePhase {
+  kind: PipelinePhaseKind;
+  enabled: boolean;
+  stopOnFailure: boolean; // Skip the remaining phases (except sweep) when the criteria are missed
+  minSuccessRate: number; // 0..1 share of wallets (setup, sweep) or txs (swarm phases) that must succeed
+  maxInclusionP90Ms?: number; // Swarm phases: also fail when p90 inclusion latency is slower
+  txPerWallet?: number; // Warm-up and cool-down; the load phase uses the run's own quota
+  loadProfile?: LoadProfile; // Warm-up and cool-down
+  amount?: string; // Token setup: units per wallet. Approvals: allowance, empty for the maximum
+  spender?: string; // Approvals
+}
+
+export type PhaseStatus = 'pending' | 'running' | 'passed' | 'failed' | 'skipped' | 'aborted';
+
+export interface PhaseState {
+  kind: PipelinePhaseKind;
+  status: PhaseStatus;
+  startedAt?: number;
+  endedAt?: number;
+  successRate?: number; // Measured against minSuccessRate
+  detail?: string; // Outcome summary or the reason it failed or was skipped
 }
 
 export interface GeminiSuggestion {